@@ -0,0 +1,286 @@
+// Audit log of tool calls: one JSON Lines entry per call with who ran what, against
+// which session, how many rows it touched and how it ended. Written to stderr or to a
+// local file rotated by size.
+import { appendFile, mkdir, rename, rm, stat } from "fs/promises";
+import { dirname } from "path";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { isWord, tokenize } from "./sql-classifier.js";
+
+export const DEFAULT_AUDIT_LOG_MAX_SIZE_MB = 100;
+export const DEFAULT_AUDIT_LOG_MAX_FILES = 5;
+
+export interface AuditConfig {
+  // "stderr" or the path of the log file
+  destination: string;
+  // Replace string and number literals in SQL with ?
+  redactLiterals: boolean;
+  // Size at which the file is rotated; 0 never rotates
+  maxBytes: number;
+  // Rotated files kept next to the log, as <path>.1 (newest) to <path>.<maxFiles>
+  maxFiles: number;
+}
+
+// Filled in by tool handlers with the rows the call returned or changed
+export interface AuditDetails {
+  rows?: number;
+  affectedRows?: number;
+  // Statements tools such as vector_search or describe_table build themselves; logged
+  // instead of the SQL in the arguments when there are any
+  sql?: string[];
+}
+
+export interface AuditCall {
+  tool: string;
+  sessionId?: string;
+  principal?: string;
+  // Validated tool arguments; only the SQL and (redacted) params are logged
+  args: Record<string, unknown>;
+}
+
+export interface AuditEntry {
+  timestamp: string;
+  session_id: string | null;
+  principal: string | null;
+  tool: string;
+  sql: string | string[] | null;
+  params: unknown;
+  rows: number | null;
+  affected_rows: number | null;
+  duration_ms: number;
+  error_code: string | null;
+}
+
+function parseNonNegativeInteger(value: string | undefined, name: string, fallback: number): number {
+  if (value === undefined || value === "") {
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`${name} must be a non-negative integer, got "${value}"`);
+  }
+  return parsed;
+}
+
+// Audit settings from the environment, or null when MCP_AUDIT_LOG is not set
+export function loadAuditConfig(env: NodeJS.ProcessEnv): AuditConfig | null {
+  const destination = env.MCP_AUDIT_LOG?.trim();
+  if (!destination) {
+    return null;
+  }
+  return {
+    destination,
+    redactLiterals: env.MCP_AUDIT_REDACT_LITERALS?.toLowerCase() !== "false",
+    maxBytes: parseNonNegativeInteger(env.MCP_AUDIT_LOG_MAX_SIZE, "MCP_AUDIT_LOG_MAX_SIZE", DEFAULT_AUDIT_LOG_MAX_SIZE_MB) * 1024 * 1024,
+    maxFiles: parseNonNegativeInteger(env.MCP_AUDIT_LOG_MAX_FILES, "MCP_AUDIT_LOG_MAX_FILES", DEFAULT_AUDIT_LOG_MAX_FILES),
+  };
+}
+
+// Statements that can carry a password in a string literal: CREATE/ALTER USER ... IDENTIFIED BY,
+// SET PASSWORD. Their literals are redacted even when literal redaction is off.
+function carriesPassword(sql: string): boolean {
+  return tokenize(sql).some((token) => isWord(token, "IDENTIFIED", "PASSWORD"));
+}
+
+export function redactSql(sql: string, redactLiterals: boolean): string {
+  const secret = carriesPassword(sql);
+  if (!redactLiterals && !secret) {
+    return sql;
+  }
+  let redacted = "";
+  let last = 0;
+  for (const token of tokenize(sql)) {
+    if (token.type === "string" || (redactLiterals && token.type === "number")) {
+      redacted += `${sql.slice(last, token.start)}?`;
+      last = token.end;
+    }
+  }
+  return redacted + sql.slice(last);
+}
+
+// A bound value reduced to its kind, so that the log shows the shape of a call but no data
+function redactParam(param: unknown): string {
+  if (param === null) {
+    return "<null>";
+  }
+  if (Array.isArray(param)) {
+    return "<vector>";
+  }
+  if (typeof param === "object") {
+    return "<json>";
+  }
+  return `<${typeof param}>`;
+}
+
+// params of db_query and explain_query are one list; db_execute takes one list (or null)
+// per statement when it runs several
+export function redactParams(sql: string | string[] | null, params: unknown): unknown {
+  if (!Array.isArray(params)) {
+    return null;
+  }
+  if (Array.isArray(sql)) {
+    return params.map((entry) => (Array.isArray(entry) ? entry.map(redactParam) : null));
+  }
+  return params.map(redactParam);
+}
+
+function sqlOf(args: Record<string, unknown>): string | string[] | null {
+  const sql = args.sql_stmt ?? args.sql_stmts;
+  if (typeof sql === "string" || (Array.isArray(sql) && sql.every((statement) => typeof statement === "string"))) {
+    return sql;
+  }
+  return null;
+}
+
+// TiDB errors carry codes such as ER_NO_SUCH_TABLE; MCP errors carry JSON-RPC codes
+export function auditErrorCode(error: unknown): string {
+  const code = (error as any)?.code;
+  if (typeof code === "string" || typeof code === "number") {
+    return String(code);
+  }
+  return error instanceof Error ? error.name : "UNKNOWN";
+}
+
+export interface AuditSink {
+  write(text: string): Promise<void>;
+}
+
+export class StderrSink implements AuditSink {
+  write(text: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      process.stderr.write(text, (error) => (error ? reject(error) : resolve()));
+    });
+  }
+}
+
+// Appends to a file, moving it aside as <path>.1 once the next entry would take it past
+// maxBytes. Created readable by the owner only, as entries show who queried what.
+export class RotatingFileSink implements AuditSink {
+  private size?: number;
+
+  constructor(private readonly path: string, private readonly maxBytes: number, private readonly maxFiles: number) {}
+
+  async write(text: string): Promise<void> {
+    if (this.size === undefined) {
+      await mkdir(dirname(this.path), { recursive: true });
+      this.size = await fileSize(this.path);
+    }
+    const bytes = Buffer.byteLength(text);
+    if (this.maxBytes > 0 && this.size > 0 && this.size + bytes > this.maxBytes) {
+      await this.rotate();
+      this.size = 0;
+    }
+    await appendFile(this.path, text, { encoding: "utf8", mode: 0o600 });
+    this.size += bytes;
+  }
+
+  private async rotate(): Promise<void> {
+    if (this.maxFiles === 0) {
+      await rm(this.path, { force: true });
+      return;
+    }
+    await rm(`${this.path}.${this.maxFiles}`, { force: true });
+    for (let n = this.maxFiles - 1; n >= 1; n--) {
+      await rename(`${this.path}.${n}`, `${this.path}.${n + 1}`).catch((error) => {
+        if (error.code !== "ENOENT") {
+          throw error;
+        }
+      });
+    }
+    await rename(this.path, `${this.path}.1`);
+  }
+}
+
+async function fileSize(path: string): Promise<number> {
+  try {
+    return (await stat(path)).size;
+  } catch (error: any) {
+    if (error.code === "ENOENT") {
+      return 0;
+    }
+    throw error;
+  }
+}
+
+export function createAuditSink(config: AuditConfig): AuditSink {
+  return config.destination.toLowerCase() === "stderr"
+    ? new StderrSink()
+    : new RotatingFileSink(config.destination, config.maxBytes, config.maxFiles);
+}
+
+export class AuditLog {
+  private readonly sink: AuditSink | null;
+  // Entries are written one after another, in the order calls finished
+  private pending: Promise<void> = Promise.resolve();
+
+  // Without a config nothing is logged
+  constructor(private readonly config: AuditConfig | null, sink?: AuditSink, private readonly now: () => number = Date.now) {
+    this.sink = config ? sink ?? createAuditSink(config) : null;
+  }
+
+  get enabled(): boolean {
+    return this.sink !== null;
+  }
+
+  describe(): string {
+    if (!this.config) {
+      return "Audit log disabled";
+    }
+    return `Audit log: ${this.config.destination}${this.config.redactLiterals ? " (SQL literals redacted)" : ""}`;
+  }
+
+  // Runs a tool call and logs it once it has finished. A failed write is reported on
+  // stderr but does not fail the call.
+  async recordToolCall(call: AuditCall, run: (details: AuditDetails) => Promise<CallToolResult>): Promise<CallToolResult> {
+    const details: AuditDetails = {};
+    if (!this.sink) {
+      return run(details);
+    }
+    const started = this.now();
+    let errorCode: string | null = null;
+    try {
+      const result = await run(details);
+      if (result.isError) {
+        errorCode = "TOOL_ERROR";
+      }
+      return result;
+    } catch (error) {
+      errorCode = auditErrorCode(error);
+      throw error;
+    } finally {
+      this.write(this.entry(call, details, started, errorCode));
+    }
+  }
+
+  // Resolves once every entry logged so far has been written
+  flush(): Promise<void> {
+    return this.pending;
+  }
+
+  private entry(call: AuditCall, details: AuditDetails, started: number, errorCode: string | null): AuditEntry {
+    const argumentSql = sqlOf(call.args);
+    const sql = details.sql?.length ? details.sql : argumentSql;
+    const redactLiterals = this.config?.redactLiterals ?? true;
+    return {
+      timestamp: new Date(started).toISOString(),
+      session_id: call.sessionId ?? null,
+      principal: call.principal ?? null,
+      tool: call.tool,
+      sql: Array.isArray(sql) ? sql.map((statement) => redactSql(statement, redactLiterals)) : sql && redactSql(sql, redactLiterals),
+      // params belong to the statement(s) passed in the arguments
+      params: redactParams(argumentSql, call.args.params),
+      rows: details.rows ?? null,
+      affected_rows: details.affectedRows ?? null,
+      duration_ms: this.now() - started,
+      error_code: errorCode,
+    };
+  }
+
+  private write(entry: AuditEntry): void {
+    const sink = this.sink!;
+    this.pending = this.pending
+      .then(() => sink.write(`${JSON.stringify(entry)}\n`))
+      .catch((error) => {
+        console.error("Failed to write audit log entry:", error);
+      });
+  }
+}
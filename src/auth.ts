@@ -0,0 +1,355 @@
+// Bearer-token authorization for the Streamable HTTP endpoint. The server acts as an
+// OAuth 2.1 resource server: it accepts JWT access tokens signed by keys from a JWKS
+// file or URL, or static API keys, and maps token scopes to the tools a caller may use.
+import { constants, createHash, createPublicKey, JsonWebKey, KeyObject, timingSafeEqual, verify } from "crypto";
+import { readFile } from "fs/promises";
+import { InvalidTokenError, ServerError } from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import type { OAuthTokenVerifier } from "@modelcontextprotocol/sdk/server/auth/provider.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import type { OAuthProtectedResourceMetadata } from "@modelcontextprotocol/sdk/shared/auth.js";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import type { ToolDefinition } from "./tools.js";
+
+export const READ_SCOPE = "tidb:read";
+export const WRITE_SCOPE = "tidb:write";
+// Server administration, such as listing live sessions; grants no tools
+export const ADMIN_SCOPE = "tidb:admin";
+export const SUPPORTED_SCOPES = [READ_SCOPE, WRITE_SCOPE, ADMIN_SCOPE];
+
+export interface ApiKey {
+  // SHA-256 of the key, so the plaintext is not kept in memory after startup
+  digest: Buffer;
+  scopes: string[];
+}
+
+export interface AuthConfig {
+  // Resource identifier tokens must be issued for, e.g. https://mcp.example.com/mcp
+  resourceUrl: string;
+  authorizationServers: string[];
+  jwksUrl?: string;
+  jwksFile?: string;
+  issuer?: string;
+  audience?: string;
+  apiKeys: ApiKey[];
+}
+
+// Allowed difference between our clock and the issuer's for exp and nbf
+const CLOCK_TOLERANCE_SECONDS = 30;
+
+// How long a fetched key set is trusted, and how often an unknown kid may trigger a refetch
+const JWKS_CACHE_MS = 10 * 60 * 1000;
+const JWKS_REFRESH_MS = 30 * 1000;
+
+function digest(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+function parseList(value: string | undefined): string[] {
+  return (value ?? "").split(",").map((item) => item.trim()).filter((item) => item.length > 0);
+}
+
+function parseUrl(value: string, name: string): string {
+  try {
+    return new URL(value).href;
+  } catch (error) {
+    throw new Error(`${name} must be an absolute URL, got "${value}"`);
+  }
+}
+
+// MCP_CORS_ORIGIN="https://app.example.com,https://admin.example.com": the browser origins
+// allowed to call the endpoint. None by default. "*" is refused, as cross-origin requests
+// are allowed to carry credentials.
+export function parseCorsOrigins(value: string | undefined): string[] {
+  return parseList(value).map((entry) => {
+    if (entry === "*") {
+      throw new Error('MCP_CORS_ORIGIN must list the allowed origins, such as https://app.example.com; "*" is not allowed');
+    }
+    const origin = parseOrigin(entry);
+    if (!origin) {
+      throw new Error(`MCP_CORS_ORIGIN: "${entry}" is not an origin such as https://app.example.com`);
+    }
+    return origin;
+  });
+}
+
+// Scheme, host and port only; a path or a scheme without a host (origin "null") is rejected
+function parseOrigin(value: string): string | null {
+  try {
+    const { origin } = new URL(value);
+    return origin !== "null" && origin === value.replace(/\/+$/, "") ? origin : null;
+  } catch {
+    return null;
+  }
+}
+
+// MCP_AUTH_API_KEYS="key1,key2=tidb:read": a key without scopes may use every tool
+export function parseApiKeys(value: string | undefined): ApiKey[] {
+  return parseList(value).map((entry) => {
+    const separator = entry.indexOf("=");
+    const key = separator === -1 ? entry : entry.slice(0, separator);
+    const scopes = separator === -1 ? [READ_SCOPE, WRITE_SCOPE] : entry.slice(separator + 1).split(/\s+/).filter(Boolean);
+    if (key.length < 16) {
+      throw new Error("MCP_AUTH_API_KEYS: API keys must be at least 16 characters long");
+    }
+    const unknown = scopes.filter((scope) => !SUPPORTED_SCOPES.includes(scope));
+    if (scopes.length === 0 || unknown.length > 0) {
+      throw new Error(`MCP_AUTH_API_KEYS: unknown scopes ${unknown.join(", ") || "(none)"}. Supported: ${SUPPORTED_SCOPES.join(", ")}`);
+    }
+    return { digest: digest(key), scopes };
+  });
+}
+
+// Authorization settings from the environment, or null when the endpoint is left open
+export function loadAuthConfig(env: NodeJS.ProcessEnv, defaultResourceUrl: string): AuthConfig | null {
+  const apiKeys = parseApiKeys(env.MCP_AUTH_API_KEYS);
+  const jwksUrl = env.MCP_AUTH_JWKS_URL ? parseUrl(env.MCP_AUTH_JWKS_URL, "MCP_AUTH_JWKS_URL") : undefined;
+  const jwksFile = env.MCP_AUTH_JWKS_FILE || undefined;
+  if (!jwksUrl && !jwksFile && apiKeys.length === 0) {
+    return null;
+  }
+  if (jwksUrl && jwksFile) {
+    throw new Error("Set either MCP_AUTH_JWKS_URL or MCP_AUTH_JWKS_FILE, not both");
+  }
+
+  const resourceUrl = parseUrl(env.MCP_AUTH_RESOURCE_URL || defaultResourceUrl, "MCP_AUTH_RESOURCE_URL");
+  const issuer = env.MCP_AUTH_ISSUER || undefined;
+  if ((jwksUrl || jwksFile) && !issuer) {
+    throw new Error("MCP_AUTH_ISSUER is required when JWT validation is enabled");
+  }
+  const authorizationServers = parseList(env.MCP_AUTH_AUTHORIZATION_SERVERS)
+    .map((server) => parseUrl(server, "MCP_AUTH_AUTHORIZATION_SERVERS"));
+
+  return {
+    resourceUrl,
+    authorizationServers: authorizationServers.length > 0 ? authorizationServers : issuer ? [issuer] : [],
+    ...(jwksUrl ? { jwksUrl } : {}),
+    ...(jwksFile ? { jwksFile } : {}),
+    ...(issuer ? { issuer } : {}),
+    // Tokens are audience-bound to this server unless the issuer uses another value
+    audience: env.MCP_AUTH_AUDIENCE || resourceUrl,
+    apiKeys,
+  };
+}
+
+// RFC 9728 document telling clients which authorization servers issue tokens for us
+export function protectedResourceMetadata(config: AuthConfig): OAuthProtectedResourceMetadata {
+  return {
+    resource: config.resourceUrl,
+    authorization_servers: config.authorizationServers,
+    scopes_supported: SUPPORTED_SCOPES,
+    bearer_methods_supported: ["header"],
+    resource_name: "TiDB MCP Server",
+  };
+}
+
+interface JwtAlgorithm {
+  keyTypes: string[];
+  hash: string | null;
+  options?: { padding?: number; saltLength?: number; dsaEncoding?: "ieee-p1363" };
+}
+
+// Asymmetric algorithms only: "none" and shared-secret HS* tokens are always rejected
+const JWT_ALGORITHMS: Record<string, JwtAlgorithm> = {
+  RS256: { keyTypes: ["rsa"], hash: "sha256" },
+  RS384: { keyTypes: ["rsa"], hash: "sha384" },
+  RS512: { keyTypes: ["rsa"], hash: "sha512" },
+  PS256: { keyTypes: ["rsa", "rsa-pss"], hash: "sha256", options: { padding: constants.RSA_PKCS1_PSS_PADDING, saltLength: constants.RSA_PSS_SALTLEN_DIGEST } },
+  PS384: { keyTypes: ["rsa", "rsa-pss"], hash: "sha384", options: { padding: constants.RSA_PKCS1_PSS_PADDING, saltLength: constants.RSA_PSS_SALTLEN_DIGEST } },
+  PS512: { keyTypes: ["rsa", "rsa-pss"], hash: "sha512", options: { padding: constants.RSA_PKCS1_PSS_PADDING, saltLength: constants.RSA_PSS_SALTLEN_DIGEST } },
+  ES256: { keyTypes: ["ec"], hash: "sha256", options: { dsaEncoding: "ieee-p1363" } },
+  ES384: { keyTypes: ["ec"], hash: "sha384", options: { dsaEncoding: "ieee-p1363" } },
+  ES512: { keyTypes: ["ec"], hash: "sha512", options: { dsaEncoding: "ieee-p1363" } },
+  EdDSA: { keyTypes: ["ed25519", "ed448"], hash: null },
+};
+
+interface SigningKey {
+  kid?: string;
+  alg?: string;
+  key: KeyObject;
+}
+
+function parseJwks(document: any): SigningKey[] {
+  if (!Array.isArray(document?.keys)) {
+    throw new Error('JWKS must have a "keys" array');
+  }
+  return document.keys
+    .filter((jwk: any) => jwk && (jwk.use === undefined || jwk.use === "sig"))
+    .map((jwk: JsonWebKey & { kid?: string; alg?: string }) => ({
+      ...(jwk.kid !== undefined ? { kid: String(jwk.kid) } : {}),
+      ...(jwk.alg !== undefined ? { alg: String(jwk.alg) } : {}),
+      key: createPublicKey({ key: jwk, format: "jwk" }),
+    }));
+}
+
+// Signing keys from a JWKS file or URL, cached and reloaded when a token names an unknown kid
+class KeySet {
+  private keys: SigningKey[] = [];
+  private loadedAt = 0;
+
+  constructor(private readonly load: () => Promise<unknown>) {}
+
+  async find(kid: string | undefined): Promise<SigningKey | undefined> {
+    const age = Date.now() - this.loadedAt;
+    let key = this.match(kid);
+    if (age > JWKS_CACHE_MS || (!key && age > JWKS_REFRESH_MS)) {
+      try {
+        this.keys = parseJwks(await this.load());
+        this.loadedAt = Date.now();
+      } catch (error) {
+        throw new ServerError(`Failed to load signing keys: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      key = this.match(kid);
+    }
+    return key;
+  }
+
+  private match(kid: string | undefined): SigningKey | undefined {
+    if (kid === undefined) {
+      return this.keys.length === 1 ? this.keys[0] : undefined;
+    }
+    return this.keys.find((key) => key.kid === kid);
+  }
+}
+
+function decodeSegment(segment: string, what: string): any {
+  try {
+    return JSON.parse(Buffer.from(segment, "base64url").toString("utf8"));
+  } catch (error) {
+    throw new InvalidTokenError(`Malformed token ${what}`);
+  }
+}
+
+// Scopes from the space-separated "scope" claim, or the "scp" array some issuers use
+function tokenScopes(claims: Record<string, unknown>): string[] {
+  const value = claims.scope ?? claims.scp;
+  if (typeof value === "string") {
+    return value.split(" ").filter(Boolean);
+  }
+  return Array.isArray(value) ? value.map(String) : [];
+}
+
+export class TokenVerifier implements OAuthTokenVerifier {
+  private readonly keySet?: KeySet;
+
+  constructor(private readonly config: AuthConfig) {
+    if (config.jwksFile) {
+      const path = config.jwksFile;
+      this.keySet = new KeySet(async () => JSON.parse(await readFile(path, "utf8")));
+    } else if (config.jwksUrl) {
+      const url = config.jwksUrl;
+      this.keySet = new KeySet(async () => {
+        const response = await fetch(url, { signal: AbortSignal.timeout(10000) });
+        if (!response.ok) {
+          throw new Error(`${url} returned HTTP ${response.status}`);
+        }
+        return response.json();
+      });
+    }
+  }
+
+  async verifyAccessToken(token: string): Promise<AuthInfo> {
+    const apiKey = this.findApiKey(token);
+    if (apiKey) {
+      return {
+        token,
+        clientId: `api-key:${apiKey.digest.toString("hex").slice(0, 8)}`,
+        scopes: apiKey.scopes,
+        // API keys do not expire; they are revoked by removing them from the configuration
+        expiresAt: Number.MAX_SAFE_INTEGER,
+      };
+    }
+    if (!this.keySet) {
+      throw new InvalidTokenError("Invalid API key");
+    }
+    return this.verifyJwt(token, this.keySet);
+  }
+
+  private findApiKey(token: string): ApiKey | undefined {
+    const tokenDigest = digest(token);
+    return this.config.apiKeys.find((key) => timingSafeEqual(key.digest, tokenDigest));
+  }
+
+  private async verifyJwt(token: string, keySet: KeySet): Promise<AuthInfo> {
+    const segments = token.split(".");
+    if (segments.length !== 3) {
+      throw new InvalidTokenError("Malformed token");
+    }
+    const [encodedHeader, encodedPayload, encodedSignature] = segments;
+    const header = decodeSegment(encodedHeader, "header");
+    const claims = decodeSegment(encodedPayload, "payload");
+    if (claims === null || typeof claims !== "object" || Array.isArray(claims)) {
+      throw new InvalidTokenError("Malformed token payload");
+    }
+
+    const algorithm = JWT_ALGORITHMS[header?.alg];
+    if (!algorithm) {
+      throw new InvalidTokenError(`Unsupported token algorithm: ${header?.alg}`);
+    }
+    const signingKey = await keySet.find(typeof header.kid === "string" ? header.kid : undefined);
+    if (!signingKey) {
+      throw new InvalidTokenError("Token is signed by an unknown key");
+    }
+    if ((signingKey.alg && signingKey.alg !== header.alg) || !algorithm.keyTypes.includes(signingKey.key.asymmetricKeyType ?? "")) {
+      throw new InvalidTokenError(`Token algorithm ${header.alg} does not match its signing key`);
+    }
+    const valid = verify(
+      algorithm.hash,
+      Buffer.from(`${encodedHeader}.${encodedPayload}`),
+      { key: signingKey.key, ...algorithm.options },
+      Buffer.from(encodedSignature, "base64url")
+    );
+    if (!valid) {
+      throw new InvalidTokenError("Invalid token signature");
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    if (typeof claims.exp !== "number") {
+      throw new InvalidTokenError("Token has no expiration time");
+    }
+    if (claims.exp + CLOCK_TOLERANCE_SECONDS < now) {
+      throw new InvalidTokenError("Token has expired");
+    }
+    if (typeof claims.nbf === "number" && claims.nbf - CLOCK_TOLERANCE_SECONDS > now) {
+      throw new InvalidTokenError("Token is not yet valid");
+    }
+    if (claims.iss !== this.config.issuer) {
+      throw new InvalidTokenError("Token was issued by an untrusted issuer");
+    }
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.includes(this.config.audience)) {
+      throw new InvalidTokenError("Token was not issued for this server");
+    }
+
+    return {
+      token,
+      clientId: String(claims.client_id ?? claims.azp ?? claims.sub ?? "unknown"),
+      scopes: tokenScopes(claims),
+      expiresAt: claims.exp,
+      extra: {
+        ...(claims.sub !== undefined ? { subject: String(claims.sub) } : {}),
+        claims,
+      },
+    };
+  }
+}
+
+// Who a token belongs to: the JWT subject, or the client for API keys and subject-less tokens
+export function principal(authInfo: AuthInfo): string {
+  return typeof authInfo.extra?.subject === "string" ? authInfo.extra.subject : authInfo.clientId;
+}
+
+// Scopes granting a tool: tidb:write covers every tool, tidb:read only those that do not write
+export function toolScopes(tool: ToolDefinition): string[] {
+  return tool.requiresWrite ? [WRITE_SCOPE] : [READ_SCOPE, WRITE_SCOPE];
+}
+
+export function hasToolScope(tool: ToolDefinition, scopes: string[]): boolean {
+  return toolScopes(tool).some((scope) => scopes.includes(scope));
+}
+
+// Rejects a tool call whose token lacks the scope; calls without a token run with auth disabled
+export function authorizeTool(tool: ToolDefinition, authInfo: AuthInfo | undefined): void {
+  if (authInfo && !hasToolScope(tool, authInfo.scopes)) {
+    throw new McpError(ErrorCode.InvalidRequest, `Tool ${tool.name} requires the ${toolScopes(tool)[0]} scope`);
+  }
+}
@@ -0,0 +1,88 @@
+import type { FieldPacket } from "mysql2";
+
+export interface ColumnInfo {
+  name: string;
+  type: string;
+  nullable: boolean;
+}
+
+export interface ResultSet {
+  columns: ColumnInfo[];
+  rows: any[];
+}
+
+// MySQL protocol column type codes, plus TiDB's VECTOR extension
+const TYPE_NAMES: Record<number, string> = {
+  0x00: "DECIMAL",
+  0x01: "TINYINT",
+  0x02: "SMALLINT",
+  0x03: "INT",
+  0x04: "FLOAT",
+  0x05: "DOUBLE",
+  0x06: "NULL",
+  0x07: "TIMESTAMP",
+  0x08: "BIGINT",
+  0x09: "MEDIUMINT",
+  0x0a: "DATE",
+  0x0b: "TIME",
+  0x0c: "DATETIME",
+  0x0d: "YEAR",
+  0x0e: "DATE",
+  0x0f: "VARCHAR",
+  0x10: "BIT",
+  0xe1: "VECTOR",
+  0xf5: "JSON",
+  0xf6: "DECIMAL",
+  0xf7: "ENUM",
+  0xf8: "SET",
+  0xf9: "TINYBLOB",
+  0xfa: "MEDIUMBLOB",
+  0xfb: "LONGBLOB",
+  0xfc: "BLOB",
+  0xfd: "VARCHAR",
+  0xfe: "CHAR",
+  0xff: "GEOMETRY",
+};
+
+const NOT_NULL_FLAG = 1;
+const BINARY_FLAG = 128;
+// Character set 63 marks binary strings (BINARY, VARBINARY, BLOB)
+const BINARY_CHARSET = 63;
+
+const TEXT_TYPES: Record<string, string> = {
+  TINYBLOB: "TINYTEXT",
+  MEDIUMBLOB: "MEDIUMTEXT",
+  LONGBLOB: "LONGTEXT",
+  BLOB: "TEXT",
+};
+
+function hasFlag(field: FieldPacket, flag: number): boolean {
+  return typeof field.flags === "number" && (field.flags & flag) !== 0;
+}
+
+export function isBinaryField(field: FieldPacket): boolean {
+  return field.characterSet === BINARY_CHARSET || (field.characterSet === undefined && hasFlag(field, BINARY_FLAG));
+}
+
+export function columnTypeName(field: FieldPacket): string {
+  const code = field.columnType ?? field.type;
+  const name = code === undefined ? "UNKNOWN" : TYPE_NAMES[code] ?? `TYPE_${code}`;
+  if (name in TEXT_TYPES && !isBinaryField(field)) {
+    return TEXT_TYPES[name];
+  }
+  if (name === "VARCHAR" && isBinaryField(field)) {
+    return "VARBINARY";
+  }
+  if (name === "CHAR" && isBinaryField(field)) {
+    return "BINARY";
+  }
+  return name;
+}
+
+export function columnsFromFields(fields: FieldPacket[] | undefined): ColumnInfo[] {
+  return (fields ?? []).map((field) => ({
+    name: field.name,
+    type: columnTypeName(field),
+    nullable: !hasFlag(field, NOT_NULL_FLAG),
+  }));
+}
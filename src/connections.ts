@@ -0,0 +1,214 @@
+import { readFileSync } from "fs";
+import { TiDBConfig, TiDBConnector } from "./connector.js";
+import { applyCredentials, SessionCredentials } from "./credentials.js";
+import { PoolRegistry } from "./pools.js";
+
+// A named cluster to connect to, e.g. dev, staging or prod
+export interface ConnectionProfile {
+  name: string;
+  description?: string;
+  config: TiDBConfig;
+  // Tools usable on this connection; all tools when unset
+  allowedTools?: string[];
+}
+
+export interface ConnectionProfiles {
+  profiles: ConnectionProfile[];
+  defaultName: string;
+}
+
+// Connection fields that take part in the summary shown by list_connections
+export interface ConnectionSummary {
+  name: string;
+  description: string;
+  active: boolean;
+  default: boolean;
+  host: string | null;
+  port: number | null;
+  database: string | null;
+  readOnly: boolean;
+  allowedTools: string[] | null;
+}
+
+// Settings a profile inherits unless it sets them itself
+const PROFILE_DEFAULTS: TiDBConfig = {
+  port: 4000,
+  tls: true,
+};
+
+const PROFILE_NAME_PATTERN = /^[A-Za-z0-9_.-]+$/;
+
+// Replaces ${NAME} in string values with environment variables, so secrets stay out of the file
+function interpolate(value: unknown, env: NodeJS.ProcessEnv, where: string): unknown {
+  if (typeof value === "string") {
+    return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_, name: string) => {
+      const resolved = env[name];
+      if (resolved === undefined) {
+        throw new Error(`${where}: environment variable ${name} is not set`);
+      }
+      return resolved;
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => interpolate(item, env, where));
+  }
+  if (value !== null && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, interpolate(item, env, where)]));
+  }
+  return value;
+}
+
+// Parses a connections file:
+// { "default": "dev", "connections": { "dev": { "host": "...", "readOnly": false, "allowedTools": [...] }, ... } }
+export function parseConnectionProfiles(text: string, env: NodeJS.ProcessEnv = process.env): ConnectionProfiles {
+  let document: any;
+  try {
+    document = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Connections file is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const entries = document?.connections;
+  if (entries === null || typeof entries !== "object" || Array.isArray(entries) || Object.keys(entries).length === 0) {
+    throw new Error('Connections file must have a non-empty "connections" object');
+  }
+
+  const profiles = Object.entries(entries).map(([name, entry]): ConnectionProfile => {
+    const where = `Connection "${name}"`;
+    if (!PROFILE_NAME_PATTERN.test(name)) {
+      throw new Error(`${where}: names may only contain letters, digits, "_", "." and "-"`);
+    }
+    if (entry === null || typeof entry !== "object" || Array.isArray(entry)) {
+      throw new Error(`${where} must be an object`);
+    }
+    const { description, allowedTools, ...config } = interpolate(entry, env, where) as Record<string, any>;
+    if (allowedTools !== undefined && !(Array.isArray(allowedTools) && allowedTools.every((tool) => typeof tool === "string"))) {
+      throw new Error(`${where}: allowedTools must be an array of tool names`);
+    }
+    return {
+      name,
+      ...(description !== undefined ? { description: String(description) } : {}),
+      config: { ...PROFILE_DEFAULTS, ...config },
+      ...(allowedTools !== undefined ? { allowedTools } : {}),
+    };
+  });
+
+  const defaultName = document.default ?? profiles[0].name;
+  if (!profiles.some((profile) => profile.name === defaultName)) {
+    throw new Error(`Default connection "${defaultName}" is not defined in the connections file`);
+  }
+  return { profiles, defaultName };
+}
+
+export function loadConnectionProfiles(path: string, env: NodeJS.ProcessEnv = process.env): ConnectionProfiles {
+  let text: string;
+  try {
+    text = readFileSync(path, "utf8");
+  } catch (error) {
+    throw new Error(`Failed to read connections file at path "${path}": ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return parseConnectionProfiles(text, env);
+}
+
+// Host, port and database of a profile without credentials, for display
+function connectionTarget(config: TiDBConfig): Pick<ConnectionSummary, "host" | "port" | "database"> {
+  if (config.databaseUrl) {
+    try {
+      const url = new URL(config.databaseUrl);
+      return {
+        host: url.hostname || null,
+        port: url.port ? Number(url.port) : null,
+        database: decodeURIComponent(url.pathname.replace(/^\//, "")) || null,
+      };
+    } catch (error) {
+      return { host: null, port: null, database: null };
+    }
+  }
+  return { host: config.host ?? null, port: config.port ?? null, database: config.database ?? null };
+}
+
+// Owns one connector per profile, created on first use, and tracks the active profile.
+// Forks are independent sessions: their own connectors, database and session variables
+// and active profile, on pools shared with every other fork by credential.
+export class ConnectionManager {
+  private readonly profilesByName: Map<string, ConnectionProfile>;
+  private readonly connectors = new Map<string, TiDBConnector>();
+  private readonly pools: PoolRegistry;
+  private readonly defaultName: string;
+  private activeName: string;
+
+  constructor(
+    { profiles, defaultName }: ConnectionProfiles,
+    pools: PoolRegistry = new PoolRegistry(),
+    activeName: string = defaultName
+  ) {
+    this.profilesByName = new Map(profiles.map((profile) => [profile.name, profile]));
+    this.pools = pools;
+    this.defaultName = defaultName;
+    this.activeName = activeName;
+  }
+
+  get profiles(): ConnectionProfile[] {
+    return [...this.profilesByName.values()];
+  }
+
+  get active(): string {
+    return this.activeName;
+  }
+
+  // The named profile, or the active one
+  profile(name?: string): ConnectionProfile {
+    const profile = this.profilesByName.get(name ?? this.activeName);
+    if (!profile) {
+      throw new Error(`Unknown connection "${name}". Available: ${[...this.profilesByName.keys()].join(", ")}`);
+    }
+    return profile;
+  }
+
+  connector(name?: string): TiDBConnector {
+    const profile = this.profile(name);
+    let connector = this.connectors.get(profile.name);
+    if (!connector) {
+      connector = new TiDBConnector(profile.config, this.pools);
+      this.connectors.set(profile.name, connector);
+    }
+    return connector;
+  }
+
+  use(name: string): ConnectionProfile {
+    const profile = this.profile(name);
+    this.activeName = profile.name;
+    return profile;
+  }
+
+  fork(): ConnectionManager {
+    return new ConnectionManager({ profiles: this.profiles, defaultName: this.defaultName }, this.pools, this.activeName);
+  }
+
+  // A session bound to one profile and the caller's own credentials. Other profiles are
+  // left out, so the session cannot switch back to the server's configured accounts.
+  forkWithCredentials(credentials: SessionCredentials): ConnectionManager {
+    const profile = this.profile(credentials.connection);
+    const sessionProfile = { ...profile, config: applyCredentials(profile.config, credentials) };
+    return new ConnectionManager({ profiles: [sessionProfile], defaultName: profile.name }, this.pools);
+  }
+
+  list(): ConnectionSummary[] {
+    return this.profiles.map((profile) => ({
+      name: profile.name,
+      description: profile.description ?? "",
+      active: profile.name === this.activeName,
+      default: profile.name === this.defaultName,
+      ...connectionTarget(profile.config),
+      readOnly: profile.config.readOnly === true,
+      allowedTools: profile.allowedTools ?? null,
+    }));
+  }
+
+  // Closes this session's connectors; shared pools close once no session uses them
+  async close(): Promise<void> {
+    const connectors = [...this.connectors.values()];
+    this.connectors.clear();
+    await Promise.all(connectors.map((connector) => connector.close()));
+  }
+}
@@ -1,5 +1,53 @@
 import { readFileSync } from 'fs';
+import type { PoolConnection as CorePoolConnection, FieldPacket } from "mysql2";
 import mysql from "mysql2/promise";
+import { ColumnInfo, columnsFromFields, ResultSet } from "./columns.js";
+import { buildKeyLookup, buildSampleQuery, canSimulate, DryRunStatementResult } from "./dry-run.js";
+import { createEmbeddingProvider, EmbeddingProvider } from "./embeddings.js";
+import { buildKeywordSearchSql, HybridHit, HybridSearchOptions, reciprocalRankFusion, rowKey } from "./hybrid.js";
+import { ResultFormat } from "./formatters.js";
+import {
+  COUNT_SCAN_LIMIT,
+  DEFAULT_MAX_RESPONSE_BYTES,
+  DEFAULT_MAX_ROWS,
+  QueryPage,
+  QueryPageOptions,
+  rowSize,
+} from "./pagination.js";
+import { poolKey, PoolLease, PoolRegistry, SessionPool, SessionState, SessionVariableValue, validateSessionVariable } from "./pools.js";
+import {
+  BinaryEncoding,
+  DEFAULT_SERIALIZATION_OPTIONS,
+  normalizeTimeZone,
+  SerializationOptions,
+  serializeResultSet,
+  serializeRow,
+} from "./serialization.js";
+import {
+  DatabaseSchema,
+  ForeignKey,
+  groupForeignKeyColumns,
+  groupIndexColumns,
+  isSystemSchema,
+  quoteIdentifier,
+  SchemaColumn,
+  TableDescription,
+  TableSchema,
+  TableSummary,
+  TiFlashReplica,
+} from "./schema.js";
+import { classifySql, ClassifiedStatement, describeStatement } from "./sql-classifier.js";
+import {
+  buildCreateVectorTableSql,
+  buildUpsertSql,
+  buildVectorSearchSql,
+  VectorColumns,
+  VectorFilter,
+  VectorRow,
+  VectorSearchOptions,
+  VectorTableOptions,
+  vectorDimensions,
+} from "./vector.js";
 
 export interface TiDBConfig {
   databaseUrl?: string;
@@ -10,15 +58,96 @@ export interface TiDBConfig {
   database?: string;
   tls?: boolean;
   tlsCaPath?: string;
+  readOnly?: boolean;
+  maxRows?: number;
+  maxResponseBytes?: number;
+  resultFormat?: ResultFormat;
+  timeZone?: string;
+  binaryEncoding?: BinaryEncoding;
+  maxBinaryBytes?: number;
+  embeddingProvider?: string;
+  embeddingModel?: string;
+  embeddingDimensions?: number;
+  embeddingApiKey?: string;
+  embeddingBaseUrl?: string;
+  // Seconds
+  embeddingTimeout?: number;
+}
+
+export interface ExecuteOptions {
+  // Run the statements and always roll back, reporting what would change
+  dryRun?: boolean;
+  // Number of rows to sample before and after each UPDATE/DELETE in a dry run
+  sampleRows?: number;
+  // Bound values for each statement, in the same order as the statements
+  params?: Array<any[] | undefined>;
+}
+
+// Keep values the driver would otherwise lossily convert: DECIMAL and out-of-range
+// BIGINT arrive as strings, DATE/DATETIME/TIMESTAMP as the server's text rather
+// than a Date shifted into the local time zone of this process
+const TYPE_PRESERVING_OPTIONS = {
+  supportBigNumbers: true,
+  dateStrings: true,
+} as const;
+
+const COLUMN_METADATA = `COLUMN_NAME AS name, COLUMN_TYPE AS type, IS_NULLABLE AS nullable, COLUMN_DEFAULT AS \`default\`,
+              COLUMN_KEY AS \`key\`, EXTRA AS extra, COLUMN_COMMENT AS comment`;
+
+const INDEX_METADATA = `INDEX_NAME AS name, NON_UNIQUE AS nonUnique, SEQ_IN_INDEX AS seq, COLUMN_NAME AS \`column\`,
+              EXPRESSION AS expression, INDEX_TYPE AS type`;
+
+function toSchemaColumn(row: any): SchemaColumn {
+  return {
+    name: row.name,
+    type: row.type,
+    nullable: row.nullable === 'YES',
+    default: row.default,
+    key: row.key ?? '',
+    extra: row.extra ?? '',
+    comment: row.comment ?? '',
+  };
+}
+
+function resolveSerializationOptions(config: TiDBConfig): SerializationOptions {
+  return {
+    timeZone: normalizeTimeZone(config.timeZone ?? '') ?? DEFAULT_SERIALIZATION_OPTIONS.timeZone,
+    binaryEncoding: config.binaryEncoding ?? DEFAULT_SERIALIZATION_OPTIONS.binaryEncoding,
+    maxBinaryBytes: config.maxBinaryBytes || DEFAULT_SERIALIZATION_OPTIONS.maxBinaryBytes,
+  };
+}
+
+// Database named in the path of a mysql:// URL
+function databaseFromUrl(databaseUrl: string | undefined): string | undefined {
+  if (!databaseUrl) {
+    return undefined;
+  }
+  try {
+    return decodeURIComponent(new URL(databaseUrl).pathname.replace(/^\//, '')) || undefined;
+  } catch (error) {
+    return undefined;
+  }
 }
 
 export class TiDBConnector {
-  private pool: mysql.Pool;
+  private readonly pools: PoolRegistry;
+  private lease: PoolLease;
+  // Current database and session variables of this connector, applied to every
+  // pooled connection it borrows; other connectors sharing the pool keep their own
+  private readonly session: SessionState;
+  private readonly pool: SessionPool;
   private config: TiDBConfig;
+  // Created on first use; null when no provider is configured
+  private embedder: EmbeddingProvider | null | undefined;
 
-  constructor(config: TiDBConfig) {
+  constructor(config: TiDBConfig, pools: PoolRegistry = new PoolRegistry()) {
     this.config = config;
-    this.pool = this.createPool(config);
+    this.pools = pools;
+    this.session = { database: config.database ?? databaseFromUrl(config.databaseUrl), variables: new Map() };
+    this.lease = pools.acquire(config, (poolConfig) => this.createPool(poolConfig));
+    // TIMESTAMP values come back as strings rendered in the session time zone,
+    // so pin it to the zone the serializer labels them with
+    this.pool = new SessionPool(() => this.lease, this.session, config.readOnly === true, resolveSerializationOptions(config).timeZone);
   }
 
   private createPool(config: TiDBConfig): mysql.Pool {
@@ -53,15 +182,16 @@ export class TiDBConnector {
         keepAliveInitialDelay: 0,
         ssl: getSslConfig(),
         connectTimeout: 30000,
+        ...TYPE_PRESERVING_OPTIONS,
       });
     }
 
-    const { host, port, username, password, database } = config;
+    // No default database: pools are shared across databases and each session selects its own
+    const { host, port, username, password } = config;
     const poolConfig: mysql.PoolOptions = {
       host,
       port,
       user: username,
-      database,
       waitForConnections: true,
       connectionLimit: 10,
       queueLimit: 0,
@@ -69,6 +199,7 @@ export class TiDBConnector {
       keepAliveInitialDelay: 0,
       ssl: getSslConfig(),
       connectTimeout: 30000,
+      ...TYPE_PRESERVING_OPTIONS,
     };
     
     // Set password - treat empty strings as passwordless connections
@@ -79,29 +210,126 @@ export class TiDBConnector {
     return mysql.createPool(poolConfig);
   }
 
+  get isReadOnly(): boolean {
+    return this.config.readOnly === true;
+  }
+
+  // Upper bounds for a single page of db_query results
+  get queryLimits(): { maxRows: number; maxBytes: number } {
+    return {
+      maxRows: this.config.maxRows || DEFAULT_MAX_ROWS,
+      maxBytes: this.config.maxResponseBytes || DEFAULT_MAX_RESPONSE_BYTES,
+    };
+  }
+
+  get defaultResultFormat(): ResultFormat {
+    return this.config.resultFormat ?? 'json';
+  }
+
+  get serializationOptions(): SerializationOptions {
+    return resolveSerializationOptions(this.config);
+  }
+
+  // Provider used to embed text server-side, or null when none is configured
+  get embeddingProvider(): EmbeddingProvider | null {
+    if (this.embedder === undefined) {
+      const { embeddingProvider, embeddingModel, embeddingDimensions, embeddingApiKey, embeddingBaseUrl, embeddingTimeout } = this.config;
+      this.embedder = embeddingProvider
+        ? createEmbeddingProvider({
+            provider: embeddingProvider,
+            model: embeddingModel,
+            dimensions: embeddingDimensions,
+            apiKey: embeddingApiKey,
+            baseUrl: embeddingBaseUrl,
+            timeout: embeddingTimeout,
+          })
+        : null;
+    }
+    return this.embedder;
+  }
+
+  // Replaces the configured provider, e.g. with a custom EmbeddingProvider implementation
+  useEmbeddingProvider(provider: EmbeddingProvider | null): void {
+    this.embedder = provider;
+  }
+
+  private assertWritable(operation: string): void {
+    if (this.isReadOnly) {
+      throw new Error(`${operation} is not allowed: the server is running in read-only mode`);
+    }
+  }
+
   async showDatabases(): Promise<any[]> {
     const [rows] = await this.pool.execute("SHOW DATABASES");
     return rows as any[];
   }
 
+  // Switches this connector's database, and its credentials when given. Pools are shared
+  // by credential, so other sessions on the same pool are not affected.
   async switchDatabase(dbName: string, username?: string, password?: string): Promise<void> {
-    // Close the current pool
-    await this.pool.end();
-    
-    // Create new pool with updated config
     const newConfig = {
       ...this.config,
       database: dbName,
       username: username || this.config.username,
       password: password !== undefined ? password : this.config.password,
     };
-    this.pool = this.createPool(newConfig);
+    const previous = { lease: this.lease, database: this.session.database };
+    const credentialsChanged = poolKey(newConfig) !== this.lease.key;
+
+    if (credentialsChanged) {
+      this.lease = this.pools.acquire(newConfig, (poolConfig) => this.createPool(poolConfig));
+    }
+    this.session.database = dbName;
+
+    try {
+      // Test the connection; selecting a database that does not exist fails here
+      const connection = await this.pool.getConnection();
+      await connection.ping();
+      connection.release();
+    } catch (error) {
+      if (credentialsChanged) {
+        await this.lease.release();
+        this.lease = previous.lease;
+      }
+      this.session.database = previous.database;
+      throw error;
+    }
+
+    if (credentialsChanged) {
+      await previous.lease.release();
+    }
     this.config = newConfig;
-    
-    // Test the connection
-    const connection = await this.pool.getConnection();
-    await connection.ping();
-    connection.release();
+  }
+
+  // Sets a variable for this connector's session only; null restores the server default
+  async setSessionVariable(name: string, value: SessionVariableValue): Promise<string> {
+    const variable = validateSessionVariable(name);
+    const previous = this.session.variables.get(variable);
+    const hadPrevious = this.session.variables.has(variable);
+
+    if (value === null) {
+      this.session.variables.delete(variable);
+    } else {
+      this.session.variables.set(variable, value);
+    }
+
+    try {
+      // Apply it now, so unknown variables and invalid values are reported to the caller
+      const connection = await this.pool.getConnection();
+      connection.release();
+    } catch (error) {
+      if (hadPrevious) {
+        this.session.variables.set(variable, previous!);
+      } else {
+        this.session.variables.delete(variable);
+      }
+      throw error;
+    }
+    return variable;
+  }
+
+  get sessionVariables(): Record<string, SessionVariableValue> {
+    return Object.fromEntries(this.session.variables);
   }
 
   async showTables(): Promise<string[]> {
@@ -110,14 +338,7 @@ export class TiDBConnector {
   }
 
   async query(sqlStmt: string, params?: any[]): Promise<any[]> {
-    // Validate that the SQL statement is a read-only operation
-    const trimmedSql = sqlStmt.trim().toLowerCase();
-    const readOnlyKeywords = ['select', 'show', 'describe', 'explain', 'with'];
-    const isReadOnly = readOnlyKeywords.some(keyword => trimmedSql.startsWith(keyword));
-    
-    if (!isReadOnly) {
-      throw new Error('Query method only supports read-only operations. Use execute() for modifications.');
-    }
+    this.readOnlyStatement(sqlStmt, params);
     
     const [rows] = params ? 
       await this.pool.execute(sqlStmt, params) : 
@@ -125,16 +346,128 @@ export class TiDBConnector {
     return rows as any[];
   }
 
-  async execute(sqlStmts: string | string[]): Promise<any[]> {
+  // Runs a read-only query and keeps the column metadata alongside the rows
+  async queryResult(sqlStmt: string, params?: any[]): Promise<ResultSet> {
+    this.readOnlyStatement(sqlStmt, params);
+
+    const [rows, fields] = params ?
+      await this.pool.execute(sqlStmt, params) :
+      await this.pool.execute(sqlStmt);
+    return serializeResultSet({ columns: columnsFromFields(fields), rows: rows as any[] }, this.serializationOptions);
+  }
+
+  // Streams the result of a read-only query and keeps only one page of it in memory.
+  // Rows before `offset` are skipped; rows after the page are counted, not buffered.
+  async queryPage(sqlStmt: string, params: any[] | undefined, options: QueryPageOptions): Promise<QueryPage> {
+    const statement = this.readOnlyStatement(sqlStmt, params);
+
+    const serialization = this.serializationOptions;
+    const rows: any[] = [];
+    let fields: FieldPacket[] | undefined;
+    let columns: ColumnInfo[] | undefined;
+    let bytes = 0;
+    let seen = 0;
+    let pageFull = false;
+    let scanComplete = true;
+
+    const connection = await this.pool.getConnection();
+    try {
+      // Streaming is only available on the callback-style connection underneath the promise wrapper
+      const core = connection.connection as unknown as CorePoolConnection;
+      const query = core.execute(sqlStmt, params ?? []);
+      query.on('fields', (received: FieldPacket[]) => {
+        fields = received;
+      });
+      const stream = query.stream();
+      for await (const row of stream) {
+        seen++;
+        if (seen <= options.offset) {
+          continue;
+        }
+        if (!pageFull) {
+          // Serialize before measuring, so the byte cap applies to what the client receives
+          columns ??= columnsFromFields(fields);
+          const serialized = serializeRow(row, columns, serialization);
+          const size = rowSize(serialized);
+          if (rows.length >= options.maxRows || (rows.length > 0 && bytes + size > options.maxBytes)) {
+            pageFull = true;
+          } else {
+            rows.push(serialized);
+            bytes += size;
+          }
+        }
+        if (seen >= options.offset + options.maxRows + COUNT_SCAN_LIMIT) {
+          scanComplete = false;
+          break;
+        }
+      }
+    } finally {
+      if (scanComplete) {
+        connection.release();
+      } else {
+        // The rest of the result is still in flight on this connection; discard it
+        connection.destroy();
+      }
+    }
+
+    const truncated = pageFull || !scanComplete;
+    const totalRows = scanComplete
+      ? seen
+      : Math.max(seen, await this.estimateResultRows(statement.keyword, sqlStmt, params) ?? 0);
+
+    return {
+      columns: columns ?? columnsFromFields(fields),
+      rows,
+      truncated,
+      totalRows,
+      totalRowsExact: scanComplete,
+      nextOffset: truncated ? options.offset + rows.length : null,
+    };
+  }
+
+  // Optimizer estimate of the rows a query returns, from the root of its plan
+  private async estimateResultRows(keyword: string, sqlStmt: string, params?: any[]): Promise<number | null> {
+    if (!['SELECT', 'WITH', 'TABLE'].includes(keyword)) {
+      return null;
+    }
+    try {
+      const [rows] = await this.pool.execute(`EXPLAIN ${sqlStmt}`, params ?? []);
+      const estimate = Number((rows as any[])[0]?.estRows);
+      return Number.isFinite(estimate) ? Math.round(estimate) : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  async execute(sqlStmts: string | string[], options: ExecuteOptions = {}): Promise<any[]> {
     const results: any[] = [];
     const statements = Array.isArray(sqlStmts) ? sqlStmts : [sqlStmts];
 
+    this.assertWritable('Execute');
+
+    // Validate every statement before opening the transaction
+    const classified = statements.map((stmt) => {
+      const statement = this.singleStatement(stmt);
+      if (statement.kind === 'transaction' || statement.kind === 'session') {
+        throw new Error(`Execute method runs statements in its own transaction and does not support ${statement.kind} statements. (${describeStatement(statement)})`);
+      }
+      return statement;
+    });
+    classified.forEach((statement, index) => this.checkParamCount(statement, options.params?.[index]));
+
+    if (options.dryRun) {
+      return this.executeDryRun(statements, classified, options.params ?? [], options.sampleRows ?? 0);
+    }
+
     const connection = await this.pool.getConnection();
     await connection.beginTransaction();
     
     try {
-      for (const stmt of statements) {
-        const [result] = await connection.execute(stmt);
+      for (const [index, stmt] of statements.entries()) {
+        const params = options.params?.[index];
+        const [result] = params ?
+          await connection.execute(stmt, params) :
+          await connection.execute(stmt);
         const resultHeader = result as mysql.ResultSetHeader;
         results.push({
           statement: stmt,
@@ -153,17 +486,507 @@ export class TiDBConnector {
     return results;
   }
 
+  // The raw rows carry key values to bind again; the serialized ones go into the result
+  private async sampleRows(connection: mysql.PoolConnection, sampleQuery: string, params: any[] = []): Promise<{ raw: any[]; rows: any[] }> {
+    const [rows, fields] = await connection.query(sampleQuery, params);
+    return {
+      raw: rows as any[],
+      rows: serializeResultSet(
+        { columns: columnsFromFields(fields as FieldPacket[]), rows: rows as any[] },
+        this.serializationOptions
+      ).rows,
+    };
+  }
+
+  private async primaryKeyColumns(connection: mysql.PoolConnection, table: string): Promise<string[]> {
+    const [keys] = await connection.query(`SHOW KEYS FROM ${table}`);
+    return (keys as any[])
+      .filter((key) => key.Key_name === 'PRIMARY')
+      .sort((a, b) => a.Seq_in_index - b.Seq_in_index)
+      .map((key) => key.Column_name);
+  }
+
+  private async executeDryRun(
+    statements: string[],
+    classified: ClassifiedStatement[],
+    params: Array<any[] | undefined>,
+    sampleRows: number
+  ): Promise<DryRunStatementResult[]> {
+    const results: DryRunStatementResult[] = [];
+
+    const connection = await this.pool.getConnection();
+    await connection.beginTransaction();
+
+    try {
+      for (const [index, stmt] of statements.entries()) {
+        const statement = classified[index];
+
+        // Only DML is undone by the rollback; DDL and DCL commit implicitly in TiDB, and
+        // admin statements and bulk loads act outside the transaction
+        if (!canSimulate(statement)) {
+          results.push({ statement: stmt, simulated: false, note: 'would execute, not simulated' });
+          continue;
+        }
+
+        const sampleQuery = sampleRows > 0 ? buildSampleQuery(stmt, statement, sampleRows) : null;
+        try {
+          const keyColumns = sampleQuery ? await this.primaryKeyColumns(connection, sampleQuery.table) : [];
+          const before = sampleQuery ? await this.sampleRows(connection, sampleQuery.query) : null;
+          const [result] = params[index] ?
+            await connection.execute(stmt, params[index]) :
+            await connection.execute(stmt);
+          const [warnings] = await connection.query('SHOW WARNINGS');
+
+          let sample: DryRunStatementResult['sample'];
+          if (sampleQuery && before) {
+            if (keyColumns.length > 0) {
+              const lookup = buildKeyLookup(sampleQuery.table, keyColumns, before.raw);
+              const after = before.raw.length > 0 ? (await this.sampleRows(connection, lookup.query, lookup.params)).rows : [];
+              sample = { query: sampleQuery.query, before: before.rows, after, matchedBy: 'primary_key' };
+            } else {
+              const after = (await this.sampleRows(connection, sampleQuery.query)).rows;
+              sample = {
+                query: sampleQuery.query,
+                before: before.rows,
+                after,
+                matchedBy: 'filter',
+                note: 'The table has no primary key, so after re-runs the query and may hold other rows than before',
+              };
+            }
+          }
+
+          const resultHeader = result as mysql.ResultSetHeader;
+          results.push({
+            statement: stmt,
+            simulated: true,
+            affectedRows: resultHeader.affectedRows || 0,
+            lastInsertId: resultHeader.insertId || null,
+            warnings: warnings as any[],
+            ...(sample ? { sample } : {}),
+          });
+        } catch (error) {
+          // Later statements may depend on this one, so stop here
+          results.push({
+            statement: stmt,
+            simulated: true,
+            error: error instanceof Error ? error.message : String(error),
+          });
+          break;
+        }
+      }
+    } finally {
+      await connection.rollback();
+      connection.release();
+    }
+
+    return results;
+  }
+
+  // Validates that the SQL is a single read-only statement with matching params
+  private readOnlyStatement(sqlStmt: string, params?: any[]): ClassifiedStatement {
+    const statement = this.singleStatement(sqlStmt);
+    if (statement.kind !== 'read') {
+      throw new Error(`Query method only supports read-only operations. Use execute() for modifications. (${describeStatement(statement)})`);
+    }
+    this.checkParamCount(statement, params);
+    return statement;
+  }
+
+  private checkParamCount(statement: ClassifiedStatement, params?: any[]): void {
+    const placeholders = statement.tokens.filter((token) => token.type === 'placeholder').length;
+    const provided = params?.length ?? 0;
+    if (placeholders !== provided) {
+      throw new Error(`Statement has ${placeholders} placeholder(s) but ${provided} param(s) were provided: ${statement.text.substring(0, 100)}`);
+    }
+  }
+
+  private singleStatement(sqlStmt: string): ClassifiedStatement {
+    const statements = classifySql(sqlStmt);
+    if (statements.length === 0) {
+      throw new Error('SQL statement cannot be empty');
+    }
+    if (statements.length > 1) {
+      throw new Error(`Expected a single SQL statement but found ${statements.length}.`);
+    }
+    return statements[0];
+  }
+
+  // Raw EXPLAIN rows for a single statement. ANALYZE executes the statement, so
+  // it is only accepted for read-only statements. Methods taking `statements` add the
+  // SQL they generate to it, so that the audit log shows what actually ran.
+  async explain(sqlStmt: string, params: any[] | undefined, analyze: boolean, statements?: string[]): Promise<any[]> {
+    const statement = this.singleStatement(sqlStmt);
+    if (['EXPLAIN', 'DESC', 'DESCRIBE'].includes(statement.keyword)) {
+      throw new Error('Pass the statement itself, without EXPLAIN');
+    }
+    if (analyze && statement.kind !== 'read') {
+      throw new Error(`EXPLAIN ANALYZE executes the statement and is only allowed for read-only statements: ${describeStatement(statement)}`);
+    }
+    this.checkParamCount(statement, params);
+
+    const explainSql = `EXPLAIN ${analyze ? 'ANALYZE ' : ''}${sqlStmt}`;
+    statements?.push(explainSql);
+    // Values are interpolated client-side; not every statement can be prepared under EXPLAIN
+    const [rows] = params ?
+      await this.pool.query(explainSql, params) :
+      await this.pool.query(explainSql);
+    return rows as any[];
+  }
+
+  // Creates a table with id, content, metadata and vector columns and returns its DDL
+  async createVectorTable(options: VectorTableOptions, statements?: string[]): Promise<string> {
+    const ddl = buildCreateVectorTableSql(options);
+    statements?.push(ddl);
+    await this.execute(ddl);
+    return ddl;
+  }
+
+  // Inserts the rows, replacing content, metadata and vectors of existing ids
+  async upsertVectors(
+    database: string | undefined,
+    table: string,
+    columns: VectorColumns,
+    rows: VectorRow[],
+    statements?: string[]
+  ): Promise<number> {
+    const { sql, params } = buildUpsertSql(database, table, columns, rows);
+    statements?.push(sql);
+    const [result] = await this.execute(sql, { params: [params] });
+    return result.affectedRows;
+  }
+
+  // k nearest rows to a vector. Returns every column except the vector unless columns are given.
+  async vectorSearch(
+    options: Omit<VectorSearchOptions, 'database' | 'columns'> & { database?: string; columns?: string[] },
+    statements?: string[]
+  ): Promise<ResultSet> {
+    const target = await this.resolveVectorTable(options);
+    const { sql, params } = buildVectorSearchSql({ ...options, database: target.database, columns: target.columns });
+    statements?.push(sql);
+    return this.queryResult(sql, params);
+  }
+
+  // Runs a full-text and a vector search on the same table and fuses both rankings
+  async hybridSearch(options: HybridSearchOptions, statements?: string[]): Promise<HybridHit[]> {
+    const target = await this.resolveVectorTable({ ...options, required: [options.textColumn] });
+    if (target.primaryKey.length === 0) {
+      throw new Error(`${options.table} needs a primary key to match rows between keyword and vector results`);
+    }
+    // Rows are matched by primary key, so it is always selected
+    const columns = [...new Set([...target.primaryKey, ...target.columns])];
+
+    const keywordSql = buildKeywordSearchSql({
+      database: target.database,
+      table: options.table,
+      textColumn: options.textColumn,
+      columns,
+      query: options.query,
+      filters: options.filters,
+      limit: options.candidates,
+    });
+    const vectorSql = buildVectorSearchSql({
+      database: target.database,
+      table: options.table,
+      vectorColumn: options.vectorColumn,
+      columns,
+      vector: options.vector,
+      metric: options.metric,
+      k: options.candidates,
+      filters: options.filters,
+    });
+    statements?.push(keywordSql.sql, vectorSql.sql);
+    const [keyword, vector] = await Promise.all([
+      // FTS_MATCH_WORD needs a constant query, so values are interpolated client-side
+      this.queryInterpolated(keywordSql.sql, keywordSql.params),
+      this.queryResult(vectorSql.sql, vectorSql.params),
+    ]);
+
+    const hits = (rows: any[], valueColumn: string) => rows.map((row) => {
+      const { [valueColumn]: value, ...rest } = row;
+      return { key: rowKey(rest, target.primaryKey), row: rest, value: value === null ? null : Number(value) };
+    });
+    return reciprocalRankFusion([
+      { retriever: 'keyword', weight: options.weights.keyword, hits: hits(keyword.rows, 'keyword_score') },
+      { retriever: 'vector', weight: options.weights.vector, hits: hits(vector.rows, 'distance') },
+    ], options.rrfK, options.k);
+  }
+
+  // Checks the vector column, query dimensions and referenced columns of a search, and
+  // resolves the columns to return: every column except the vector unless given
+  private async resolveVectorTable(options: {
+    database?: string;
+    table: string;
+    vectorColumn: string;
+    vector: number[];
+    columns?: string[];
+    filters: VectorFilter[];
+    required?: string[];
+  }): Promise<{ database: string; columns: string[]; primaryKey: string[] }> {
+    const database = options.database ?? await this.currentDatabase();
+    if (!database) {
+      throw new Error('No database selected. Pass the database argument.');
+    }
+    const { columns, indexes } = await this.getTableSchema(database, options.table);
+
+    const vectorColumn = columns.find((column) => column.name === options.vectorColumn);
+    const dimensions = vectorColumn ? vectorDimensions(vectorColumn.type) : undefined;
+    if (!vectorColumn || dimensions === undefined) {
+      throw new Error(`${options.table}.${options.vectorColumn} is not a VECTOR column`);
+    }
+    if (dimensions !== null && dimensions !== options.vector.length) {
+      throw new Error(`Query vector has ${options.vector.length} dimensions but ${options.table}.${options.vectorColumn} is VECTOR(${dimensions})`);
+    }
+
+    const known = new Set(columns.map((column) => column.name));
+    const unknown = [...(options.columns ?? []), ...(options.required ?? []), ...options.filters.map((filter) => filter.column)]
+      .filter((name) => !known.has(name));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown column(s) in ${options.table}: ${[...new Set(unknown)].join(', ')}`);
+    }
+
+    return {
+      database,
+      columns: options.columns ?? columns.map((column) => column.name).filter((name) => name !== options.vectorColumn),
+      primaryKey: indexes.find((index) => index.kind === 'primary')?.columns ?? [],
+    };
+  }
+
+  // Like queryResult, but binds values client-side for functions that only accept constants
+  private async queryInterpolated(sqlStmt: string, params: any[]): Promise<ResultSet> {
+    this.readOnlyStatement(sqlStmt, params);
+
+    const [rows, fields] = await this.pool.query(sqlStmt, params);
+    return serializeResultSet(
+      { columns: columnsFromFields(fields as FieldPacket[]), rows: rows as any[] },
+      this.serializationOptions
+    );
+  }
+
+  // Runs a statement on the pool, adding it to statements when the caller collects them
+  private async executeRecorded(statements: string[] | undefined, sqlStmt: string, params: any[]): Promise<[any, FieldPacket[]]> {
+    statements?.push(sqlStmt);
+    return this.pool.execute(sqlStmt, params);
+  }
+
+  // Estimated row count from table statistics; without a table, the total for the whole database
+  async estimateRowCount(database: string | undefined, table?: string): Promise<number | null> {
+    const [rows] = table
+      ? await this.pool.execute(
+          "SELECT TABLE_ROWS AS estimate FROM information_schema.TABLES WHERE TABLE_SCHEMA = COALESCE(?, DATABASE()) AND TABLE_NAME = ?",
+          [database ?? null, table]
+        )
+      : await this.pool.execute(
+          "SELECT SUM(TABLE_ROWS) AS estimate FROM information_schema.TABLES WHERE TABLE_SCHEMA = COALESCE(?, DATABASE())",
+          [database ?? null]
+        );
+    const estimate = (rows as any[])[0]?.estimate;
+    return estimate === undefined || estimate === null ? null : Number(estimate);
+  }
+
+  // Tables across all user databases, or only the given one
+  async listTables(database?: string, statements?: string[]): Promise<TableSummary[]> {
+    const [rows] = await this.executeRecorded(statements,
+      `SELECT TABLE_SCHEMA AS \`database\`, TABLE_NAME AS \`table\`, TABLE_TYPE AS type,
+              TABLE_ROWS AS rowsEstimate, TABLE_COMMENT AS comment
+         FROM information_schema.TABLES
+        WHERE (? IS NULL OR TABLE_SCHEMA = ?)
+        ORDER BY TABLE_SCHEMA, TABLE_NAME`,
+      [database ?? null, database ?? null]
+    );
+    return (rows as any[])
+      .filter((row) => database !== undefined || !isSystemSchema(row.database))
+      .map((row) => ({
+        database: row.database,
+        table: row.table,
+        type: row.type,
+        rowsEstimate: row.rowsEstimate === null ? null : Number(row.rowsEstimate),
+        comment: row.comment ?? '',
+      }));
+  }
+
+  // DDL plus column and index metadata for one table or view
+  async getTableSchema(database: string, table: string, statements?: string[]): Promise<TableSchema> {
+    const [tables] = await this.executeRecorded(statements,
+      "SELECT TABLE_TYPE AS type, TABLE_COMMENT AS comment FROM information_schema.TABLES WHERE TABLE_SCHEMA = ? AND TABLE_NAME = ?",
+      [database, table]
+    );
+    const summary = (tables as any[])[0];
+    if (!summary) {
+      throw new Error(`Table ${database}.${table} does not exist`);
+    }
+
+    const showCreate = `SHOW CREATE TABLE ${quoteIdentifier(database)}.${quoteIdentifier(table)}`;
+    statements?.push(showCreate);
+    const [created] = await this.pool.query(showCreate);
+    const createRow = (created as any[])[0] ?? {};
+
+    const [columns] = await this.executeRecorded(statements,
+      `SELECT ${COLUMN_METADATA}
+         FROM information_schema.COLUMNS
+        WHERE TABLE_SCHEMA = ? AND TABLE_NAME = ?
+        ORDER BY ORDINAL_POSITION`,
+      [database, table]
+    );
+
+    const [indexColumns] = await this.executeRecorded(statements,
+      `SELECT ${INDEX_METADATA}
+         FROM information_schema.STATISTICS
+        WHERE TABLE_SCHEMA = ? AND TABLE_NAME = ?`,
+      [database, table]
+    );
+
+    const ddl = createRow['Create Table'] ?? createRow['Create View'] ?? '';
+    return {
+      database,
+      table,
+      type: summary.type,
+      comment: summary.comment ?? '',
+      ddl,
+      columns: (columns as any[]).map(toSchemaColumn),
+      indexes: groupIndexColumns(indexColumns as any[], ddl),
+    };
+  }
+
+  // Columns, indexes and foreign keys of every table in a database, in three queries
+  async getDatabaseSchema(database: string, statements?: string[]): Promise<DatabaseSchema> {
+    const tables = await this.listTables(database, statements);
+
+    const [columns] = await this.executeRecorded(statements,
+      `SELECT TABLE_NAME AS tableName, ${COLUMN_METADATA}
+         FROM information_schema.COLUMNS
+        WHERE TABLE_SCHEMA = ?
+        ORDER BY TABLE_NAME, ORDINAL_POSITION`,
+      [database]
+    );
+    const [indexColumns] = await this.executeRecorded(statements,
+      `SELECT TABLE_NAME AS tableName, ${INDEX_METADATA}
+         FROM information_schema.STATISTICS
+        WHERE TABLE_SCHEMA = ?`,
+      [database]
+    );
+
+    const byTable = <T extends { tableName: string }>(rows: T[]) => {
+      const grouped = new Map<string, T[]>();
+      for (const row of rows) {
+        grouped.set(row.tableName, [...(grouped.get(row.tableName) ?? []), row]);
+      }
+      return grouped;
+    };
+    const columnsByTable = byTable(columns as any[]);
+    const indexesByTable = byTable(indexColumns as any[]);
+
+    return {
+      database,
+      tables: tables.map((table) => ({
+        ...table,
+        columns: (columnsByTable.get(table.table) ?? []).map(toSchemaColumn),
+        indexes: groupIndexColumns(indexesByTable.get(table.table) ?? []),
+      })),
+      foreignKeys: await this.foreignKeys(database, undefined, statements),
+    };
+  }
+
+  // Schema plus keys, size estimates and TiFlash replica status
+  async describeTable(database: string, table: string, statements?: string[]): Promise<TableDescription> {
+    const schema = await this.getTableSchema(database, table, statements);
+
+    const [tables] = await this.executeRecorded(statements,
+      `SELECT TABLE_ROWS AS rowsEstimate, DATA_LENGTH AS dataBytes, INDEX_LENGTH AS indexBytes, TIDB_PK_TYPE AS pkType
+         FROM information_schema.TABLES
+        WHERE TABLE_SCHEMA = ? AND TABLE_NAME = ?`,
+      [database, table]
+    );
+    const stats = (tables as any[])[0] ?? {};
+    const toNumber = (value: unknown) => (value === null || value === undefined ? null : Number(value));
+
+    const primary = schema.indexes.find((index) => index.kind === 'primary');
+
+    return {
+      ...schema,
+      primaryKey: primary ? { columns: primary.columns, clustered: stats.pkType === 'CLUSTERED' } : null,
+      foreignKeys: await this.foreignKeys(database, table, statements),
+      rowsEstimate: toNumber(stats.rowsEstimate),
+      dataBytes: toNumber(stats.dataBytes),
+      indexBytes: toNumber(stats.indexBytes),
+      tiflashReplica: await this.tiflashReplica(database, table, statements),
+    };
+  }
+
+  // Foreign keys declared on a table, or on every table of the database
+  async foreignKeys(database: string, table?: string, statements?: string[]): Promise<ForeignKey[]> {
+    const [rows] = await this.executeRecorded(statements,
+      `SELECT k.CONSTRAINT_NAME AS name, k.TABLE_SCHEMA AS \`database\`, k.TABLE_NAME AS \`table\`,
+              k.COLUMN_NAME AS \`column\`, k.REFERENCED_TABLE_SCHEMA AS referencedDatabase,
+              k.REFERENCED_TABLE_NAME AS referencedTable, k.REFERENCED_COLUMN_NAME AS referencedColumn,
+              k.ORDINAL_POSITION AS seq, r.UPDATE_RULE AS onUpdate, r.DELETE_RULE AS onDelete
+         FROM information_schema.KEY_COLUMN_USAGE k
+         LEFT JOIN information_schema.REFERENTIAL_CONSTRAINTS r
+           ON r.CONSTRAINT_SCHEMA = k.CONSTRAINT_SCHEMA AND r.TABLE_NAME = k.TABLE_NAME AND r.CONSTRAINT_NAME = k.CONSTRAINT_NAME
+        WHERE k.TABLE_SCHEMA = ? AND (? IS NULL OR k.TABLE_NAME = ?) AND k.REFERENCED_TABLE_NAME IS NOT NULL
+        ORDER BY k.TABLE_NAME, k.CONSTRAINT_NAME, k.ORDINAL_POSITION`,
+      [database, table ?? null, table ?? null]
+    );
+    return groupForeignKeyColumns(rows as any[]);
+  }
+
+  private async tiflashReplica(database: string, table: string, statements?: string[]): Promise<TiFlashReplica | null> {
+    try {
+      const [rows] = await this.executeRecorded(statements,
+        `SELECT REPLICA_COUNT AS count, AVAILABLE AS available, PROGRESS AS progress, LOCATION_LABELS AS locationLabels
+           FROM information_schema.TIFLASH_REPLICA
+          WHERE TABLE_SCHEMA = ? AND TABLE_NAME = ?`,
+        [database, table]
+      );
+      const replica = (rows as any[])[0];
+      if (!replica) {
+        return null;
+      }
+      return {
+        count: Number(replica.count),
+        available: Number(replica.available) === 1,
+        progress: Number(replica.progress),
+        locationLabels: replica.locationLabels ?? '',
+      };
+    } catch (error) {
+      // Clusters without TiFlash may not expose the table
+      return null;
+    }
+  }
+
   get isServerless(): boolean {
     const host = this.config.host || "";
     return host.includes("tidbcloud.com");
   }
 
+  // Checks that TiDB answers on a pooled connection
+  async ping(): Promise<void> {
+    const connection = await this.pool.getConnection();
+    try {
+      await connection.ping();
+    } finally {
+      connection.release();
+    }
+  }
+
+  async currentDatabase(): Promise<string | null> {
+    const [rows] = await this.pool.execute("SELECT DATABASE() AS db");
+    return (rows as any[])[0]?.db ?? null;
+  }
+
+  async serverVersion(): Promise<string> {
+    const [rows] = await this.pool.execute("SELECT VERSION() AS version");
+    return (rows as any[])[0]?.version ?? '';
+  }
+
   async currentUsername(): Promise<string> {
     const [rows] = await this.pool.execute("SELECT CURRENT_USER()");
     return Object.values((rows as any[])[0])[0] as string;
   }
 
-  async createUser(username: string, password: string): Promise<string> {
+  // The statement added to statements carries the password; the audit log always redacts it
+  async createUser(username: string, password: string, statements?: string[]): Promise<string> {
+    this.assertWritable('Creating users');
+
     // Input validation
     if (!username || username.trim().length === 0) {
       throw new Error('Username cannot be empty');
@@ -182,14 +1005,18 @@ export class TiDBConnector {
     try {
       const escapedUsername = connection.escape(fullUsername);
       const escapedPassword = connection.escape(password);
-      await connection.execute(`CREATE USER ${escapedUsername} IDENTIFIED BY ${escapedPassword}`);
+      const createSql = `CREATE USER ${escapedUsername} IDENTIFIED BY ${escapedPassword}`;
+      statements?.push(createSql);
+      await connection.execute(createSql);
     } finally {
       connection.release();
     }
     return fullUsername;
   }
 
-  async removeUser(username: string): Promise<void> {
+  async removeUser(username: string, statements?: string[]): Promise<void> {
+    this.assertWritable('Removing users');
+
     // Input validation
     if (!username || username.trim().length === 0) {
       throw new Error('Username cannot be empty');
@@ -207,13 +1034,16 @@ export class TiDBConnector {
     const connection = await this.pool.getConnection();
     try {
       const escapedUsername = connection.escape(fullUsername);
-      await connection.execute(`DROP USER ${escapedUsername}`);
+      const dropSql = `DROP USER ${escapedUsername}`;
+      statements?.push(dropSql);
+      await connection.execute(dropSql);
     } finally {
       connection.release();
     }
   }
 
+  // Releases this connector's pool reference; the pool closes when no connector uses it
   async close(): Promise<void> {
-    await this.pool.end();
+    await this.lease.release();
   }
 }
\ No newline at end of file
@@ -0,0 +1,94 @@
+// Per-session TiDB credentials supplied by HTTP clients, so that every user of a shared
+// server reaches TiDB as themselves instead of as the server's configured account
+import type { IncomingHttpHeaders } from "http";
+import type { TiDBConfig } from "./connector.js";
+
+export const CREDENTIAL_SOURCES = ["headers", "claims"] as const;
+export type CredentialSource = (typeof CREDENTIAL_SOURCES)[number];
+
+export interface SessionCredentials {
+  // Profile the session connects through; the active profile when unset
+  connection?: string;
+  username?: string;
+  password?: string;
+  database?: string;
+}
+
+type CredentialField = keyof SessionCredentials;
+
+export const CREDENTIAL_HEADERS: Record<CredentialField, string> = {
+  connection: "x-tidb-connection",
+  username: "x-tidb-username",
+  password: "x-tidb-password",
+  database: "x-tidb-database",
+};
+
+export const CREDENTIAL_CLAIMS: Record<CredentialField, string> = {
+  connection: "tidb_connection",
+  username: "tidb_username",
+  password: "tidb_password",
+  database: "tidb_database",
+};
+
+// MCP_SESSION_CREDENTIALS="headers,claims"; empty keeps the server-wide credentials
+export function parseCredentialSources(value: string | undefined): CredentialSource[] {
+  const sources = (value ?? "").split(",").map((source) => source.trim().toLowerCase()).filter(Boolean);
+  for (const source of sources) {
+    if (!(CREDENTIAL_SOURCES as readonly string[]).includes(source)) {
+      throw new Error(`MCP_SESSION_CREDENTIALS: unknown source "${source}". Supported: ${CREDENTIAL_SOURCES.join(", ")}`);
+    }
+  }
+  return [...new Set(sources)] as CredentialSource[];
+}
+
+function headerValue(headers: IncomingHttpHeaders, name: string): string | undefined {
+  const value = headers[name];
+  return (Array.isArray(value) ? value[0] : value) || undefined;
+}
+
+function claimValue(claims: Record<string, unknown> | undefined, name: string): string | undefined {
+  const value = claims?.[name];
+  return typeof value === "string" && value.length > 0 ? value : undefined;
+}
+
+// Credentials of the initializing request, or null when it supplies none.
+// Signed token claims take precedence over headers the client sets itself.
+export function sessionCredentials(
+  sources: CredentialSource[],
+  headers: IncomingHttpHeaders,
+  claims: Record<string, unknown> | undefined
+): SessionCredentials | null {
+  const credentials: SessionCredentials = {};
+  for (const field of Object.keys(CREDENTIAL_HEADERS) as CredentialField[]) {
+    const value = (sources.includes("claims") ? claimValue(claims, CREDENTIAL_CLAIMS[field]) : undefined)
+      ?? (sources.includes("headers") ? headerValue(headers, CREDENTIAL_HEADERS[field]) : undefined);
+    if (value !== undefined) {
+      credentials[field] = value;
+    }
+  }
+  if (credentials.password !== undefined && credentials.username === undefined) {
+    throw new Error("A TiDB password was supplied without a username");
+  }
+  return credentials.connection !== undefined || credentials.username !== undefined ? credentials : null;
+}
+
+// A profile's config connecting as the given user. The profile's own password is never
+// kept for another username, so a user without a password connects without one.
+export function applyCredentials(config: TiDBConfig, credentials: SessionCredentials): TiDBConfig {
+  const applied: TiDBConfig = { ...config };
+  if (credentials.username !== undefined) {
+    const password = credentials.password ?? "";
+    if (config.databaseUrl) {
+      const url = new URL(config.databaseUrl);
+      url.username = encodeURIComponent(credentials.username);
+      url.password = encodeURIComponent(password);
+      applied.databaseUrl = url.href;
+    }
+    applied.username = credentials.username;
+    applied.password = password;
+  }
+  if (credentials.database !== undefined) {
+    applied.database = credentials.database;
+  }
+  return applied;
+}
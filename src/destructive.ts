@@ -0,0 +1,154 @@
+import { classifySql, isIdentifier, isWord, readQualifiedName, Token, unquote } from "./sql-classifier.js";
+
+export interface DestructiveTarget {
+  database?: string;
+  table?: string;
+}
+
+export interface DestructiveStatement {
+  statement: string;
+  reason: string;
+  targets: DestructiveTarget[];
+}
+
+// Reads a comma-separated list of table names starting at `start`
+function readTableList(tokens: Token[], start: number): DestructiveTarget[] {
+  const targets: DestructiveTarget[] = [];
+  let i = start;
+  while (i < tokens.length) {
+    const name = readQualifiedName(tokens, i);
+    if (!name) {
+      break;
+    }
+    targets.push(name.target);
+    i = name.next;
+    if (tokens[i]?.value !== ",") {
+      break;
+    }
+    i++;
+  }
+  return targets;
+}
+
+// Tokens outside any parentheses, e.g. the main clauses of a statement
+function topLevelTokens(tokens: Token[]): Token[] {
+  const result: Token[] = [];
+  let depth = 0;
+  for (const token of tokens) {
+    if (token.type === "punct" && token.value === "(") {
+      depth++;
+    } else if (token.type === "punct" && token.value === ")") {
+      depth--;
+    } else if (depth === 0) {
+      result.push(token);
+    }
+  }
+  return result;
+}
+
+function detect(tokens: Token[]): Omit<DestructiveStatement, "statement"> | null {
+  const topLevel = topLevelTokens(tokens);
+  const verbIndex = topLevel.findIndex((token) =>
+    isWord(token, "DROP", "TRUNCATE", "DELETE", "UPDATE", "INSERT", "REPLACE", "SELECT", "CREATE", "ALTER")
+  );
+  if (verbIndex === -1) {
+    return null;
+  }
+  const verb = topLevel[verbIndex].value.toUpperCase();
+  const rest = topLevel.slice(verbIndex + 1);
+
+  switch (verb) {
+    case "DROP": {
+      let i = 0;
+      while (isWord(rest[i], "TEMPORARY")) {
+        i++;
+      }
+      const object = rest[i]?.value.toUpperCase() ?? "";
+      i++;
+      if (isWord(rest[i], "IF") && isWord(rest[i + 1], "EXISTS")) {
+        i += 2;
+      }
+      if (object === "TABLE" || object === "TABLES") {
+        return { reason: "DROP TABLE removes the table and all of its rows", targets: readTableList(rest, i) };
+      }
+      if (object === "DATABASE" || object === "SCHEMA") {
+        const name = rest[i];
+        return {
+          reason: "DROP DATABASE removes every table in the database",
+          targets: isIdentifier(name) ? [{ database: unquote(name) }] : [],
+        };
+      }
+      return { reason: `DROP ${object} cannot be undone`, targets: [] };
+    }
+
+    case "TRUNCATE": {
+      const i = isWord(rest[0], "TABLE") ? 1 : 0;
+      return { reason: "TRUNCATE removes every row in the table", targets: readTableList(rest, i) };
+    }
+
+    case "DELETE":
+    case "UPDATE": {
+      if (rest.some((token) => isWord(token, "WHERE"))) {
+        return null;
+      }
+      let i = 0;
+      while (isWord(rest[i], "LOW_PRIORITY", "QUICK", "IGNORE")) {
+        i++;
+      }
+      if (verb === "DELETE" && isWord(rest[i], "FROM")) {
+        i++;
+      }
+      const name = readQualifiedName(rest, i);
+      return {
+        reason: `${verb} without a WHERE clause affects every row in the table`,
+        targets: name ? [name.target] : [],
+      };
+    }
+
+    case "ALTER": {
+      let i = 0;
+      while (isWord(rest[i], "ONLINE", "OFFLINE", "IGNORE")) {
+        i++;
+      }
+      if (!isWord(rest[i], "TABLE")) {
+        return null;
+      }
+      const name = readQualifiedName(rest, i + 1);
+      if (!name) {
+        return null;
+      }
+      // DROP COLUMN, DROP INDEX, DROP PARTITION, TRUNCATE PARTITION, ...; ALTER COLUMN ... DROP DEFAULT
+      // only removes a default value
+      const clause = rest.findIndex((token, index) =>
+        index >= name.next && isWord(token, "DROP", "TRUNCATE") && !isWord(rest[index + 1], "DEFAULT")
+      );
+      if (clause === -1) {
+        return null;
+      }
+      const object = rest[clause + 1]?.type === "word" ? ` ${rest[clause + 1].value.toUpperCase()}` : "";
+      return {
+        reason: `ALTER TABLE ... ${rest[clause].value.toUpperCase()}${object} cannot be undone`,
+        targets: [name.target],
+      };
+    }
+
+    default:
+      return null;
+  }
+}
+
+// Finds DROP, TRUNCATE, DELETE/UPDATE statements without a WHERE clause and ALTER TABLE
+// statements that drop or truncate part of a table
+export function findDestructiveStatements(sqlStmts: string | string[]): DestructiveStatement[] {
+  const texts = Array.isArray(sqlStmts) ? sqlStmts : [sqlStmts];
+  const found: DestructiveStatement[] = [];
+  for (const text of texts) {
+    for (const statement of classifySql(text)) {
+      const match = detect(statement.tokens);
+      if (match) {
+        found.push({ statement: statement.text, ...match });
+      }
+    }
+  }
+  return found;
+}
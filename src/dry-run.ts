@@ -0,0 +1,155 @@
+import { quoteIdentifier } from "./schema.js";
+import { ClassifiedStatement, isWord, Token } from "./sql-classifier.js";
+
+export interface DryRunStatementResult {
+  statement: string;
+  simulated: boolean;
+  note?: string;
+  affectedRows?: number;
+  lastInsertId?: number | null;
+  warnings?: any[];
+  sample?: {
+    query: string;
+    before: any[];
+    after: any[];
+    // primary_key: after holds the before rows re-selected by key. filter: the table has no
+    // primary key, so after re-runs query and may hold other rows than before
+    matchedBy: "primary_key" | "filter";
+    note?: string;
+  };
+  error?: string;
+}
+
+function isPunct(token: Token | undefined, value: string): boolean {
+  return token !== undefined && token.type === "punct" && token.value === value;
+}
+
+function isIdentifier(token: Token | undefined): boolean {
+  return token !== undefined && (token.type === "word" || token.type === "quoted_identifier");
+}
+
+const CLAUSE_KEYWORDS = ["SET", "WHERE", "ORDER", "LIMIT", "PARTITION"];
+const JOIN_KEYWORDS = ["JOIN", "INNER", "LEFT", "RIGHT", "CROSS", "STRAIGHT_JOIN", "USING", "NATURAL"];
+
+// Index of the first token after a `name` or `db.name` starting at `start`, or -1
+function skipQualifiedName(tokens: Token[], start: number): number {
+  if (!isIdentifier(tokens[start])) {
+    return -1;
+  }
+  if (isPunct(tokens[start + 1], ".") && isIdentifier(tokens[start + 2])) {
+    return start + 3;
+  }
+  return start + 1;
+}
+
+// DML a rollback fully undoes. Other write statements are not simulated: LOAD DATA,
+// IMPORT INTO and BATCH commit on their own and CALL may run anything, as may the admin
+// (KILL, ANALYZE, FLUSH, ...) and unknown statements.
+const TRANSACTIONAL_DML = ["INSERT", "UPDATE", "DELETE", "REPLACE"];
+
+export function canSimulate(statement: ClassifiedStatement): boolean {
+  if (statement.kind !== "write") {
+    return false;
+  }
+  if (TRANSACTIONAL_DML.includes(statement.keyword)) {
+    return true;
+  }
+  // WITH ... UPDATE/DELETE: the main statement follows the CTEs, outside their parentheses
+  if (statement.keyword !== "WITH") {
+    return false;
+  }
+  let depth = 0;
+  for (const token of statement.tokens) {
+    if (isPunct(token, "(")) {
+      depth++;
+    } else if (isPunct(token, ")")) {
+      depth--;
+    } else if (depth === 0 && isWord(token, ...TRANSACTIONAL_DML)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+export interface SampleQuery {
+  query: string;
+  // The table as written in the statement, without its alias
+  table: string;
+}
+
+// Builds a SELECT over the rows a single-table UPDATE or DELETE touches, so they can be
+// sampled before the statement runs. Returns null for any other statement shape.
+export function buildSampleQuery(sql: string, statement: ClassifiedStatement, limit: number): SampleQuery | null {
+  const { tokens, keyword } = statement;
+  if (keyword !== "UPDATE" && keyword !== "DELETE") {
+    return null;
+  }
+  // Bound parameters cannot be replayed in the sample query
+  if (tokens.some((token) => token.type === "placeholder")) {
+    return null;
+  }
+
+  let i = 1;
+  while (isWord(tokens[i], "LOW_PRIORITY", "QUICK", "IGNORE")) {
+    i++;
+  }
+  if (keyword === "DELETE") {
+    if (!isWord(tokens[i], "FROM")) {
+      return null;
+    }
+    i++;
+  }
+
+  const nameEnd = skipQualifiedName(tokens, i);
+  if (nameEnd === -1) {
+    return null;
+  }
+  // Keep a table alias so the WHERE clause still resolves
+  let tableEnd = nameEnd;
+  if (isWord(tokens[tableEnd], "AS") && isIdentifier(tokens[tableEnd + 1])) {
+    tableEnd += 2;
+  } else if (isIdentifier(tokens[tableEnd]) && !isWord(tokens[tableEnd], ...CLAUSE_KEYWORDS, ...JOIN_KEYWORDS)) {
+    tableEnd += 1;
+  }
+  const table = sql.slice(tokens[i].start, tokens[nameEnd - 1].end);
+  const tableWithAlias = sql.slice(tokens[i].start, tokens[tableEnd - 1].end);
+
+  // Multi-table forms (joins, comma lists, DELETE ... USING) are not sampled
+  const next = tokens[tableEnd];
+  if (isPunct(next, ",") || isWord(next, ...JOIN_KEYWORDS)) {
+    return null;
+  }
+
+  let depth = 0;
+  let whereStart: Token | undefined;
+  let whereEnd: Token | undefined;
+  for (let j = tableEnd; j < tokens.length; j++) {
+    const token = tokens[j];
+    if (isPunct(token, "(")) {
+      depth++;
+    } else if (isPunct(token, ")")) {
+      depth--;
+    } else if (depth === 0 && !whereStart && isWord(token, "WHERE")) {
+      whereStart = token;
+    } else if (depth === 0 && whereStart && isWord(token, "ORDER", "LIMIT")) {
+      whereEnd = token;
+      break;
+    }
+  }
+
+  const where = whereStart
+    ? ` ${sql.slice(whereStart.start, whereEnd ? whereEnd.start : tokens[tokens.length - 1].end).trim()}`
+    : "";
+  return { query: `SELECT * FROM ${tableWithAlias}${where} LIMIT ${Math.floor(limit)}`, table };
+}
+
+// Re-selects sampled rows by primary key. Re-running the WHERE clause after an UPDATE that
+// changed a filtered column would return other rows, or none.
+export function buildKeyLookup(table: string, keyColumns: string[], rows: any[]): { query: string; params: any[] } {
+  const key = keyColumns.map(quoteIdentifier).join(", ");
+  const tuple = keyColumns.length > 1 ? `(${keyColumns.map(() => "?").join(", ")})` : "?";
+  return {
+    query: `SELECT * FROM ${table} WHERE ${keyColumns.length > 1 ? `(${key})` : key} IN (${rows.map(() => tuple).join(", ")})`,
+    params: rows.flatMap((row) => keyColumns.map((column) => row[column])),
+  };
+}
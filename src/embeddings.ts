@@ -0,0 +1,177 @@
+import { createHash } from "crypto";
+
+// Turns text into vectors on the server, so tools can take text where a vector is expected
+export interface EmbeddingProvider {
+  // Registered provider name, e.g. "local"
+  readonly name: string;
+  readonly model: string;
+  readonly dimensions: number;
+  // One vector per input text, in the same order
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface EmbeddingConfig {
+  provider: string;
+  model?: string;
+  dimensions?: number;
+  apiKey?: string;
+  baseUrl?: string;
+  // Seconds to wait for a remote provider to answer one request
+  timeout?: number;
+}
+
+export type EmbeddingProviderFactory = (config: EmbeddingConfig) => EmbeddingProvider;
+
+export const DEFAULT_LOCAL_DIMENSIONS = 256;
+
+const DEFAULT_OPENAI_MODEL = "text-embedding-3-small";
+const DEFAULT_OPENAI_BASE_URL = "https://api.openai.com/v1";
+export const DEFAULT_EMBEDDING_TIMEOUT_SECONDS = 30;
+
+// Texts sent to a remote provider in one request
+const REMOTE_BATCH_SIZE = 100;
+
+// Lower-cased words, split on anything that is not a letter or digit
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+function normalize(vector: number[]): number[] {
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return length === 0 ? vector : vector.map((value) => value / length);
+}
+
+// Deterministic feature-hashing embedding. Needs no network or model files, so it
+// works offline and in tests; texts sharing words and word fragments land close together.
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "local";
+  readonly model = "feature-hash-v1";
+  readonly dimensions: number;
+
+  constructor(dimensions = DEFAULT_LOCAL_DIMENSIONS) {
+    if (!Number.isInteger(dimensions) || dimensions < 1) {
+      throw new Error("Embedding dimensions must be a positive integer");
+    }
+    this.dimensions = dimensions;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    for (const token of tokenize(text)) {
+      this.addFeature(vector, `w:${token}`, 1);
+      // Character trigrams let related word forms (index, indexes) share features
+      const padded = `^${token}$`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        this.addFeature(vector, `c:${padded.slice(i, i + 3)}`, 0.5);
+      }
+    }
+    return normalize(vector);
+  }
+
+  private addFeature(vector: number[], feature: string, weight: number): void {
+    const digest = createHash("sha256").update(feature).digest();
+    const slot = digest.readUInt32BE(0) % this.dimensions;
+    // A second hash bit picks the sign, so collisions cancel out rather than pile up
+    vector[slot] += (digest[4] & 1) === 0 ? weight : -weight;
+  }
+}
+
+// Any service speaking the OpenAI embeddings API (OpenAI, Azure-compatible gateways, Ollama, vLLM, ...)
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "openai";
+  readonly model: string;
+  readonly dimensions: number;
+  private readonly apiKey: string | undefined;
+  private readonly baseUrl: string;
+  private readonly timeoutMs: number;
+
+  constructor(config: Omit<EmbeddingConfig, "provider">) {
+    if (!config.dimensions) {
+      throw new Error("TIDB_EMBEDDING_DIMENSIONS is required for the openai embedding provider");
+    }
+    this.model = config.model || DEFAULT_OPENAI_MODEL;
+    this.dimensions = config.dimensions;
+    this.apiKey = config.apiKey;
+    this.baseUrl = (config.baseUrl || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, "");
+    this.timeoutMs = (config.timeout ?? DEFAULT_EMBEDDING_TIMEOUT_SECONDS) * 1000;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (let start = 0; start < texts.length; start += REMOTE_BATCH_SIZE) {
+      vectors.push(...await this.embedBatch(texts.slice(start, start + REMOTE_BATCH_SIZE)));
+    }
+    return vectors;
+  }
+
+  // The timeout covers reading the response body as well as waiting for the headers
+  private async embedBatch(input: string[]): Promise<number[][]> {
+    let body: { data?: Array<{ index: number; embedding: number[] }> };
+    try {
+      const response = await fetch(`${this.baseUrl}/embeddings`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+        },
+        body: JSON.stringify({ model: this.model, input, dimensions: this.dimensions }),
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+      if (!response.ok) {
+        // The body may echo the request; keep only the status
+        throw new Error(`Embedding request failed with HTTP ${response.status}`);
+      }
+      body = await response.json();
+    } catch (error) {
+      if (error instanceof Error && error.name === "TimeoutError") {
+        throw new Error(`Embedding request timed out after ${this.timeoutMs / 1000}s`);
+      }
+      throw error;
+    }
+    const data = [...(body.data ?? [])].sort((a, b) => a.index - b.index);
+    if (data.length !== input.length) {
+      throw new Error(`Embedding service returned ${data.length} vectors for ${input.length} texts`);
+    }
+    return data.map((item) => item.embedding);
+  }
+}
+
+const providerFactories = new Map<string, EmbeddingProviderFactory>([
+  ["local", (config) => new LocalEmbeddingProvider(config.dimensions)],
+  ["openai", (config) => new OpenAIEmbeddingProvider(config)],
+]);
+
+// Makes another provider available under TIDB_EMBEDDING_PROVIDER=<name>
+export function registerEmbeddingProvider(name: string, factory: EmbeddingProviderFactory): void {
+  providerFactories.set(name.toLowerCase(), factory);
+}
+
+export function embeddingProviderNames(): string[] {
+  return [...providerFactories.keys()];
+}
+
+export function createEmbeddingProvider(config: EmbeddingConfig): EmbeddingProvider {
+  const factory = providerFactories.get(config.provider.toLowerCase());
+  if (!factory) {
+    throw new Error(`Unknown embedding provider "${config.provider}". Available: ${embeddingProviderNames().join(", ")}`);
+  }
+  return factory(config);
+}
+
+// Embeds the texts and checks every vector has the provider's dimensions
+export async function embedTexts(provider: EmbeddingProvider, texts: string[]): Promise<number[][]> {
+  if (texts.length === 0) {
+    return [];
+  }
+  const vectors = await provider.embed(texts);
+  for (const vector of vectors) {
+    if (vector.length !== provider.dimensions) {
+      throw new Error(`Embedding provider ${provider.name} returned ${vector.length} dimensions, expected ${provider.dimensions}`);
+    }
+  }
+  return vectors;
+}
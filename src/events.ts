@@ -0,0 +1,250 @@
+// Event stores that keep the SSE messages sent on each HTTP session, so that a client
+// reconnecting with Last-Event-ID gets the messages it missed replayed
+import { appendFile, mkdir, readdir, readFile, rm, stat, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { EventStore } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+
+// A store for one session's streams. Stream IDs are only unique within a transport,
+// so sessions never share a store.
+export interface SessionEventStore extends EventStore {
+  // Drops the session's events once the session is closed
+  dispose(): Promise<void>;
+}
+
+export interface EventStoreConfig {
+  store: string;
+  // Events kept per session; older ones are dropped first
+  maxEvents: number;
+  // Milliseconds an event can be replayed for
+  ttlMs: number;
+  // Where the file store writes its files
+  directory: string;
+}
+
+export type EventStoreFactory = (sessionId: string, config: EventStoreConfig) => SessionEventStore;
+
+export const DEFAULT_EVENT_STORE = "memory";
+export const DEFAULT_MAX_EVENTS = 1000;
+export const DEFAULT_EVENT_TTL_SECONDS = 5 * 60;
+
+interface StoredEvent {
+  sequence: number;
+  streamId: string;
+  storedAt: number;
+  message: JSONRPCMessage;
+}
+
+// Event IDs carry a per-session sequence number and the stream, e.g. "42_<stream id>"
+function eventId(event: StoredEvent): string {
+  return `${event.sequence}_${event.streamId}`;
+}
+
+export function parseEventId(id: string): { sequence: number; streamId: string } | null {
+  const match = /^(\d+)_(.+)$/.exec(id);
+  return match ? { sequence: Number(match[1]), streamId: match[2] } : null;
+}
+
+// Replays the events of the resumed stream that came after lastEventId. Events already
+// dropped by the size or TTL bounds cannot be replayed; the stream resumes after them.
+async function replay(
+  events: StoredEvent[],
+  lastEventId: string,
+  send: (eventId: string, message: JSONRPCMessage) => Promise<void>,
+  now: number,
+  ttlMs: number
+): Promise<string> {
+  const last = parseEventId(lastEventId);
+  if (!last) {
+    throw new Error(`Invalid Last-Event-ID: ${lastEventId}`);
+  }
+  for (const event of events) {
+    if (event.streamId === last.streamId && event.sequence > last.sequence && now - event.storedAt <= ttlMs) {
+      await send(eventId(event), event.message);
+    }
+  }
+  return last.streamId;
+}
+
+export class MemoryEventStore implements SessionEventStore {
+  private events: StoredEvent[] = [];
+  private sequence = 0;
+
+  constructor(private readonly config: EventStoreConfig, private readonly now: () => number = Date.now) {}
+
+  async storeEvent(streamId: string, message: JSONRPCMessage): Promise<string> {
+    const event = { sequence: ++this.sequence, streamId, storedAt: this.now(), message };
+    this.events.push(event);
+    this.prune();
+    return eventId(event);
+  }
+
+  async replayEventsAfter(
+    lastEventId: string,
+    { send }: { send: (eventId: string, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<string> {
+    this.prune();
+    return replay(this.events, lastEventId, send, this.now(), this.config.ttlMs);
+  }
+
+  async dispose(): Promise<void> {
+    this.events = [];
+  }
+
+  get size(): number {
+    return this.events.length;
+  }
+
+  private prune(): void {
+    const cutoff = this.now() - this.config.ttlMs;
+    const firstLive = this.events.findIndex((event) => event.storedAt >= cutoff);
+    const expired = firstLive === -1 ? this.events.length : firstLive;
+    const overflow = Math.max(0, this.events.length - expired - this.config.maxEvents);
+    if (expired + overflow > 0) {
+      this.events = this.events.slice(expired + overflow);
+    }
+  }
+}
+
+// Appends events to one JSONL file per session, keeping large responses out of memory.
+// The file is compacted to the bounds once it holds twice the allowed events.
+export class FileEventStore implements SessionEventStore {
+  private readonly path: string;
+  private sequence = 0;
+  private lines = 0;
+  // Writes run one after another so that the file keeps the order events were stored in
+  private pending: Promise<void>;
+
+  constructor(sessionId: string, private readonly config: EventStoreConfig, private readonly now: () => number = Date.now) {
+    this.path = join(config.directory, `${sessionId}.jsonl`);
+    this.pending = mkdir(config.directory, { recursive: true }).then(() => {});
+  }
+
+  async storeEvent(streamId: string, message: JSONRPCMessage): Promise<string> {
+    const event = { sequence: ++this.sequence, streamId, storedAt: this.now(), message };
+    await this.enqueue(async () => {
+      await appendFile(this.path, `${JSON.stringify(event)}\n`, "utf8");
+      if (++this.lines >= this.config.maxEvents * 2) {
+        const kept = this.live(await this.read());
+        await writeFile(this.path, kept.map((stored) => `${JSON.stringify(stored)}\n`).join(""), "utf8");
+        this.lines = kept.length;
+      }
+    });
+    return eventId(event);
+  }
+
+  async replayEventsAfter(
+    lastEventId: string,
+    { send }: { send: (eventId: string, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<string> {
+    let events: StoredEvent[] = [];
+    await this.enqueue(async () => {
+      events = this.live(await this.read());
+    });
+    return replay(events, lastEventId, send, this.now(), this.config.ttlMs);
+  }
+
+  async dispose(): Promise<void> {
+    await this.enqueue(() => rm(this.path, { force: true }));
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const run = this.pending.then(task);
+    // Later tasks still run after a failed one
+    this.pending = run.catch(() => {});
+    return run;
+  }
+
+  private async read(): Promise<StoredEvent[]> {
+    let text: string;
+    try {
+      text = await readFile(this.path, "utf8");
+    } catch (error: any) {
+      if (error.code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+    return text.split("\n").filter((line) => line.length > 0).map((line) => JSON.parse(line) as StoredEvent);
+  }
+
+  // Unexpired events within the size bound
+  private live(events: StoredEvent[]): StoredEvent[] {
+    const cutoff = this.now() - this.config.ttlMs;
+    return events.filter((event) => event.storedAt >= cutoff).slice(-this.config.maxEvents);
+  }
+}
+
+// Removes session files not written to within the TTL, such as those left behind by an
+// earlier run; their events can no longer be replayed
+export async function removeStaleEventFiles(directory: string, ttlMs: number, now: number = Date.now()): Promise<number> {
+  let names: string[];
+  try {
+    names = await readdir(directory);
+  } catch (error: any) {
+    if (error.code === "ENOENT") {
+      return 0;
+    }
+    throw error;
+  }
+  let removed = 0;
+  for (const name of names.filter((name) => name.endsWith(".jsonl"))) {
+    const file = join(directory, name);
+    if (now - (await stat(file)).mtimeMs > ttlMs) {
+      await rm(file, { force: true });
+      removed++;
+    }
+  }
+  return removed;
+}
+
+const storeFactories = new Map<string, EventStoreFactory>([
+  ["memory", (sessionId, config) => new MemoryEventStore(config)],
+  ["file", (sessionId, config) => new FileEventStore(sessionId, config)],
+]);
+
+// Makes another store available under MCP_EVENT_STORE=<name>
+export function registerEventStore(name: string, factory: EventStoreFactory): void {
+  storeFactories.set(name.toLowerCase(), factory);
+}
+
+export function eventStoreNames(): string[] {
+  return [...storeFactories.keys()];
+}
+
+export function createEventStore(sessionId: string, config: EventStoreConfig): SessionEventStore {
+  const factory = storeFactories.get(config.store.toLowerCase());
+  if (!factory) {
+    throw new Error(`Unknown event store "${config.store}". Available: ${eventStoreNames().join(", ")}`);
+  }
+  return factory(sessionId, config);
+}
+
+function parsePositiveInteger(value: string | undefined, name: string, fallback: number): number {
+  if (value === undefined || value === "") {
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`${name} must be a positive integer, got "${value}"`);
+  }
+  return parsed;
+}
+
+// Event store settings from the environment, or null when MCP_EVENT_STORE=none
+export function loadEventStoreConfig(env: NodeJS.ProcessEnv): EventStoreConfig | null {
+  const store = (env.MCP_EVENT_STORE || DEFAULT_EVENT_STORE).toLowerCase();
+  if (store === "none") {
+    return null;
+  }
+  if (!storeFactories.has(store)) {
+    throw new Error(`Unknown event store "${store}". Available: none, ${eventStoreNames().join(", ")}`);
+  }
+  return {
+    store,
+    maxEvents: parsePositiveInteger(env.MCP_EVENT_STORE_MAX_EVENTS, "MCP_EVENT_STORE_MAX_EVENTS", DEFAULT_MAX_EVENTS),
+    ttlMs: parsePositiveInteger(env.MCP_EVENT_STORE_TTL, "MCP_EVENT_STORE_TTL", DEFAULT_EVENT_TTL_SECONDS) * 1000,
+    directory: env.MCP_EVENT_STORE_DIR || join(tmpdir(), "tidb-mcp-events"),
+  };
+}
@@ -0,0 +1,201 @@
+// Parses TiDB EXPLAIN / EXPLAIN ANALYZE output into an operator tree and flags common problems
+
+export interface PlanNode {
+  id: string;
+  // Operator name without its numeric suffix, e.g. TableFullScan
+  operator: string;
+  estRows: number | null;
+  // Only present for EXPLAIN ANALYZE
+  actRows?: number | null;
+  task: string;
+  accessObject: string;
+  operatorInfo: string;
+  executionInfo?: string;
+  memory?: string;
+  disk?: string;
+  children: PlanNode[];
+}
+
+export type FindingSeverity = "info" | "warning";
+
+export type FindingKind =
+  | "full_table_scan"
+  | "filter_without_index"
+  | "pseudo_stats"
+  | "estimate_miss"
+  | "cartesian_join"
+  | "storage_engines";
+
+export interface PlanFinding {
+  kind: FindingKind;
+  severity: FindingSeverity;
+  operator?: string;
+  message: string;
+}
+
+// Scans over fewer rows than this are not worth flagging
+export const LARGE_SCAN_ROWS = 10000;
+
+// Estimates off by more than this factor (either way) are reported
+export const ESTIMATE_MISS_RATIO = 10;
+
+// Rows are ignored by the estimate check below this count, where ratios are noise
+const ESTIMATE_MISS_MIN_ROWS = 100;
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === "" || value === "N/A") {
+    return null;
+  }
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+function text(value: unknown): string {
+  return value === null || value === undefined ? "" : String(value);
+}
+
+// The id column draws the tree: "└─TableReader_7", "  └─TableFullScan_5", "│ └─..."
+function splitId(raw: string): { depth: number; id: string } {
+  const start = raw.search(/[^\s│├└─]/u);
+  const prefix = start === -1 ? raw : raw.slice(0, start);
+  return { depth: Math.round([...prefix].length / 2), id: start === -1 ? raw : raw.slice(start) };
+}
+
+export function parsePlan(rows: Array<Record<string, unknown>>): PlanNode[] {
+  const roots: PlanNode[] = [];
+  const stack: Array<{ depth: number; node: PlanNode }> = [];
+
+  for (const row of rows) {
+    const { depth, id } = splitId(text(row.id));
+    const node: PlanNode = {
+      id,
+      operator: id.replace(/_\d+$/, ""),
+      estRows: toNumber(row.estRows),
+      task: text(row.task),
+      accessObject: text(row["access object"]),
+      operatorInfo: text(row["operator info"]),
+      children: [],
+    };
+    if ("actRows" in row) {
+      node.actRows = toNumber(row.actRows);
+      node.executionInfo = text(row["execution info"]);
+      node.memory = text(row.memory);
+      node.disk = text(row.disk);
+    }
+
+    while (stack.length > 0 && stack[stack.length - 1].depth >= depth) {
+      stack.pop();
+    }
+    if (stack.length === 0) {
+      roots.push(node);
+    } else {
+      stack[stack.length - 1].node.children.push(node);
+    }
+    stack.push({ depth, node });
+  }
+
+  return roots;
+}
+
+function walk(nodes: PlanNode[], visit: (node: PlanNode) => void): void {
+  for (const node of nodes) {
+    visit(node);
+    walk(node.children, visit);
+  }
+}
+
+function isTiFlash(task: string): boolean {
+  return /tiflash/i.test(task);
+}
+
+// "table:t, index:idx_a(a)" -> "t"
+function tableOf(node: PlanNode): string {
+  return /table:([^,\s]+)/.exec(node.accessObject)?.[1] ?? node.accessObject;
+}
+
+// Rows the operator actually produced when known, otherwise the estimate
+function rowCount(node: PlanNode): number {
+  return node.actRows ?? node.estRows ?? 0;
+}
+
+export function analyzePlan(roots: PlanNode[]): PlanFinding[] {
+  const findings: PlanFinding[] = [];
+  const engines = { tikv: new Set<string>(), tiflash: new Set<string>() };
+
+  walk(roots, (node) => {
+    const isScan = /Scan$/.test(node.operator);
+    if (isScan && node.accessObject) {
+      (isTiFlash(node.task) ? engines.tiflash : engines.tikv).add(tableOf(node));
+    }
+
+    if (node.operator === "TableFullScan" && rowCount(node) >= LARGE_SCAN_ROWS) {
+      findings.push(isTiFlash(node.task)
+        ? {
+            kind: "full_table_scan",
+            severity: "info",
+            operator: node.id,
+            message: `Full scan of ${tableOf(node)} (~${rowCount(node)} rows) on TiFlash, which is expected for analytical queries.`,
+          }
+        : {
+            kind: "full_table_scan",
+            severity: "warning",
+            operator: node.id,
+            message: `Full scan of ${tableOf(node)} (~${rowCount(node)} rows) on TiKV. Add an index on the filtered or joined columns, or a TiFlash replica for analytical queries.`,
+          });
+    }
+
+    // A Selection right above a table scan filters rows that no index narrowed down
+    if (node.operator === "Selection" && !isTiFlash(node.task)) {
+      const scan = node.children.find((child) => child.operator === "TableFullScan" || child.operator === "TableRangeScan");
+      if (scan && rowCount(scan) >= LARGE_SCAN_ROWS) {
+        findings.push({
+          kind: "filter_without_index",
+          severity: "warning",
+          operator: node.id,
+          message: `Filter ${node.operatorInfo} is applied after scanning ${tableOf(scan)}; no index is used for it. Consider an index on these columns.`,
+        });
+      }
+    }
+
+    if (/stats:pseudo/.test(node.operatorInfo)) {
+      findings.push({
+        kind: "pseudo_stats",
+        severity: "warning",
+        operator: node.id,
+        message: `${tableOf(node) || node.id} has no statistics, so estimates are guesses. Run ANALYZE TABLE.`,
+      });
+    }
+
+    if (node.actRows !== undefined && node.actRows !== null && node.estRows !== null) {
+      const larger = Math.max(node.actRows, node.estRows);
+      const smaller = Math.max(Math.min(node.actRows, node.estRows), 1);
+      if (larger >= ESTIMATE_MISS_MIN_ROWS && larger / smaller > ESTIMATE_MISS_RATIO) {
+        findings.push({
+          kind: "estimate_miss",
+          severity: "warning",
+          operator: node.id,
+          message: `Estimated ${node.estRows} rows but got ${node.actRows}. Outdated statistics can lead to a poor plan; consider ANALYZE TABLE.`,
+        });
+      }
+    }
+
+    if (/Join$/.test(node.operator) && /CARTESIAN/i.test(node.operatorInfo)) {
+      findings.push({
+        kind: "cartesian_join",
+        severity: "warning",
+        operator: node.id,
+        message: "Cartesian join: no join condition connects these inputs.",
+      });
+    }
+  });
+
+  if (engines.tikv.size > 0 || engines.tiflash.size > 0) {
+    const parts = [
+      engines.tikv.size > 0 ? `TiKV (row store): ${[...engines.tikv].join(", ")}` : null,
+      engines.tiflash.size > 0 ? `TiFlash (column store): ${[...engines.tiflash].join(", ")}` : null,
+    ].filter((part): part is string => part !== null);
+    findings.push({ kind: "storage_engines", severity: "info", message: `Reads from ${parts.join("; ")}.` });
+  }
+
+  return findings;
+}
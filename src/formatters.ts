@@ -0,0 +1,122 @@
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { ColumnInfo, ResultSet } from "./columns.js";
+
+export const RESULT_FORMATS = ["json", "columnar", "markdown", "csv", "jsonl"] as const;
+
+export type ResultFormat = typeof RESULT_FORMATS[number];
+
+export const resultFormatSchema = z.enum(RESULT_FORMATS).describe(
+  "Result format: json (row objects), columnar (column list plus row arrays, compact), markdown (table), csv, or jsonl (one JSON row per line)"
+);
+
+export function isResultFormat(value: string): value is ResultFormat {
+  return (RESULT_FORMATS as readonly string[]).includes(value);
+}
+
+// Falls back to the row keys when the driver reported no field metadata
+function resolveColumns({ columns, rows }: ResultSet): ColumnInfo[] {
+  if (columns.length > 0 || rows.length === 0) {
+    return columns;
+  }
+  return Object.keys(rows[0]).map((name) => ({ name, type: "UNKNOWN", nullable: true }));
+}
+
+function cellText(value: unknown): string | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === "object") {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+function markdownCell(value: unknown): string {
+  const text = cellText(value);
+  if (text === null) {
+    return "NULL";
+  }
+  return text.replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>");
+}
+
+function csvCell(value: unknown): string {
+  const text = cellText(value);
+  if (text === null) {
+    return "";
+  }
+  // Quote empty strings too, so they stay distinguishable from NULL
+  if (text === "" || /[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+function toMarkdown(columns: ColumnInfo[], rows: any[]): string {
+  if (columns.length === 0) {
+    return "_(no columns)_";
+  }
+  const lines = [
+    `| ${columns.map((column) => markdownCell(column.name)).join(" | ")} |`,
+    `| ${columns.map(() => "---").join(" | ")} |`,
+    ...rows.map((row) => `| ${columns.map((column) => markdownCell(row[column.name])).join(" | ")} |`),
+  ];
+  return lines.join("\n");
+}
+
+function toCsv(columns: ColumnInfo[], rows: any[]): string {
+  const lines = [
+    columns.map((column) => csvCell(column.name)).join(","),
+    ...rows.map((row) => columns.map((column) => csvCell(row[column.name])).join(",")),
+  ];
+  return lines.join("\r\n");
+}
+
+function toJsonLines(rows: any[]): string {
+  return rows.map((row) => JSON.stringify(row)).join("\n");
+}
+
+export function renderMarkdownTable(result: ResultSet): string {
+  return toMarkdown(resolveColumns(result), result.rows);
+}
+
+function text(value: string) {
+  return { type: "text" as const, text: value };
+}
+
+// Renders a result set as tool content. JSON formats embed the metadata in the
+// document; text formats carry it in a second content item.
+export function formatResultSet(
+  result: ResultSet,
+  format: ResultFormat,
+  meta: Record<string, unknown> = {}
+): CallToolResult {
+  const columns = resolveColumns(result);
+  const { rows } = result;
+
+  switch (format) {
+    case "json":
+      return { content: [text(JSON.stringify({ columns, rows, ...meta }, null, 2))] };
+
+    case "columnar":
+      return {
+        content: [text(JSON.stringify({
+          columns,
+          rows: rows.map((row) => columns.map((column) => row[column.name] ?? null)),
+          ...meta,
+        }))],
+      };
+
+    case "markdown":
+      return { content: [text(toMarkdown(columns, rows)), text(JSON.stringify({ columns, ...meta }))] };
+
+    case "csv":
+      return { content: [text(toCsv(columns, rows)), text(JSON.stringify({ columns, ...meta }))] };
+
+    case "jsonl":
+      return { content: [text(toJsonLines(rows)), text(JSON.stringify({ columns, ...meta }))] };
+  }
+}
@@ -0,0 +1,38 @@
+// Liveness and readiness checks for the HTTP server, for probes such as Kubernetes'
+import type { TiDBConnector } from "./connector.js";
+
+export const DEFAULT_READINESS_TIMEOUT_SECONDS = 2;
+
+export interface ReadinessResult {
+  ready: boolean;
+  error?: string;
+}
+
+export function loadReadinessTimeout(env: NodeJS.ProcessEnv): number {
+  const value = env.MCP_READINESS_TIMEOUT;
+  if (value === undefined || value === "") {
+    return DEFAULT_READINESS_TIMEOUT_SECONDS * 1000;
+  }
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new Error(`MCP_READINESS_TIMEOUT must be a positive number of seconds, got "${value}"`);
+  }
+  return parsed * 1000;
+}
+
+// Ready when TiDB answers a ping within the timeout. A ping still waiting for a connection
+// is left to finish on its own; the pool's connect timeout bounds it.
+export async function checkReadiness(connector: Pick<TiDBConnector, "ping">, timeoutMs: number): Promise<ReadinessResult> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((resolve, reject) => {
+    timer = setTimeout(() => reject(new Error(`TiDB did not answer within ${timeoutMs}ms`)), timeoutMs);
+  });
+  try {
+    await Promise.race([connector.ping(), timeout]);
+    return { ready: true };
+  } catch (error) {
+    return { ready: false, error: error instanceof Error ? error.message : String(error) };
+  } finally {
+    clearTimeout(timer);
+  }
+}
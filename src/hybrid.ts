@@ -0,0 +1,113 @@
+// Keyword (full-text) retrieval and reciprocal rank fusion with vector results, for hybrid_search
+import { quoteIdentifier } from "./schema.js";
+import { BoundSql, buildFilterClause, DistanceMetric, qualifiedName, VectorFilter } from "./vector.js";
+
+export type Retriever = "keyword" | "vector";
+
+// Rank offset from the original RRF paper; larger values flatten the gap between top ranks
+export const DEFAULT_RRF_K = 60;
+
+export interface RetrieverHit {
+  // Identifies the same row across retrievers, from its primary key
+  key: string;
+  row: Record<string, unknown>;
+  // Keyword relevance (higher is better) or vector distance (lower is better)
+  value: number | null;
+}
+
+export interface RankedList {
+  retriever: Retriever;
+  weight: number;
+  // Best match first
+  hits: RetrieverHit[];
+}
+
+export interface RetrieverMatch {
+  rank: number;
+  value: number | null;
+}
+
+export interface HybridHit {
+  key: string;
+  row: Record<string, unknown>;
+  score: number;
+  matchedBy: Retriever[];
+  matches: Partial<Record<Retriever, RetrieverMatch>>;
+}
+
+export interface HybridSearchOptions {
+  database?: string;
+  table: string;
+  // Keyword query, matched against textColumn
+  query: string;
+  // Query vector, compared with vectorColumn
+  vector: number[];
+  textColumn: string;
+  vectorColumn: string;
+  columns?: string[];
+  metric: DistanceMetric;
+  filters: VectorFilter[];
+  // Rows returned after fusion
+  k: number;
+  // Rows fetched from each retriever before fusion
+  candidates: number;
+  weights: Record<Retriever, number>;
+  rrfK: number;
+}
+
+export interface KeywordSearchOptions {
+  database?: string;
+  table: string;
+  textColumn: string;
+  columns: string[];
+  query: string;
+  filters: VectorFilter[];
+  limit: number;
+}
+
+// Weighted reciprocal rank fusion: score = sum of weight / (rrfK + rank) over the
+// retrievers that returned the row. Ties keep the order rows were first seen in.
+export function reciprocalRankFusion(lists: RankedList[], rrfK: number = DEFAULT_RRF_K, limit?: number): HybridHit[] {
+  const fused = new Map<string, HybridHit>();
+
+  for (const { retriever, weight, hits } of lists) {
+    hits.forEach((hit, index) => {
+      const rank = index + 1;
+      let entry = fused.get(hit.key);
+      if (!entry) {
+        entry = { key: hit.key, row: hit.row, score: 0, matchedBy: [], matches: {} };
+        fused.set(hit.key, entry);
+      }
+      // A retriever returning the same row twice only counts its best rank
+      if (entry.matches[retriever]) {
+        return;
+      }
+      entry.score += weight / (rrfK + rank);
+      entry.matchedBy.push(retriever);
+      entry.matches[retriever] = { rank, value: hit.value };
+    });
+  }
+
+  const ranked = [...fused.values()].sort((a, b) => b.score - a.score);
+  return limit === undefined ? ranked : ranked.slice(0, limit);
+}
+
+// TiDB full-text search: rows matching the words of the query, most relevant first.
+// Needs a FULLTEXT index on the text column.
+export function buildKeywordSearchSql(options: KeywordSearchOptions): BoundSql {
+  const match = `FTS_MATCH_WORD(?, ${quoteIdentifier(options.textColumn)})`;
+  const select = [...options.columns.map(quoteIdentifier), `${match} AS \`keyword_score\``].join(", ");
+  const where = buildFilterClause(options.filters);
+
+  return {
+    sql: `SELECT ${select} FROM ${qualifiedName(options.database, options.table)}` +
+      ` WHERE ${match}${where.sql ? ` AND ${where.sql}` : ""}` +
+      ` ORDER BY ${match} DESC LIMIT ${Math.floor(options.limit)}`,
+    params: [options.query, options.query, ...where.params, options.query],
+  };
+}
+
+// Primary key values of a row, as a map key
+export function rowKey(row: Record<string, unknown>, keyColumns: string[]): string {
+  return JSON.stringify(keyColumns.map((column) => row[column] ?? null));
+}
@@ -0,0 +1,24 @@
+import { readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import { toManifestTools } from "./tools.js";
+
+// Regenerates the `tools` array of manifest.json from the tool registry.
+// Run from the project root: npm run manifest
+const manifestPath = join(process.cwd(), "manifest.json");
+
+try {
+  const manifest = readFileSync(manifestPath, "utf8");
+  const tools = toManifestTools();
+  // Replace only the tools block so the rest of the hand-written formatting is kept
+  const toolsJson = JSON.stringify(tools, null, 2).replace(/\n/g, "\n  ");
+  const updated = manifest.replace(/"tools": \[[\s\S]*?\n  \]/, `"tools": ${toolsJson}`);
+  if (updated === manifest && !manifest.includes(`"tools": ${toolsJson}`)) {
+    throw new Error('Could not find the "tools" array in manifest.json');
+  }
+  JSON.parse(updated);
+  writeFileSync(manifestPath, updated);
+  console.error(`Updated ${tools.length} tools in ${manifestPath}`);
+} catch (error) {
+  console.error("Failed to update manifest:", error);
+  process.exit(1);
+}
@@ -0,0 +1,183 @@
+// Prometheus metrics for the HTTP server, rendered in the text exposition format
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import type { PoolRegistry } from "./pools.js";
+
+export const METRICS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+export type Labels = Record<string, string>;
+
+// Tool latencies range from point lookups to long analytical queries
+export const DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+export type ToolOutcome = "success" | "error";
+
+interface Metric {
+  render(): string[];
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) {
+    return "+Inf";
+  }
+  if (value === -Infinity) {
+    return "-Inf";
+  }
+  return String(value);
+}
+
+// Series are kept by their rendered label set, in the order they first appeared
+function seriesKey(labels: Labels): string {
+  return formatLabels(labels);
+}
+
+export class Counter implements Metric {
+  private readonly series = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  inc(labels: Labels = {}, value: number = 1): void {
+    const key = seriesKey(labels);
+    const series = this.series.get(key) ?? { labels, value: 0 };
+    series.value += value;
+    this.series.set(key, series);
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+      ...[...this.series.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`),
+    ];
+  }
+}
+
+// Read when scraped, for values owned elsewhere such as pool and session counts
+export class Gauge implements Metric {
+  constructor(readonly name: string, readonly help: string, private readonly collect: () => Array<[Labels, number]>) {}
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} gauge`,
+      ...this.collect().map(([labels, value]) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`),
+    ];
+  }
+}
+
+export class Histogram implements Metric {
+  private readonly series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  constructor(readonly name: string, readonly help: string, private readonly buckets: number[] = DURATION_BUCKETS) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = seriesKey(labels);
+    const series = this.series.get(key) ?? { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        series.counts[index]++;
+      }
+    });
+    series.sum += value;
+    series.count++;
+    this.series.set(key, series);
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      this.buckets.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${counts[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(sum)}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+}
+
+export class MetricsRegistry {
+  private readonly metrics: Metric[] = [];
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  gauge(name: string, help: string, collect: () => Array<[Labels, number]>): Gauge {
+    return this.register(new Gauge(name, help, collect));
+  }
+
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  render(): string {
+    return `${this.metrics.flatMap((metric) => metric.render()).join("\n")}\n`;
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
+  }
+}
+
+// Bytes of the content a tool result sends back to the client
+export function resultBytes(result: CallToolResult): number {
+  return Buffer.byteLength(JSON.stringify(result.content ?? []));
+}
+
+// The metrics the HTTP server exposes on /metrics
+export class ServerMetrics {
+  private readonly registry = new MetricsRegistry();
+  private readonly toolCalls: Counter;
+  private readonly toolDuration: Histogram;
+  private readonly responseBytes: Counter;
+  // Stateless servers have no sessions and keep reporting 0
+  private sessionCount: () => number = () => 0;
+
+  constructor(pools: PoolRegistry, private readonly now: () => number = () => performance.now()) {
+    this.toolCalls = this.registry.counter("tidb_mcp_tool_calls_total", "Tool calls by tool and outcome.");
+    this.toolDuration = this.registry.histogram("tidb_mcp_tool_call_duration_seconds", "Tool call latency by tool and outcome.");
+    this.responseBytes = this.registry.counter("tidb_mcp_tool_response_bytes_total", "Bytes of tool result content returned to clients, by tool.");
+    this.registry.gauge("tidb_mcp_sessions", "Live MCP sessions.", () => [[{}, this.sessionCount()]]);
+    this.registry.gauge("tidb_mcp_pools", "Open TiDB connection pools.", () => [[{}, pools.usage().pools]]);
+    this.registry.gauge("tidb_mcp_pool_connections", "TiDB connections across all pools, by state.", () => {
+      const usage = pools.usage();
+      return [[{ state: "active" }, usage.active], [{ state: "idle" }, usage.idle]];
+    });
+    this.registry.gauge("tidb_mcp_pool_queued_requests", "Requests waiting for a free TiDB connection.", () => [[{}, pools.usage().queued]]);
+  }
+
+  trackSessions(count: () => number): void {
+    this.sessionCount = count;
+  }
+
+  // Runs a tool call, recording its outcome, latency and the size of its result.
+  // Results flagged isError count as errors just like thrown ones.
+  async recordToolCall(tool: string, call: () => Promise<CallToolResult>): Promise<CallToolResult> {
+    const started = this.now();
+    let outcome: ToolOutcome = "error";
+    try {
+      const result = await call();
+      outcome = result.isError ? "error" : "success";
+      this.responseBytes.inc({ tool }, resultBytes(result));
+      return result;
+    } finally {
+      this.toolCalls.inc({ tool, outcome });
+      this.toolDuration.observe({ tool, outcome }, (this.now() - started) / 1000);
+    }
+  }
+
+  render(): string {
+    return this.registry.render();
+  }
+}
@@ -0,0 +1,83 @@
+import { createHash } from "node:crypto";
+import { ColumnInfo } from "./columns.js";
+import { isWord, tokenize } from "./sql-classifier.js";
+
+export const DEFAULT_MAX_ROWS = 500;
+export const DEFAULT_MAX_RESPONSE_BYTES = 64 * 1024;
+
+// Rows counted past the end of a page before giving up on an exact total
+export const COUNT_SCAN_LIMIT = 10000;
+
+// Added to paged results of statements without a top-level ORDER BY
+export const UNORDERED_PAGES_WARNING =
+  "The statement has no top-level ORDER BY, so TiDB may return rows in a different order on each call and pages can skip or repeat rows. Add an ORDER BY on a unique key before fetching the next page.";
+
+export interface QueryPageOptions {
+  offset: number;
+  maxRows: number;
+  maxBytes: number;
+}
+
+export interface QueryPage {
+  columns: ColumnInfo[];
+  rows: any[];
+  truncated: boolean;
+  // Exact when the whole result was scanned, otherwise an estimate
+  totalRows: number | null;
+  totalRowsExact: boolean;
+  nextOffset: number | null;
+}
+
+interface QueryCursor {
+  offset: number;
+  fingerprint: string;
+}
+
+// Ties a cursor to the statement and params it was issued for
+export function fingerprintQuery(sql: string, params?: unknown[]): string {
+  return createHash("sha256")
+    .update(JSON.stringify([sql.trim(), params ?? []]))
+    .digest("base64url")
+    .substring(0, 16);
+}
+
+export function encodeCursor(offset: number, fingerprint: string): string {
+  const cursor: QueryCursor = { offset, fingerprint };
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+export function decodeCursor(cursor: string, fingerprint: string): number {
+  let decoded: QueryCursor;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    throw new Error("Invalid cursor");
+  }
+  if (!Number.isInteger(decoded?.offset) || decoded.offset < 0) {
+    throw new Error("Invalid cursor");
+  }
+  if (decoded.fingerprint !== fingerprint) {
+    throw new Error("Cursor does not belong to this query. Pass the same sql_stmt and params that returned it.");
+  }
+  return decoded.offset;
+}
+
+// Cursors skip rows by offset, which only yields consistent pages when the rows are
+// sorted. ORDER BY inside a subquery or window function does not count.
+export function hasTopLevelOrderBy(sql: string): boolean {
+  const tokens = tokenize(sql);
+  let depth = 0;
+  return tokens.some((token, index) => {
+    if (token.type === "punct" && token.value === "(") {
+      depth++;
+    } else if (token.type === "punct" && token.value === ")") {
+      depth--;
+    }
+    return depth === 0 && isWord(token, "ORDER") && isWord(tokens[index + 1], "BY");
+  });
+}
+
+// Approximate size of a row once serialized into the tool response
+export function rowSize(row: unknown): number {
+  return Buffer.byteLength(JSON.stringify(row) ?? "", "utf8");
+}
@@ -0,0 +1,72 @@
+import { z } from "zod";
+
+export const sqlParamSchema = z.union([
+  z.string(),
+  z.number(),
+  z.boolean(),
+  z.null(),
+  z.array(z.number()).describe("Float array, bound as a VECTOR literal such as '[0.1,0.2]'"),
+  z.object({ json: z.any() }).strict().describe("Any JSON value, bound as a JSON document"),
+]);
+
+export type SqlParam = z.infer<typeof sqlParamSchema>;
+
+export const statementParamsSchema = z.array(sqlParamSchema);
+
+// Flat list for a single statement, or one list (or null) per statement when sql_stmts is an
+// array; resolveExecuteParams decides which from the statement count
+export const executeParamsSchema = z.union([
+  statementParamsSchema,
+  z.array(statementParamsSchema.nullable()),
+]);
+
+export type DriverValue = string | number | null;
+
+// Converts a typed tool parameter into a value mysql2 can bind
+export function toDriverValue(param: SqlParam): DriverValue {
+  if (param === null || typeof param === "string" || typeof param === "number") {
+    return param;
+  }
+  if (typeof param === "boolean") {
+    return param ? 1 : 0;
+  }
+  if (Array.isArray(param)) {
+    return `[${param.join(",")}]`;
+  }
+  return JSON.stringify(param.json ?? null);
+}
+
+export function toDriverParams(params: SqlParam[]): DriverValue[] {
+  return params.map(toDriverValue);
+}
+
+// Normalizes db_execute params into one bound-value list per statement. A float array is
+// also a valid value (a vector), so the shape alone is ambiguous; the statement count
+// decides. params holds one list (or null) per statement only when sql_stmts is an array,
+// params has exactly one entry per statement and every entry is a list or null. Otherwise
+// it is the flat list of a single statement.
+export function resolveExecuteParams(
+  sqlStmts: string | string[],
+  params: z.infer<typeof executeParamsSchema> | undefined
+): Array<DriverValue[] | undefined> | undefined {
+  if (params === undefined) {
+    return undefined;
+  }
+
+  const statements = Array.isArray(sqlStmts) ? sqlStmts : [sqlStmts];
+  const perStatement = Array.isArray(sqlStmts)
+    && params.length === statements.length
+    && params.every((entry) => entry === null || Array.isArray(entry));
+  if (perStatement) {
+    return params.map((entry) => (entry === null ? undefined : toDriverParams(entry as SqlParam[])));
+  }
+
+  if (statements.length !== 1) {
+    throw new Error(`Expected ${statements.length} params entries (one list or null per statement) but got ${params.length}`);
+  }
+  const invalid = params.findIndex((param) => Array.isArray(param) && param.some((value) => typeof value !== "number"));
+  if (invalid !== -1) {
+    throw new Error(`params[${invalid}] must be a value; only float arrays (vectors) are allowed as arrays in a flat list`);
+  }
+  return [toDriverParams(params as SqlParam[])];
+}
@@ -0,0 +1,298 @@
+// Connection pools shared by credential, and the per-session state (current database,
+// session variables) applied to each pooled connection a session borrows
+import { createHash } from "crypto";
+import type { FieldPacket } from "mysql2";
+import mysql from "mysql2/promise";
+import type { TiDBConfig } from "./connector.js";
+import { quoteIdentifier } from "./schema.js";
+
+export type SessionVariableValue = string | number | null;
+
+export interface SessionState {
+  // Database selected with USE; undefined when none is selected
+  database?: string;
+  variables: Map<string, SessionVariableValue>;
+}
+
+export interface PoolLease {
+  readonly key: string;
+  readonly pool: mysql.Pool;
+  // Drops this reference; the pool is closed when no lease holds it anymore
+  release(): Promise<void>;
+}
+
+export interface PoolStats {
+  key: string;
+  references: number;
+}
+
+// Connections of all open pools: borrowed, waiting in the pool, and requests queued for one
+export interface PoolUsage {
+  pools: number;
+  active: number;
+  idle: number;
+  queued: number;
+}
+
+// Settings baked into a pool when it is created: credentials, TLS and the hooks that
+// pin time zone and read-only snapshots. Sessions differing only in database share a pool.
+const POOL_KEY_FIELDS: Array<keyof TiDBConfig> = [
+  "databaseUrl",
+  "host",
+  "port",
+  "username",
+  "password",
+  "tls",
+  "tlsCaPath",
+  "readOnly",
+  "timeZone",
+];
+
+// Hashed so that pool keys never carry a plaintext password
+export function poolKey(config: TiDBConfig): string {
+  const material = JSON.stringify(POOL_KEY_FIELDS.map((field) => config[field] ?? null));
+  return createHash("sha256").update(material).digest("hex").slice(0, 16);
+}
+
+// Connection lists of the callback pool a promise pool wraps. mysql2 (3.x) keeps them
+// private, so a list that is missing or changed shape counts as empty.
+type CorePoolList = "_allConnections" | "_freeConnections" | "_connectionQueue";
+
+function corePoolListLength(pool: mysql.Pool, list: CorePoolList): number {
+  const core: object | undefined = pool.pool;
+  const value: unknown = core && list in core ? (core as Record<CorePoolList, unknown>)[list] : undefined;
+  if (typeof value === "object" && value !== null && "length" in value && typeof value.length === "number") {
+    return value.length;
+  }
+  return 0;
+}
+
+interface PoolEntry {
+  pool: mysql.Pool;
+  references: number;
+  // Pending close of a pool nobody holds, cancelled when it is acquired again
+  closeTimer?: NodeJS.Timeout;
+}
+
+export class PoolRegistry {
+  private readonly entries = new Map<string, PoolEntry>();
+
+  // idleMs keeps unreferenced pools open for a while, for callers that acquire and
+  // release a pool on every request; by default they are closed right away
+  constructor(private readonly idleMs: number = 0) {}
+
+  acquire(config: TiDBConfig, create: (config: TiDBConfig) => mysql.Pool): PoolLease {
+    const key = poolKey(config);
+    let entry = this.entries.get(key);
+    if (!entry) {
+      entry = { pool: create(config), references: 0 };
+      this.entries.set(key, entry);
+    }
+    clearTimeout(entry.closeTimer);
+    entry.closeTimer = undefined;
+    entry.references++;
+
+    let released = false;
+    const pool = entry.pool;
+    return {
+      key,
+      pool,
+      release: async () => {
+        if (released) {
+          return;
+        }
+        released = true;
+        const current = this.entries.get(key);
+        if (!current || current.pool !== pool) {
+          return;
+        }
+        current.references--;
+        if (current.references > 0) {
+          return;
+        }
+        if (this.idleMs > 0) {
+          current.closeTimer = setTimeout(() => {
+            this.close(key, current).catch((error) => {
+              console.error("Failed to close idle connection pool:", error);
+            });
+          }, this.idleMs);
+          current.closeTimer.unref();
+          return;
+        }
+        await this.close(key, current);
+      },
+    };
+  }
+
+  stats(): PoolStats[] {
+    return [...this.entries.entries()].map(([key, entry]) => ({ key, references: entry.references }));
+  }
+
+  usage(): PoolUsage {
+    const usage: PoolUsage = { pools: this.entries.size, active: 0, idle: 0, queued: 0 };
+    for (const { pool } of this.entries.values()) {
+      const all = corePoolListLength(pool, "_allConnections");
+      const free = corePoolListLength(pool, "_freeConnections");
+      usage.active += Math.max(all - free, 0);
+      usage.idle += free;
+      usage.queued += corePoolListLength(pool, "_connectionQueue");
+    }
+    return usage;
+  }
+
+  // Ends every pool, whether or not a lease still holds it, when the server shuts down
+  async closeAll(): Promise<void> {
+    const entries = [...this.entries.values()];
+    this.entries.clear();
+    await Promise.all(entries.map((entry) => {
+      clearTimeout(entry.closeTimer);
+      return entry.pool.end();
+    }));
+  }
+
+  private async close(key: string, entry: PoolEntry): Promise<void> {
+    if (this.entries.get(key) === entry && entry.references === 0) {
+      this.entries.delete(key);
+      await entry.pool.end();
+    }
+  }
+}
+
+const VARIABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// Variables the server itself relies on: tidb_snapshot enforces read-only mode and
+// time_zone must match the zone TIMESTAMP values are labelled with
+const RESERVED_VARIABLES = new Set(["tidb_snapshot", "time_zone"]);
+
+export function validateSessionVariable(name: string): string {
+  const normalized = name.replace(/^@@(session\.)?/i, "").toLowerCase();
+  if (!VARIABLE_NAME_PATTERN.test(normalized)) {
+    throw new Error(`Invalid session variable name: ${name}`);
+  }
+  if (RESERVED_VARIABLES.has(normalized)) {
+    throw new Error(`${normalized} is managed by the server and cannot be set`);
+  }
+  return normalized;
+}
+
+export interface AppliedState {
+  database?: string;
+  variables: Map<string, SessionVariableValue>;
+  timeZone?: string;
+}
+
+// What each pooled connection currently has applied, whichever session set it.
+// Keyed by the underlying connection, which outlives the promise wrappers.
+const appliedStates = new WeakMap<object, AppliedState>();
+
+// Borrowing a connection that was left on another database by a session without one;
+// each attempt destroys the connection it got, and the last one gives up rather than hand it over
+const MAX_DATABASE_RETRIES = 3;
+
+// SQL that brings a connection from its applied state to the session's, or null when they match
+export function sessionStateSql(applied: AppliedState, desired: SessionState): { statements: string[]; params: SessionVariableValue[] } | null {
+  const statements: string[] = [];
+  const params: SessionVariableValue[] = [];
+
+  if (desired.database !== undefined && desired.database !== applied.database) {
+    statements.push(`USE ${quoteIdentifier(desired.database)}`);
+  }
+
+  const assignments: string[] = [];
+  for (const name of applied.variables.keys()) {
+    if (!desired.variables.has(name)) {
+      assignments.push(`@@SESSION.${name} = DEFAULT`);
+    }
+  }
+  for (const [name, value] of desired.variables) {
+    if (!applied.variables.has(name) || applied.variables.get(name) !== value) {
+      assignments.push(`@@SESSION.${name} = ?`);
+      params.push(value);
+    }
+  }
+  if (assignments.length > 0) {
+    statements.push(`SET ${assignments.join(", ")}`);
+  }
+
+  return statements.length > 0 ? { statements, params } : null;
+}
+
+// The subset of mysql.Pool the connector uses, running every statement on a
+// connection that carries this session's database and variables
+export class SessionPool {
+  // readOnly pins every borrowed connection to a snapshot read of the current time, so
+  // TiDB itself rejects writes ("can not execute write statement when 'tidb_snapshot' is set").
+  // timeZone is the session time_zone TIMESTAMP values are rendered in; null leaves it unset.
+  constructor(
+    private readonly lease: () => PoolLease,
+    private readonly state: SessionState,
+    private readonly readOnly: boolean = false,
+    private readonly timeZone: string | null = null
+  ) {}
+
+  async getConnection(): Promise<mysql.PoolConnection> {
+    for (let attempt = 0; ; attempt++) {
+      const connection = await this.lease().pool.getConnection();
+      const core = connection.connection as object;
+      const applied: AppliedState = appliedStates.get(core) ?? { variables: new Map() };
+
+      // USE cannot be undone, so a session without a database needs a connection without one
+      if (this.state.database === undefined && applied.database !== undefined) {
+        connection.destroy();
+        if (attempt < MAX_DATABASE_RETRIES) {
+          continue;
+        }
+        throw new Error("No pooled connection without a current database is available; try again or switch to a database first");
+      }
+
+      const sql = sessionStateSql(applied, this.state);
+      const setTimeZone = this.timeZone !== null && this.timeZone !== applied.timeZone;
+      try {
+        if (sql) {
+          for (const statement of sql.statements) {
+            await connection.query(statement, statement.startsWith("SET") ? sql.params : []);
+          }
+        }
+        // Pools are shared by credential, so connections may come from a connector with another zone
+        if (setTimeZone) {
+          await connection.query("SET time_zone = ?", [this.timeZone]);
+        }
+        if (sql || setTimeZone) {
+          appliedStates.set(core, {
+            database: this.state.database ?? applied.database,
+            variables: new Map(this.state.variables),
+            timeZone: this.timeZone ?? applied.timeZone,
+          });
+        }
+        // Without the snapshot the read-only guard would fail open, so the connection is not used
+        if (this.readOnly) {
+          await connection.query("SET @@tidb_snapshot = NOW(6)");
+        }
+      } catch (error) {
+        // The connection may be half-updated; do not hand it to anyone else
+        appliedStates.delete(core);
+        connection.destroy();
+        throw error;
+      }
+      return connection;
+    }
+  }
+
+  async execute(sql: string, params?: any[]): Promise<[any, FieldPacket[]]> {
+    const connection = await this.getConnection();
+    try {
+      return params === undefined ? await connection.execute(sql) : await connection.execute(sql, params);
+    } finally {
+      connection.release();
+    }
+  }
+
+  async query(sql: string, params?: any[]): Promise<[any, FieldPacket[]]> {
+    const connection = await this.getConnection();
+    try {
+      return (params === undefined ? await connection.query(sql) : await connection.query(sql, params)) as [any, FieldPacket[]];
+    } finally {
+      connection.release();
+    }
+  }
+}
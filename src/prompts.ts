@@ -0,0 +1,274 @@
+import { GetPromptResult, Prompt } from "@modelcontextprotocol/sdk/types.js";
+import { z, ZodRawShape, ZodTypeAny } from "zod";
+import { TiDBConnector } from "./connector.js";
+import { findDestructiveStatements } from "./destructive.js";
+import { renderMarkdownTable } from "./formatters.js";
+import { quoteIdentifier } from "./schema.js";
+import { classifySql, describeStatement, referencedTables, TableReference } from "./sql-classifier.js";
+
+export interface PromptContext {
+  connector: TiDBConnector;
+}
+
+export interface PromptDefinition<Shape extends ZodRawShape = ZodRawShape> {
+  name: string;
+  title: string;
+  description: string;
+  // MCP prompt arguments are always strings
+  argsSchema: Shape;
+  // Method syntax, as in ToolDefinition, so a prompt of any shape fits the PromptDefinition[] registry
+  handler(args: z.objectOutputType<Shape, ZodTypeAny>, context: PromptContext): Promise<GetPromptResult>;
+}
+
+export function definePrompt<Shape extends ZodRawShape>(definition: PromptDefinition<Shape>): PromptDefinition<Shape> {
+  return definition;
+}
+
+// Tables whose DDL is embedded in a prompt; the rest are only named
+const MAX_EMBEDDED_TABLES = 10;
+
+const SAMPLE_ROWS = 5;
+
+function userPrompt(description: string, text: string): GetPromptResult {
+  return {
+    description,
+    messages: [{ role: "user", content: { type: "text", text } }],
+  };
+}
+
+function errorText(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function qualifiedName({ database, table }: TableReference): string {
+  return database ? `${database}.${table}` : table;
+}
+
+async function tableDdlSection(connector: TiDBConnector, tables: TableReference[]): Promise<string> {
+  if (tables.length === 0) {
+    return "_No tables referenced._";
+  }
+  const currentDatabase = await connector.currentDatabase();
+  const sections: string[] = [];
+  for (const reference of tables.slice(0, MAX_EMBEDDED_TABLES)) {
+    const database = reference.database ?? currentDatabase;
+    if (!database) {
+      sections.push(`-- ${qualifiedName(reference)}: no database selected`);
+      continue;
+    }
+    try {
+      const schema = await connector.getTableSchema(database, reference.table);
+      sections.push(`-- ${database}.${reference.table}\n${schema.ddl};`);
+    } catch (error) {
+      // The statement may create the table, or a name may not be a table at all
+      sections.push(`-- ${database}.${reference.table}: ${errorText(error)}`);
+    }
+  }
+  if (tables.length > MAX_EMBEDDED_TABLES) {
+    sections.push(`-- Not shown: ${tables.slice(MAX_EMBEDDED_TABLES).map(qualifiedName).join(", ")}`);
+  }
+  return "```sql\n" + sections.join("\n\n") + "\n```";
+}
+
+async function explainSection(connector: TiDBConnector, sql: string): Promise<string> {
+  try {
+    return renderMarkdownTable(await connector.queryResult(`EXPLAIN ${sql}`));
+  } catch (error) {
+    return `EXPLAIN failed: ${errorText(error)}`;
+  }
+}
+
+export const promptDefinitions: PromptDefinition[] = [
+  definePrompt({
+    name: "optimize_query",
+    title: "Explain and Optimize Query",
+    description: "Explain a query's execution plan and suggest optimizations, with the EXPLAIN output and DDL of the referenced tables embedded",
+    argsSchema: {
+      sql: z.string().describe("The query to explain and optimize"),
+    },
+    handler: async ({ sql }, { connector }) => {
+      const plan = await explainSection(connector, sql);
+      const ddl = await tableDdlSection(connector, referencedTables(sql));
+      return userPrompt("Explain and optimize a TiDB query", [
+        "Explain how TiDB executes the query below and suggest how to make it faster.",
+        "",
+        "## Query",
+        "```sql",
+        sql,
+        "```",
+        "",
+        "## EXPLAIN output",
+        plan,
+        "",
+        "## Referenced tables",
+        ddl,
+        "",
+        "## What to cover",
+        "1. Walk through the plan from the leaf operators up, noting which run on TiKV (cop[tikv]), TiFlash (cop[tiflash]/mpp) or TiDB (root).",
+        "2. Point out full table scans, large estRows, missing or unused indexes, and expensive joins or sorts.",
+        "3. Suggest concrete changes: indexes (with CREATE INDEX statements), query rewrites, optimizer hints or TiFlash replicas.",
+        "4. Say which suggestions need EXPLAIN ANALYZE or fresh statistics (ANALYZE TABLE) to confirm.",
+      ].join("\n"));
+    },
+  }),
+  definePrompt({
+    name: "design_vector_table",
+    title: "Design Vector Search Table",
+    description: "Design a TiDB table, vector index and queries for a vector search use case",
+    argsSchema: {
+      use_case: z.string().describe("What will be searched, e.g. 'support articles by semantic similarity'"),
+      dimensions: z.string().optional().describe("Embedding dimensions, e.g. 1536"),
+      distance_metric: z.string().optional().describe("cosine (default) or l2"),
+    },
+    handler: async ({ use_case, dimensions, distance_metric }, { connector }) => {
+      const version = await connector.serverVersion();
+      const database = await connector.currentDatabase();
+      const tables = database ? await connector.listTables(database) : [];
+      const metric = distance_metric?.toLowerCase() === "l2" ? "L2" : "COSINE";
+
+      return userPrompt("Design a TiDB vector search table", [
+        `Design a TiDB table for this vector search use case: ${use_case}`,
+        "",
+        "## Environment",
+        `- TiDB version: ${version}`,
+        `- Current database: ${database ?? "(none)"}`,
+        `- Existing tables: ${tables.length > 0 ? tables.map((table) => table.table).join(", ") : "(none)"}`,
+        `- Embedding dimensions: ${dimensions ?? "not decided; recommend a value for common embedding models"}`,
+        `- Distance metric: ${metric.toLowerCase()}`,
+        "",
+        "## TiDB vector search reference",
+        "- Column type: `VECTOR(D)` stores D float32 values (D up to 16383); plain `VECTOR` allows any dimension but cannot be indexed.",
+        `- Index: \`VECTOR INDEX idx_embedding ((VEC_${metric}_DISTANCE(embedding))) USING HNSW\`, declared in CREATE TABLE or added with ALTER TABLE ... ADD VECTOR INDEX.`,
+        "- Vector indexes are built on TiFlash, so the table needs `ALTER TABLE ... SET TIFLASH REPLICA 1` (TiDB Cloud Serverless adds one automatically).",
+        `- k-NN query: \`ORDER BY VEC_${metric}_DISTANCE(embedding, ?) LIMIT k\`; the index is only used when the ORDER BY matches the indexed distance function and there is a LIMIT.`,
+        "- Vectors can be bound as strings such as '[0.1,0.2,0.3]'.",
+        "",
+        "## Deliverables",
+        "1. A CREATE TABLE statement with a primary key, the source content or a reference to it, useful metadata columns for filtering, and the vector column and index.",
+        "2. Example INSERT and k-NN SELECT statements using ? placeholders.",
+        "3. Notes on filtering (pre- vs post-filtering), chunking, and keeping embeddings in sync with their source.",
+      ].join("\n"));
+    },
+  }),
+  definePrompt({
+    name: "review_migration",
+    title: "Review Migration",
+    description: "Review schema migration SQL for TiDB compatibility, online DDL behaviour, data loss and rollback, with the current DDL of affected tables embedded",
+    argsSchema: {
+      sql: z.string().describe("The migration SQL, one or more statements separated by semicolons"),
+    },
+    handler: async ({ sql }, { connector }) => {
+      const statements = classifySql(sql);
+      const destructive = findDestructiveStatements(statements.map((statement) => statement.text));
+      const tables = referencedTables(sql);
+      const ddl = await tableDdlSection(connector, tables);
+
+      const estimates: string[] = [];
+      for (const reference of tables.slice(0, MAX_EMBEDDED_TABLES)) {
+        try {
+          const rows = await connector.estimateRowCount(reference.database, reference.table);
+          estimates.push(`- ${qualifiedName(reference)}: ${rows === null ? "does not exist yet" : `~${rows} rows`}`);
+        } catch (error) {
+          estimates.push(`- ${qualifiedName(reference)}: unknown (${errorText(error)})`);
+        }
+      }
+
+      const statementLines = statements.map((statement, index) => {
+        const warning = destructive.find((found) => found.statement === statement.text);
+        return `${index + 1}. ${describeStatement(statement)}${warning ? ` (destructive: ${warning.reason})` : ""}`;
+      });
+
+      return userPrompt("Review a TiDB schema migration", [
+        "Review the migration below before it runs against TiDB.",
+        "",
+        "## Migration",
+        "```sql",
+        sql,
+        "```",
+        "",
+        "## Statements",
+        statementLines.length > 0 ? statementLines.join("\n") : "_No statements found._",
+        "",
+        "## Current schema of affected tables",
+        ddl,
+        "",
+        "## Table sizes",
+        estimates.length > 0 ? estimates.join("\n") : "_No tables referenced._",
+        "",
+        `TiDB version: ${await connector.serverVersion()}`,
+        "",
+        "## What to check",
+        "1. Data loss: dropped tables or columns, narrowing type changes, DELETE/UPDATE without WHERE.",
+        "2. Online DDL cost in TiDB: ADD INDEX backfills every row; MODIFY COLUMN that changes the stored type rewrites the table; estimate impact from the table sizes above.",
+        "3. TiDB specifics: DDL commits implicitly and cannot be rolled back in a transaction; check for unsupported syntax and AUTO_INCREMENT vs AUTO_RANDOM on hot tables.",
+        "4. Compatibility with application code still running against the old schema.",
+        "5. A rollback plan for each step, and a safer ordering or split if needed.",
+      ].join("\n"));
+    },
+  }),
+  definePrompt({
+    name: "summarize_table",
+    title: "Summarize Table",
+    description: "Summarize what a table stores, with its schema, size estimate and a few sample rows embedded",
+    argsSchema: {
+      table: z.string().describe("Table name"),
+      database: z.string().optional().describe("Database name (defaults to the current database)"),
+    },
+    handler: async ({ table, database }, { connector }) => {
+      const resolvedDatabase = database ?? await connector.currentDatabase();
+      if (!resolvedDatabase) {
+        throw new Error("No database selected. Pass the database argument.");
+      }
+
+      const schema = await connector.getTableSchema(resolvedDatabase, table);
+      const rows = await connector.estimateRowCount(resolvedDatabase, table);
+
+      let sample: string;
+      try {
+        sample = renderMarkdownTable(await connector.queryResult(
+          `SELECT * FROM ${quoteIdentifier(resolvedDatabase)}.${quoteIdentifier(table)} LIMIT ${SAMPLE_ROWS}`
+        ));
+      } catch (error) {
+        sample = `Sampling failed: ${errorText(error)}`;
+      }
+
+      return userPrompt(`Summarize ${resolvedDatabase}.${table}`, [
+        `Summarize the table ${resolvedDatabase}.${table} for someone new to this database.`,
+        "",
+        "## DDL",
+        "```sql",
+        `${schema.ddl};`,
+        "```",
+        "",
+        `Estimated rows: ${rows ?? "unknown"}`,
+        "",
+        `## Sample rows (up to ${SAMPLE_ROWS})`,
+        sample,
+        "",
+        "## What to cover",
+        "1. What each row represents and what the table is likely used for.",
+        "2. The meaning of each column, noting keys, likely relationships to other tables and enum-like columns.",
+        "3. Indexes and the queries they support.",
+        "4. Anything unusual: nullable keys, missing indexes, oversized types or data quality issues visible in the sample.",
+      ].join("\n"));
+    },
+  }),
+];
+
+export function findPrompt(name: string): PromptDefinition | undefined {
+  return promptDefinitions.find((prompt) => prompt.name === name);
+}
+
+// Shape of a prompt in the prompts/list response
+export function toListedPrompt(prompt: PromptDefinition): Prompt {
+  return {
+    name: prompt.name,
+    title: prompt.title,
+    description: prompt.description,
+    arguments: Object.entries(prompt.argsSchema as ZodRawShape).map(([name, schema]) => ({
+      name,
+      description: schema.description,
+      required: !schema.isOptional(),
+    })),
+  };
+}
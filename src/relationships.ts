@@ -0,0 +1,169 @@
+import { DatabaseSchema, SchemaColumn, SchemaTable } from "./schema.js";
+
+export type RelationshipSource = "foreign_key" | "naming";
+
+export interface Relationship {
+  // The referencing (child) side
+  table: string;
+  columns: string[];
+  referencedTable: string;
+  referencedColumns: string[];
+  source: RelationshipSource;
+  // Many child rows per parent, or at most one when the child columns are unique
+  cardinality: "many-to-one" | "one-to-one";
+  // Whether a child row may exist without a parent
+  optional: boolean;
+  name?: string;
+}
+
+export type DiagramColumns = "all" | "keys" | "none";
+
+function primaryKey(table: SchemaTable): string[] {
+  return table.indexes.find((index) => index.kind === "primary")?.columns ?? [];
+}
+
+function isUnique(table: SchemaTable, columns: string[]): boolean {
+  return table.indexes.some((index) =>
+    index.unique &&
+    index.columns.length === columns.length &&
+    index.columns.every((column) => columns.includes(column))
+  );
+}
+
+function findColumn(table: SchemaTable, name: string): SchemaColumn | undefined {
+  return table.columns.find((column) => column.name === name);
+}
+
+function describeLink(
+  table: SchemaTable,
+  columns: string[]
+): Pick<Relationship, "cardinality" | "optional"> {
+  return {
+    cardinality: isUnique(table, columns) ? "one-to-one" : "many-to-one",
+    optional: columns.some((name) => findColumn(table, name)?.nullable ?? true),
+  };
+}
+
+// Table names a `<prefix>_id` column may point at: user_id -> user, users; category_id -> categories
+function candidateTableNames(prefix: string): string[] {
+  const names = [prefix, `${prefix}s`, `${prefix}es`];
+  if (/[^aeiou]y$/i.test(prefix)) {
+    names.push(`${prefix.slice(0, -1)}ies`);
+  }
+  return names.map((name) => name.toLowerCase());
+}
+
+// Guesses links from `<table>_id` columns that point at a single-column primary key
+function inferFromNames(schema: DatabaseSchema, declared: Relationship[]): Relationship[] {
+  const tablesByName = new Map(schema.tables.map((table) => [table.table.toLowerCase(), table]));
+  const declaredColumns = new Set(declared.flatMap((link) => link.columns.map((column) => `${link.table}.${column}`)));
+  const inferred: Relationship[] = [];
+
+  for (const table of schema.tables) {
+    for (const column of table.columns) {
+      const match = /^(.+)_id$/i.exec(column.name);
+      if (!match || declaredColumns.has(`${table.table}.${column.name}`)) {
+        continue;
+      }
+      const target = candidateTableNames(match[1])
+        .map((name) => tablesByName.get(name))
+        .find((candidate) => candidate !== undefined && primaryKey(candidate).length === 1);
+      if (!target) {
+        continue;
+      }
+      const referencedColumns = primaryKey(target);
+      // A table's own primary key does not reference itself
+      if (target === table && referencedColumns[0] === column.name) {
+        continue;
+      }
+      inferred.push({
+        table: table.table,
+        columns: [column.name],
+        referencedTable: target.table,
+        referencedColumns,
+        source: "naming",
+        ...describeLink(table, [column.name]),
+      });
+    }
+  }
+  return inferred;
+}
+
+export function inferRelationships(schema: DatabaseSchema, options: { fromNames?: boolean } = {}): Relationship[] {
+  const tables = new Map(schema.tables.map((table) => [table.table, table]));
+
+  const declared: Relationship[] = schema.foreignKeys
+    // Links to other databases cannot be drawn against this schema
+    .filter((key) => key.referencedDatabase === schema.database && tables.has(key.table))
+    .map((key) => ({
+      table: key.table,
+      columns: key.columns,
+      referencedTable: key.referencedTable,
+      referencedColumns: key.referencedColumns,
+      source: "foreign_key",
+      name: key.name,
+      ...describeLink(tables.get(key.table)!, key.columns),
+    }));
+
+  return options.fromNames ? [...declared, ...inferFromNames(schema, declared)] : declared;
+}
+
+// Mermaid identifiers allow letters, digits, underscores and hyphens only
+function mermaidName(name: string): string {
+  const safe = name.replace(/[^A-Za-z0-9_-]/g, "_");
+  return /^[A-Za-z_]/.test(safe) ? safe : `_${safe}`;
+}
+
+// varchar(255) -> varchar, decimal(10,2) unsigned -> decimal
+function mermaidType(type: string): string {
+  return mermaidName(type.split(/[\s(]/)[0] || "unknown");
+}
+
+function columnKeys(table: SchemaTable, column: string, foreignKeyColumns: Set<string>): string[] {
+  const keys: string[] = [];
+  if (primaryKey(table).includes(column)) {
+    keys.push("PK");
+  }
+  if (foreignKeyColumns.has(`${table.table}.${column}`)) {
+    keys.push("FK");
+  }
+  if (!keys.includes("PK") && isUnique(table, [column])) {
+    keys.push("UK");
+  }
+  return keys;
+}
+
+function relationshipLine(link: Relationship): string {
+  // Child side: zero-or-one or zero-or-many; parent side: exactly one, or zero-or-one when optional
+  const left = link.cardinality === "one-to-one" ? "|o" : "}o";
+  const right = link.optional ? "o|" : "||";
+  // Dotted lines mark relationships guessed from column names
+  const line = link.source === "naming" ? ".." : "--";
+  return `    ${mermaidName(link.table)} ${left}${line}${right} ${mermaidName(link.referencedTable)} : "${link.columns.join(", ")}"`;
+}
+
+export function toMermaidErDiagram(
+  schema: DatabaseSchema,
+  relationships: Relationship[],
+  columns: DiagramColumns = "keys"
+): string {
+  const foreignKeyColumns = new Set(relationships.flatMap((link) => link.columns.map((column) => `${link.table}.${column}`)));
+  const lines = ["erDiagram"];
+
+  for (const table of schema.tables) {
+    const attributes = columns === "none" ? [] : table.columns
+      .map((column) => ({ column, keys: columnKeys(table, column.name, foreignKeyColumns) }))
+      .filter(({ keys }) => columns === "all" || keys.length > 0)
+      .map(({ column, keys }) =>
+        `        ${mermaidType(column.type)} ${mermaidName(column.name)}${keys.length > 0 ? ` ${keys.join(", ")}` : ""}`
+      );
+    if (attributes.length === 0) {
+      lines.push(`    ${mermaidName(table.table)}`);
+    } else {
+      lines.push(`    ${mermaidName(table.table)} {`, ...attributes, "    }");
+    }
+  }
+
+  lines.push(...relationships.map(relationshipLine));
+  return lines.join("\n");
+}
@@ -0,0 +1,125 @@
+import { ReadResourceResult, Resource, ResourceTemplate } from "@modelcontextprotocol/sdk/types.js";
+import { TiDBConnector } from "./connector.js";
+import { isSystemSchema } from "./schema.js";
+
+export const RESOURCE_SCHEME = "tidb";
+
+// Cap on the table resources returned by resources/list; the table template still reaches the rest
+export const MAX_LISTED_TABLES = 1000;
+
+const MIME_TYPE = "application/json";
+
+export const DATABASE_TEMPLATE: ResourceTemplate = {
+  name: "database",
+  title: "Database",
+  uriTemplate: `${RESOURCE_SCHEME}://{database}`,
+  description: "Tables in a TiDB database, with their type, estimated row count and resource URI",
+  mimeType: MIME_TYPE,
+};
+
+export const TABLE_TEMPLATE: ResourceTemplate = {
+  name: "table",
+  title: "Table Schema",
+  uriTemplate: `${RESOURCE_SCHEME}://{database}/{table}`,
+  description: "DDL (SHOW CREATE TABLE) plus column and index metadata for a TiDB table or view",
+  mimeType: MIME_TYPE,
+};
+
+export const resourceTemplates: ResourceTemplate[] = [DATABASE_TEMPLATE, TABLE_TEMPLATE];
+
+export function databaseUri(database: string): string {
+  return `${RESOURCE_SCHEME}://${encodeURIComponent(database)}`;
+}
+
+export function tableUri(database: string, table: string): string {
+  return `${databaseUri(database)}/${encodeURIComponent(table)}`;
+}
+
+export interface SchemaUri {
+  database: string;
+  table?: string;
+}
+
+export function parseSchemaUri(uri: string): SchemaUri | null {
+  const match = new RegExp(`^${RESOURCE_SCHEME}://([^/]+)(?:/([^/]+))?/?$`).exec(uri);
+  if (!match) {
+    return null;
+  }
+  try {
+    return {
+      database: decodeURIComponent(match[1]),
+      ...(match[2] !== undefined ? { table: decodeURIComponent(match[2]) } : {}),
+    };
+  } catch {
+    return null;
+  }
+}
+
+export async function listDatabaseResources(connector: TiDBConnector): Promise<Resource[]> {
+  const databases = (await connector.showDatabases())
+    .map((row) => Object.values(row)[0] as string)
+    .filter((database) => !isSystemSchema(database));
+  return databases.map((database) => ({
+    uri: databaseUri(database),
+    name: database,
+    title: `Database ${database}`,
+    mimeType: MIME_TYPE,
+  }));
+}
+
+export async function listTableResources(connector: TiDBConnector): Promise<Resource[]> {
+  const tables = await connector.listTables();
+  return tables.slice(0, MAX_LISTED_TABLES).map((table) => ({
+    uri: tableUri(table.database, table.table),
+    name: `${table.database}.${table.table}`,
+    title: `${table.type === "VIEW" ? "View" : "Table"} ${table.database}.${table.table}`,
+    ...(table.comment ? { description: table.comment } : {}),
+    mimeType: MIME_TYPE,
+  }));
+}
+
+export async function listSchemaResources(connector: TiDBConnector): Promise<Resource[]> {
+  return [...await listDatabaseResources(connector), ...await listTableResources(connector)];
+}
+
+// Completion for the {database} and {table} template variables
+export async function completeDatabaseName(connector: TiDBConnector, prefix: string): Promise<string[]> {
+  const resources = await listDatabaseResources(connector);
+  return resources.map((resource) => resource.name).filter((name) => name.startsWith(prefix));
+}
+
+export async function completeTableName(connector: TiDBConnector, prefix: string, database?: string): Promise<string[]> {
+  if (!database) {
+    return [];
+  }
+  const tables = await connector.listTables(database);
+  return tables.map((table) => table.table).filter((name) => name.startsWith(prefix));
+}
+
+export async function readSchemaResource(connector: TiDBConnector, uri: string): Promise<ReadResourceResult> {
+  const parsed = parseSchemaUri(uri);
+  if (!parsed) {
+    throw new Error(`Unknown resource URI: ${uri}. Expected ${TABLE_TEMPLATE.uriTemplate} or ${DATABASE_TEMPLATE.uriTemplate}`);
+  }
+
+  let content: unknown;
+  if (parsed.table === undefined) {
+    const tables = await connector.listTables(parsed.database);
+    content = {
+      database: parsed.database,
+      tables: tables.map((table) => ({
+        name: table.table,
+        type: table.type,
+        rows_estimate: table.rowsEstimate,
+        comment: table.comment,
+        uri: tableUri(table.database, table.table),
+      })),
+    };
+  } else {
+    content = await connector.getTableSchema(parsed.database, parsed.table);
+  }
+
+  return {
+    contents: [{ uri, mimeType: MIME_TYPE, text: JSON.stringify(content, null, 2) }],
+  };
+}
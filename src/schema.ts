@@ -0,0 +1,214 @@
+// Schemas that are part of every TiDB cluster and rarely useful as context
+export const SYSTEM_SCHEMAS = ["INFORMATION_SCHEMA", "PERFORMANCE_SCHEMA", "METRICS_SCHEMA", "mysql", "sys"];
+
+export function isSystemSchema(database: string): boolean {
+  return SYSTEM_SCHEMAS.some((name) => name.toLowerCase() === database.toLowerCase());
+}
+
+export interface TableSummary {
+  database: string;
+  table: string;
+  type: string;
+  rowsEstimate: number | null;
+  comment: string;
+}
+
+export interface SchemaColumn {
+  name: string;
+  type: string;
+  nullable: boolean;
+  default: string | null;
+  key: string;
+  extra: string;
+  comment: string;
+}
+
+export type IndexKind = "primary" | "unique" | "index" | "vector" | "fulltext";
+
+export interface SchemaIndex {
+  name: string;
+  kind: IndexKind;
+  unique: boolean;
+  type: string;
+  // Column names, or the expression for expression indexes
+  columns: string[];
+}
+
+export interface TableSchema {
+  database: string;
+  table: string;
+  type: string;
+  comment: string;
+  ddl: string;
+  columns: SchemaColumn[];
+  indexes: SchemaIndex[];
+}
+
+// information_schema.STATISTICS returns one row per indexed column
+export interface IndexColumnRow {
+  name: string;
+  nonUnique: number | string;
+  seq: number | string;
+  column: string | null;
+  expression: string | null;
+  type: string;
+}
+
+// VECTOR and FULLTEXT indexes as declared in SHOW CREATE TABLE output, e.g.
+//   VECTOR INDEX `idx_embedding`((VEC_COSINE_DISTANCE(`embedding`))) USING HNSW
+const SPECIAL_INDEX_PATTERN = /^\s*(VECTOR|FULLTEXT)\s+(?:INDEX|KEY)\s+`((?:[^`]|``)+)`\s*(\(.*)$/gim;
+
+// Content of the parenthesized group `text` starts with
+function parenthesized(text: string): string {
+  let depth = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === "(") {
+      depth++;
+    } else if (text[i] === ")" && --depth === 0) {
+      return text.slice(1, i);
+    }
+  }
+  return text.slice(1);
+}
+
+function specialIndexes(ddl: string): Map<string, { kind: IndexKind; definition: string }> {
+  const found = new Map<string, { kind: IndexKind; definition: string }>();
+  for (const match of ddl.matchAll(SPECIAL_INDEX_PATTERN)) {
+    found.set(match[2].replace(/``/g, "`"), {
+      kind: match[1].toLowerCase() as IndexKind,
+      definition: parenthesized(match[3]),
+    });
+  }
+  return found;
+}
+
+function indexKind(name: string, unique: boolean, type: string): IndexKind {
+  if (name.toUpperCase() === "PRIMARY") {
+    return "primary";
+  }
+  if (/^(HNSW|VECTOR)$/i.test(type)) {
+    return "vector";
+  }
+  if (/^FULLTEXT$/i.test(type)) {
+    return "fulltext";
+  }
+  return unique ? "unique" : "index";
+}
+
+// Groups STATISTICS rows into indexes. The DDL identifies vector and full-text
+// indexes, and supplies any that STATISTICS does not list.
+export function groupIndexColumns(rows: IndexColumnRow[], ddl = ""): SchemaIndex[] {
+  const special = specialIndexes(ddl);
+  const indexes = new Map<string, SchemaIndex & { parts: Array<{ seq: number; column: string }> }>();
+  for (const row of rows) {
+    let index = indexes.get(row.name);
+    if (!index) {
+      const unique = Number(row.nonUnique) === 0;
+      const kind = special.get(row.name)?.kind ?? indexKind(row.name, unique, row.type);
+      index = { name: row.name, kind, unique, type: row.type, columns: [], parts: [] };
+      indexes.set(row.name, index);
+    }
+    index.parts.push({ seq: Number(row.seq), column: row.column ?? `(${row.expression ?? ""})` });
+  }
+  for (const [name, { kind, definition }] of special) {
+    if (!indexes.has(name)) {
+      indexes.set(name, { name, kind, unique: false, type: kind === "vector" ? "HNSW" : "FULLTEXT", columns: [], parts: [{ seq: 1, column: definition }] });
+    }
+  }
+  return [...indexes.values()].map(({ parts, ...index }) => ({
+    ...index,
+    columns: parts.sort((a, b) => a.seq - b.seq).map((part) => part.column),
+  }));
+}
+
+export function quoteIdentifier(identifier: string): string {
+  return `\`${identifier.replace(/`/g, "``")}\``;
+}
+
+export interface ForeignKey {
+  name: string;
+  database: string;
+  table: string;
+  columns: string[];
+  referencedDatabase: string;
+  referencedTable: string;
+  referencedColumns: string[];
+  onUpdate: string;
+  onDelete: string;
+}
+
+// information_schema.KEY_COLUMN_USAGE joined with REFERENTIAL_CONSTRAINTS, one row per column
+export interface ForeignKeyColumnRow {
+  name: string;
+  database: string;
+  table: string;
+  column: string;
+  referencedDatabase: string;
+  referencedTable: string;
+  referencedColumn: string;
+  seq: number | string;
+  onUpdate: string | null;
+  onDelete: string | null;
+}
+
+export function groupForeignKeyColumns(rows: ForeignKeyColumnRow[]): ForeignKey[] {
+  const keys = new Map<string, ForeignKey & { parts: Array<{ seq: number; column: string; referenced: string }> }>();
+  for (const row of rows) {
+    const id = `${row.database}.${row.table}.${row.name}`;
+    let key = keys.get(id);
+    if (!key) {
+      key = {
+        name: row.name,
+        database: row.database,
+        table: row.table,
+        columns: [],
+        referencedDatabase: row.referencedDatabase,
+        referencedTable: row.referencedTable,
+        referencedColumns: [],
+        onUpdate: row.onUpdate ?? "RESTRICT",
+        onDelete: row.onDelete ?? "RESTRICT",
+        parts: [],
+      };
+      keys.set(id, key);
+    }
+    key.parts.push({ seq: Number(row.seq), column: row.column, referenced: row.referencedColumn });
+  }
+  return [...keys.values()].map(({ parts, ...key }) => {
+    const ordered = parts.sort((a, b) => a.seq - b.seq);
+    return {
+      ...key,
+      columns: ordered.map((part) => part.column),
+      referencedColumns: ordered.map((part) => part.referenced),
+    };
+  });
+}
+
+export interface TiFlashReplica {
+  count: number;
+  available: boolean;
+  // Fraction of regions replicated, 0 to 1
+  progress: number;
+  locationLabels: string;
+}
+
+export interface TableDescription extends TableSchema {
+  primaryKey: { columns: string[]; clustered: boolean } | null;
+  foreignKeys: ForeignKey[];
+  rowsEstimate: number | null;
+  dataBytes: number | null;
+  indexBytes: number | null;
+  // null when the table has no TiFlash replica
+  tiflashReplica: TiFlashReplica | null;
+}
+
+export interface SchemaTable extends TableSummary {
+  columns: SchemaColumn[];
+  indexes: SchemaIndex[];
+}
+
+// Every table of a database in one snapshot, for relationship mapping
+export interface DatabaseSchema {
+  database: string;
+  tables: SchemaTable[];
+  foreignKeys: ForeignKey[];
+}
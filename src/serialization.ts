@@ -0,0 +1,160 @@
+import { ColumnInfo, ResultSet } from "./columns.js";
+
+export type BinaryEncoding = "base64" | "hex";
+
+export interface SerializationOptions {
+  // Offset applied to TIMESTAMP values, as `+HH:MM` / `-HH:MM`
+  timeZone: string;
+  binaryEncoding: BinaryEncoding;
+  // Binary values longer than this are cut off and annotated with their full size
+  maxBinaryBytes: number;
+}
+
+export const DEFAULT_SERIALIZATION_OPTIONS: SerializationOptions = {
+  timeZone: "+00:00",
+  binaryEncoding: "base64",
+  maxBinaryBytes: 1024,
+};
+
+// Accepts `Z`, `UTC` or a `±HH:MM` offset and returns the `±HH:MM` form, or null if invalid.
+// Named zones such as Asia/Tokyo are rejected: TIMESTAMP values are labelled with a fixed
+// offset, which a zone with daylight saving time does not have.
+export function normalizeTimeZone(timeZone: string): string | null {
+  if (/^(z|utc)$/i.test(timeZone)) {
+    return "+00:00";
+  }
+  const match = /^([+-])(\d{1,2}):?(\d{2})$/.exec(timeZone);
+  if (!match || Number(match[2]) > 14 || Number(match[3]) > 59) {
+    return null;
+  }
+  return `${match[1]}${match[2].padStart(2, "0")}:${match[3]}`;
+}
+
+// Exact numbers that a JavaScript number cannot hold without losing digits
+const EXACT_NUMERIC_STRING_TYPES = new Set(["BIGINT", "DECIMAL"]);
+const BINARY_TYPES = new Set(["BINARY", "VARBINARY", "TINYBLOB", "BLOB", "MEDIUMBLOB", "LONGBLOB", "GEOMETRY"]);
+
+function serializeBinary(value: Buffer, options: SerializationOptions): string {
+  const encoded = value.subarray(0, options.maxBinaryBytes).toString(options.binaryEncoding);
+  if (value.length <= options.maxBinaryBytes) {
+    return encoded;
+  }
+  return `${encoded}... (${value.length} bytes)`;
+}
+
+function serializeVector(value: unknown): unknown {
+  if (Array.isArray(value) || value instanceof Float32Array || value instanceof Float64Array) {
+    return Array.from(value as ArrayLike<number>);
+  }
+  const text = Buffer.isBuffer(value) ? value.toString("utf8") : value;
+  if (typeof text === "string" && text.trim().startsWith("[")) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  }
+  if (Buffer.isBuffer(value) && value.length % 4 === 0) {
+    // Binary float32 little-endian encoding
+    const floats: number[] = [];
+    for (let offset = 0; offset < value.length; offset += 4) {
+      floats.push(value.readFloatLE(offset));
+    }
+    return floats;
+  }
+  return value;
+}
+
+function serializeJson(value: unknown): unknown {
+  const text = Buffer.isBuffer(value) ? value.toString("utf8") : value;
+  if (typeof text === "string") {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  }
+  return value;
+}
+
+// "2024-01-02 03:04:05.123" -> "2024-01-02T03:04:05.123"
+function isoDateTime(value: string): string {
+  return value.replace(" ", "T");
+}
+
+function serializeTemporal(value: unknown, type: string, options: SerializationOptions): unknown {
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? null : value.toISOString();
+  }
+  if (typeof value !== "string" || value.startsWith("0000-00-00")) {
+    return value;
+  }
+  switch (type) {
+    case "DATE":
+      return value.substring(0, 10);
+    case "DATETIME":
+      // DATETIME has no time zone; keep the wall-clock time
+      return isoDateTime(value);
+    case "TIMESTAMP":
+      // TIMESTAMP is rendered in the session time zone, which the connector pins to options.timeZone
+      return `${isoDateTime(value)}${options.timeZone}`;
+    default:
+      return value;
+  }
+}
+
+function serializeBit(value: Buffer): string {
+  return value.length === 0 ? "0" : BigInt(`0x${value.toString("hex")}`).toString();
+}
+
+export function serializeValue(value: unknown, column: ColumnInfo | undefined, options: SerializationOptions): unknown {
+  if (value === null || value === undefined) {
+    return null;
+  }
+
+  const type = column?.type ?? "UNKNOWN";
+
+  if (EXACT_NUMERIC_STRING_TYPES.has(type)) {
+    return String(value);
+  }
+  if (type === "DATE" || type === "DATETIME" || type === "TIMESTAMP") {
+    return serializeTemporal(value, type, options);
+  }
+  if (type === "VECTOR") {
+    return serializeVector(value);
+  }
+  if (type === "JSON") {
+    return serializeJson(value);
+  }
+  if (type === "BIT" && Buffer.isBuffer(value)) {
+    return serializeBit(value);
+  }
+
+  // Rules that apply whatever the declared type is
+  if (typeof value === "bigint") {
+    return value.toString();
+  }
+  if (Buffer.isBuffer(value) || BINARY_TYPES.has(type)) {
+    return Buffer.isBuffer(value) ? serializeBinary(value, options) : value;
+  }
+  if (value instanceof Date) {
+    return serializeTemporal(value, type, options);
+  }
+  return value;
+}
+
+export function serializeRow(row: Record<string, unknown>, columns: ColumnInfo[], options: SerializationOptions): Record<string, unknown> {
+  const byName = new Map(columns.map((column) => [column.name, column]));
+  const serialized: Record<string, unknown> = {};
+  for (const [name, value] of Object.entries(row)) {
+    serialized[name] = serializeValue(value, byName.get(name), options);
+  }
+  return serialized;
+}
+
+export function serializeResultSet<T extends ResultSet>(result: T, options: SerializationOptions): T {
+  return {
+    ...result,
+    rows: result.rows.map((row) => serializeRow(row, result.columns, options)),
+  };
+}
@@ -2,51 +2,25 @@ import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import {
   CallToolRequestSchema,
   ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
   McpError,
+  ReadResourceRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { AuditDetails, AuditLog } from "./audit.js";
+import { ConnectionManager, loadConnectionProfiles } from "./connections.js";
 import { TiDBConfig, TiDBConnector } from "./connector.js";
-
-interface ToolArgs {
-  [key: string]: any;
-}
-
-interface SwitchDatabaseArgs extends ToolArgs {
-  db_name: string;
-  username?: string;
-  password?: string;
-}
-
-interface QueryArgs extends ToolArgs {
-  sql_stmt: string;
-}
-
-interface ExecuteArgs extends ToolArgs {
-  sql_stmts: string | string[];
-}
-
-interface CreateUserArgs extends ToolArgs {
-  username: string;
-  password: string;
-}
-
-interface RemoveUserArgs extends ToolArgs {
-  username: string;
-}
-
-export function validateToolArgs<T extends ToolArgs>(args: any, requiredFields: string[]): T {
-  if (!args || typeof args !== 'object') {
-    throw new McpError(ErrorCode.InvalidParams, 'Invalid arguments provided');
-  }
-
-  for (const field of requiredFields) {
-    if (!(field in args) || args[field] === undefined || args[field] === null) {
-      throw new McpError(ErrorCode.InvalidParams, `Missing required field: ${field}`);
-    }
-  }
-
-  return args as T;
-}
+import { embeddingProviderNames } from "./embeddings.js";
+import { isResultFormat, ResultFormat, RESULT_FORMATS } from "./formatters.js";
+import { PoolRegistry } from "./pools.js";
+import { findPrompt, promptDefinitions, toListedPrompt } from "./prompts.js";
+import { listSchemaResources, parseSchemaUri, readSchemaResource, resourceTemplates } from "./resources.js";
+import { BinaryEncoding, normalizeTimeZone } from "./serialization.js";
+import { findTool, isToolAllowed, toListedTool, toolDefinitions, ToolDefinition, toolInputSchema, usableTools } from "./tools.js";
 
 export function sanitizeError(error: any): string {
   const message = error.message || 'Unknown error occurred';
@@ -71,6 +45,46 @@ export function validateConfig(config: TiDBConfig): void {
   if (config.port && (config.port < 1 || config.port > 65535)) {
     throw new Error('Invalid port number');
   }
+
+  if (config.maxRows !== undefined && !(config.maxRows > 0)) {
+    throw new Error('TIDB_QUERY_MAX_ROWS must be a positive number');
+  }
+
+  if (config.maxResponseBytes !== undefined && !(config.maxResponseBytes > 0)) {
+    throw new Error('TIDB_QUERY_MAX_BYTES must be a positive number');
+  }
+
+  if (config.resultFormat !== undefined && !isResultFormat(config.resultFormat)) {
+    throw new Error(`TIDB_RESULT_FORMAT must be one of: ${RESULT_FORMATS.join(', ')}`);
+  }
+
+  if (config.timeZone !== undefined && normalizeTimeZone(config.timeZone) === null) {
+    throw new Error(`TIDB_TIME_ZONE must be UTC or a fixed offset such as +09:00, got "${config.timeZone}"; named time zones such as Asia/Tokyo are not supported`);
+  }
+
+  if (config.binaryEncoding !== undefined && !['base64', 'hex'].includes(config.binaryEncoding)) {
+    throw new Error('TIDB_BINARY_ENCODING must be one of: base64, hex');
+  }
+
+  if (config.maxBinaryBytes !== undefined && !(config.maxBinaryBytes > 0)) {
+    throw new Error('TIDB_BINARY_MAX_BYTES must be a positive number');
+  }
+
+  if (config.embeddingProvider !== undefined && !embeddingProviderNames().includes(config.embeddingProvider)) {
+    throw new Error(`TIDB_EMBEDDING_PROVIDER must be one of: ${embeddingProviderNames().join(', ')}`);
+  }
+
+  if (config.embeddingDimensions !== undefined && !(Number.isInteger(config.embeddingDimensions) && config.embeddingDimensions > 0)) {
+    throw new Error('TIDB_EMBEDDING_DIMENSIONS must be a positive integer');
+  }
+
+  if (config.embeddingTimeout !== undefined && !(config.embeddingTimeout > 0)) {
+    throw new Error('TIDB_EMBEDDING_TIMEOUT must be a positive number of seconds');
+  }
+
+  if (config.embeddingProvider === 'openai' && config.embeddingDimensions === undefined) {
+    throw new Error('TIDB_EMBEDDING_DIMENSIONS is required when TIDB_EMBEDDING_PROVIDER is openai');
+  }
 }
 
 export function createServer(): Server {
@@ -82,231 +96,89 @@ export function createServer(): Server {
     {
       capabilities: {
         tools: {},
+        resources: {},
+        prompts: {},
       },
     }
   );
 }
 
-export function setupToolHandlers(server: Server, getTidbConnector: () => TiDBConnector | null) {
-  server.setRequestHandler(ListToolsRequestSchema, async () => ({
-    tools: [
-      {
-        name: "show_databases",
-        description: "Show all databases in the TiDB cluster",
-        inputSchema: {
-          type: "object",
-          properties: {},
-          required: [],
-        },
-      },
-      {
-        name: "switch_database",
-        description: "Switch to a specific database. Note: The user has already specified the database in the configuration, so you don't need to switch database before you execute the sql statements.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            db_name: {
-              type: "string",
-              description: "The name of the database to switch to",
-            },
-            username: {
-              type: "string",
-              description: "Optional username for the new connection",
-            },
-            password: {
-              type: "string",
-              description: "Optional password for the new connection",
-            },
-          },
-          required: ["db_name"],
-        },
-      },
-      {
-        name: "show_tables",
-        description: "Show all tables in the current database",
-        inputSchema: {
-          type: "object",
-          properties: {},
-          required: [],
-        },
-      },
-      {
-        name: "db_query",
-        description: "Query data from TiDB database via SQL. Best practices: use LIMIT for SELECT statements to avoid too many rows returned. Use this for SELECT/SHOW/DESCRIBE/EXPLAIN read-only statements.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            sql_stmt: {
-              type: "string",
-              description: "The SQL query statement to execute",
-            },
-          },
-          required: ["sql_stmt"],
-        },
-      },
-      {
-        name: "db_execute",
-        description: "Execute operations on TiDB database via SQL. Use this for INSERT/UPDATE/DELETE/CREATE/DROP statements. Can accept a single statement or an array of statements that will be executed in a transaction.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            sql_stmts: {
-              oneOf: [
-                { type: "string", description: "A single SQL statement" },
-                { type: "array", items: { type: "string" }, description: "Array of SQL statements" },
-              ],
-              description: "SQL statement(s) to execute",
-            },
-          },
-          required: ["sql_stmts"],
-        },
-      },
-      {
-        name: "db_create_user",
-        description: "Create a new database user. Will return the username with prefix for TiDB Serverless.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            username: {
-              type: "string",
-              description: "The username for the new user",
-            },
-            password: {
-              type: "string",
-              description: "The password for the new user",
-            },
-          },
-          required: ["username", "password"],
-        },
-      },
-      {
-        name: "db_remove_user",
-        description: "Remove a database user from the TiDB cluster",
-        inputSchema: {
-          type: "object",
-          properties: {
-            username: {
-              type: "string",
-              description: "The username to remove",
-            },
-          },
-          required: ["username"],
-        },
-      },
-    ],
-  }));
+function requireConnector(getTidbConnector: () => TiDBConnector | null): TiDBConnector {
+  const tidbConnector = getTidbConnector();
+  if (!tidbConnector) {
+    throw new McpError(
+      ErrorCode.InternalError,
+      "TiDB connection not initialized. Please check your configuration."
+    );
+  }
+  return tidbConnector;
+}
 
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
-    const tidbConnector = getTidbConnector();
-    if (!tidbConnector) {
-      throw new McpError(
-        ErrorCode.InternalError,
-        "TiDB connection not initialized. Please check your configuration."
-      );
-    }
+function requireConnections(getConnections: () => ConnectionManager | null): ConnectionManager {
+  const connections = getConnections();
+  if (!connections) {
+    throw new McpError(
+      ErrorCode.InternalError,
+      "TiDB connection not initialized. Please check your configuration."
+    );
+  }
+  return connections;
+}
+
+// Connector a tool call runs against: the named connection, or the active one
+export function connectorForTool(
+  connections: ConnectionManager,
+  tool: ToolDefinition,
+  connectionName: string | undefined
+): TiDBConnector {
+  let profile;
+  try {
+    profile = connections.profile(connectionName);
+  } catch (error: any) {
+    throw new McpError(ErrorCode.InvalidParams, error.message);
+  }
+  if (!isToolAllowed(tool, profile)) {
+    const reason = tool.requiresWrite && profile.config.readOnly ? "the connection is read-only" : "the tool is not in its allowedTools";
+    throw new McpError(ErrorCode.InvalidParams, `Tool ${tool.name} is not available on connection "${profile.name}": ${reason}`);
+  }
+  return connections.connector(profile.name);
+}
+
+export function setupToolHandlers(server: Server, getConnections: () => ConnectionManager | null, getAuditLog: () => AuditLog | null) {
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    const connections = getConnections();
+    return { tools: (connections ? usableTools(connections) : toolDefinitions).map(toListedTool) };
+  });
+
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const connections = requireConnections(getConnections);
 
     const { name, arguments: args } = request.params;
 
+    const tool = findTool(name, connections);
+    if (!tool) {
+      throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
+    }
+
+    const parsedArgs = z.object(toolInputSchema(tool)).safeParse(args ?? {});
+    if (!parsedArgs.success) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid arguments for tool ${name}: ${parsedArgs.error.message}`);
+    }
+    const { connection, ...toolArgs } = parsedArgs.data;
+
+    const call = { tool: name, sessionId: extra.sessionId, args: toolArgs };
+    // The connection policy is checked inside the audited call, so refusals are logged too
+    const run = async (audit: AuditDetails) => {
+      const tidbConnector = connectorForTool(connections, tool, connection);
+      return tool.handler(toolArgs, { connector: tidbConnector, connections, server, extra, audit });
+    };
     try {
-      switch (name) {
-        case "show_databases": {
-          const databases = await tidbConnector.showDatabases();
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify(databases, null, 2),
-              },
-            ],
-          };
-        }
-
-        case "switch_database": {
-          const validatedArgs = validateToolArgs<SwitchDatabaseArgs>(args, ['db_name']);
-          const { db_name, username, password } = validatedArgs;
-          await tidbConnector.switchDatabase(db_name, username, password);
-          return {
-            content: [
-              {
-                type: "text",
-                text: `Successfully switched to database: ${db_name}`,
-              },
-            ],
-          };
-        }
-
-        case "show_tables": {
-          const tables = await tidbConnector.showTables();
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify(tables, null, 2),
-              },
-            ],
-          };
-        }
-
-        case "db_query": {
-          const validatedArgs = validateToolArgs<QueryArgs>(args, ['sql_stmt']);
-          const { sql_stmt } = validatedArgs;
-          const result = await tidbConnector.query(sql_stmt);
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify(result, null, 2),
-              },
-            ],
-          };
-        }
-
-        case "db_execute": {
-          const validatedArgs = validateToolArgs<ExecuteArgs>(args, ['sql_stmts']);
-          const { sql_stmts } = validatedArgs;
-          const results = await tidbConnector.execute(sql_stmts);
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify(results, null, 2),
-              },
-            ],
-          };
-        }
-
-        case "db_create_user": {
-          const validatedArgs = validateToolArgs<CreateUserArgs>(args, ['username', 'password']);
-          const { username, password } = validatedArgs;
-          const fullUsername = await tidbConnector.createUser(username, password);
-          return {
-            content: [
-              {
-                type: "text",
-                text: `Successfully created user: ${fullUsername}`,
-              },
-            ],
-          };
-        }
-
-        case "db_remove_user": {
-          const validatedArgs = validateToolArgs<RemoveUserArgs>(args, ['username']);
-          const { username } = validatedArgs;
-          await tidbConnector.removeUser(username);
-          return {
-            content: [
-              {
-                type: "text",
-                text: `Successfully removed user: ${username}`,
-              },
-            ],
-          };
-        }
-
-        default:
-          throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
-      }
+      const auditLog = getAuditLog();
+      return await (auditLog ? auditLog.recordToolCall(call, run) : run({}));
     } catch (error: any) {
+      if (error instanceof McpError) {
+        throw error;
+      }
       console.error(`Error executing tool ${name}:`, error);
       const sanitizedMessage = sanitizeError(error);
       throw new McpError(
@@ -317,6 +189,93 @@ export function setupToolHandlers(server: Server, getTidbConnector: () => TiDBCo
   });
 }
 
+export function setupResourceHandlers(server: Server, getTidbConnector: () => TiDBConnector | null) {
+  server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+    resources: await listSchemaResources(requireConnector(getTidbConnector)),
+  }));
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates,
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { uri } = request.params;
+    if (!parseSchemaUri(uri)) {
+      throw new McpError(ErrorCode.InvalidParams, `Resource ${uri} not found`);
+    }
+
+    try {
+      return await readSchemaResource(requireConnector(getTidbConnector), uri);
+    } catch (error: any) {
+      console.error(`Error reading resource ${uri}:`, error);
+      throw new McpError(ErrorCode.InternalError, `Failed to read ${uri}: ${sanitizeError(error)}`);
+    }
+  });
+}
+
+export function setupPromptHandlers(server: Server, getTidbConnector: () => TiDBConnector | null) {
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+    prompts: promptDefinitions.map(toListedPrompt),
+  }));
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+
+    const prompt = findPrompt(name);
+    if (!prompt) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+    }
+
+    const parsedArgs = z.object(prompt.argsSchema).safeParse(args ?? {});
+    if (!parsedArgs.success) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid arguments for prompt ${name}: ${parsedArgs.error.message}`);
+    }
+
+    try {
+      return await prompt.handler(parsedArgs.data, { connector: requireConnector(getTidbConnector) });
+    } catch (error: any) {
+      console.error(`Error building prompt ${name}:`, error);
+      throw new McpError(ErrorCode.InternalError, `Failed to build prompt ${name}: ${sanitizeError(error)}`);
+    }
+  });
+}
+
+// Profiles from TIDB_CONNECTIONS_FILE, or a single "default" profile from the TIDB_* variables
+export function loadConnections(pools: PoolRegistry = new PoolRegistry()): ConnectionManager {
+  const path = process.env.TIDB_CONNECTIONS_FILE;
+  if (!path) {
+    const config = getDefaultConfig();
+    validateConfig(config);
+    return new ConnectionManager({ profiles: [{ name: "default", config }], defaultName: "default" }, pools);
+  }
+
+  const loaded = loadConnectionProfiles(path);
+  for (const profile of loaded.profiles) {
+    try {
+      validateConfig(profile.config);
+    } catch (error: any) {
+      throw new Error(`Connection "${profile.name}": ${error.message}`);
+    }
+    const unknownTools = (profile.allowedTools ?? []).filter((name) => !toolDefinitions.some((tool) => tool.name === name));
+    if (unknownTools.length > 0) {
+      throw new Error(`Connection "${profile.name}": unknown tool(s) in allowedTools: ${unknownTools.join(', ')}`);
+    }
+  }
+  return new ConnectionManager(loaded, pools);
+}
+
+// Startup log line naming the cluster(s) the server connects to
+export function describeConnections(connections: ConnectionManager): string {
+  const [only, ...others] = connections.list();
+  if (others.length === 0) {
+    return `Connected to TiDB: ${only.host}:${only.port}/${only.database}${only.readOnly ? " (read-only)" : ""}`;
+  }
+  const names = connections.list().map((connection) =>
+    `${connection.name}${connection.default ? " (default)" : ""}${connection.readOnly ? " (read-only)" : ""}`
+  );
+  return `TiDB connections: ${names.join(", ")}`;
+}
+
 export function getDefaultConfig(): TiDBConfig {
   return {
     databaseUrl: process.env.TIDB_DATABASE_URL,
@@ -327,5 +286,18 @@ export function getDefaultConfig(): TiDBConfig {
     database: process.env.TIDB_DATABASE || "test",
     tls: process.env.TIDB_TLS ? process.env.TIDB_TLS.toLowerCase() === "true" : true,
     tlsCaPath: process.env.TIDB_TLS_CA_CERT_PATH || undefined,
+    readOnly: process.env.TIDB_READ_ONLY ? process.env.TIDB_READ_ONLY.toLowerCase() === "true" : false,
+    maxRows: process.env.TIDB_QUERY_MAX_ROWS ? parseInt(process.env.TIDB_QUERY_MAX_ROWS) : undefined,
+    maxResponseBytes: process.env.TIDB_QUERY_MAX_BYTES ? parseInt(process.env.TIDB_QUERY_MAX_BYTES) : undefined,
+    resultFormat: (process.env.TIDB_RESULT_FORMAT?.toLowerCase() || undefined) as ResultFormat | undefined,
+    timeZone: process.env.TIDB_TIME_ZONE || undefined,
+    binaryEncoding: (process.env.TIDB_BINARY_ENCODING?.toLowerCase() || undefined) as BinaryEncoding | undefined,
+    maxBinaryBytes: process.env.TIDB_BINARY_MAX_BYTES ? parseInt(process.env.TIDB_BINARY_MAX_BYTES) : undefined,
+    embeddingProvider: process.env.TIDB_EMBEDDING_PROVIDER?.toLowerCase() || undefined,
+    embeddingModel: process.env.TIDB_EMBEDDING_MODEL || undefined,
+    embeddingDimensions: process.env.TIDB_EMBEDDING_DIMENSIONS ? parseInt(process.env.TIDB_EMBEDDING_DIMENSIONS) : undefined,
+    embeddingApiKey: process.env.TIDB_EMBEDDING_API_KEY || process.env.OPENAI_API_KEY || undefined,
+    embeddingBaseUrl: process.env.TIDB_EMBEDDING_BASE_URL || undefined,
+    embeddingTimeout: process.env.TIDB_EMBEDDING_TIMEOUT ? Number(process.env.TIDB_EMBEDDING_TIMEOUT) : undefined,
   };
 }
\ No newline at end of file
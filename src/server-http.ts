@@ -1,18 +1,69 @@
+import { requireBearerAuth } from "@modelcontextprotocol/sdk/server/auth/middleware/bearerAuth.js";
+import { getOAuthProtectedResourceMetadataUrl } from "@modelcontextprotocol/sdk/server/auth/router.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
 import express from "express";
 import cors from "cors";
 import { randomUUID } from "node:crypto";
-import { z } from "zod";
 import * as dotenv from "dotenv";
-import { TiDBConnector } from "./connector.js";
-import { validateConfig, getDefaultConfig } from "./server-common.js";
+import { AuditLog, loadAuditConfig } from "./audit.js";
+import { ADMIN_SCOPE, authorizeTool, hasToolScope, loadAuthConfig, parseCorsOrigins, principal, protectedResourceMetadata, TokenVerifier } from "./auth.js";
+import { ConnectionManager } from "./connections.js";
+import { CREDENTIAL_HEADERS, CredentialSource, parseCredentialSources, sessionCredentials } from "./credentials.js";
+import { createEventStore, EventStoreConfig, loadEventStoreConfig, removeStaleEventFiles } from "./events.js";
+import { checkReadiness, loadReadinessTimeout } from "./health.js";
+import { METRICS_CONTENT_TYPE, ServerMetrics } from "./metrics.js";
+import { promptDefinitions } from "./prompts.js";
+import {
+  completeDatabaseName,
+  completeTableName,
+  DATABASE_TEMPLATE,
+  listDatabaseResources,
+  listTableResources,
+  readSchemaResource,
+  TABLE_TEMPLATE,
+} from "./resources.js";
+import { PoolRegistry } from "./pools.js";
+import { connectorForTool, describeConnections, loadConnections } from "./server-common.js";
+import { loadSessionLimits, SessionEntry, SessionStore } from "./sessions.js";
+import { takesDatabaseArg, toolInputSchema, usableTools } from "./tools.js";
 
 dotenv.config();
 
 const DEFAULT_HTTP_PORT = 3000;
 
+// How long a stateless server keeps a connection pool no request is using
+const STATELESS_POOL_IDLE_MS = 5 * 60 * 1000;
+
+interface HttpSession {
+  transport: StreamableHTTPServerTransport;
+  connections: ConnectionManager;
+}
+
+interface RouteOptions {
+  connections: ConnectionManager;
+  metrics: ServerMetrics;
+  auditLog: AuditLog;
+  credentialSources: CredentialSource[];
+  authenticate: express.RequestHandler;
+  authenticateAdmin?: express.RequestHandler;
+  // Makes SSE streams resumable with Last-Event-ID; unset in stateless mode
+  eventStoreConfig?: EventStoreConfig | null;
+}
+
+function sendError(res: express.Response, status: number, message: string) {
+  res.status(status).json({
+    jsonrpc: '2.0',
+    error: {
+      code: -32000,
+      message,
+    },
+    id: null,
+  });
+}
+
 function createMcpServer(): McpServer {
   return new McpServer({
     name: "tidb-unofficial-mcp",
@@ -20,246 +71,432 @@ function createMcpServer(): McpServer {
   });
 }
 
-function setupMcpServer(server: McpServer, tidbConnector: TiDBConnector) {
-  // Register all tools
-  server.registerTool(
-    "show_databases",
-    {
-      title: "Show Databases",
-      description: "Show all databases in the TiDB cluster",
-      inputSchema: {},
-    },
-    async () => {
-      const databases = await tidbConnector.showDatabases();
-      return {
-        content: [{
-          type: "text",
-          text: JSON.stringify(databases, null, 2),
-        }],
-      };
-    }
+// authInfo is the token the session was opened with; tools its scopes do not grant are not listed.
+// A stateless server leaves out session tools and takes the database as a per-call argument instead.
+function setupMcpServer(
+  server: McpServer,
+  connections: ConnectionManager,
+  metrics: ServerMetrics,
+  auditLog: AuditLog,
+  authInfo?: AuthInfo,
+  stateless: boolean = false
+) {
+  // Resources and prompts follow the active connection of this session
+  const tidbConnector = () => connections.connector();
+
+  const tools = usableTools(connections).filter((tool) =>
+    (!authInfo || hasToolScope(tool, authInfo.scopes)) && !(stateless && tool.session)
   );
 
-  server.registerTool(
-    "switch_database",
-    {
-      title: "Switch Database",
-      description: "Switch to a specific database",
-      inputSchema: {
-        db_name: z.string().describe("Name of the database to switch to"),
-        username: z.string().optional().describe("Optional username"),
-        password: z.string().optional().describe("Optional password"),
+  // Register all tools from the shared registry
+  for (const tool of tools) {
+    const databaseArg = stateless && takesDatabaseArg(tool);
+    server.registerTool(
+      tool.name,
+      {
+        title: tool.title,
+        description: tool.description,
+        inputSchema: toolInputSchema(tool, stateless),
+        annotations: tool.annotations,
       },
-    },
-    async ({ db_name, username, password }) => {
-      await tidbConnector.switchDatabase(db_name, username, password);
-      return {
-        content: [{
-          type: "text",
-          text: `Successfully switched to database: ${db_name}`,
-        }],
-      };
-    }
-  );
+      async ({ connection, ...args }: Record<string, unknown>, extra) => metrics.recordToolCall(tool.name, () => auditLog.recordToolCall({
+        tool: tool.name,
+        sessionId: extra.sessionId,
+        principal: extra.authInfo && principal(extra.authInfo),
+        args,
+      }, async (audit) => {
+        // Scopes are checked on every call, as the session may continue with a different token
+        authorizeTool(tool, extra.authInfo);
+        // The SDK has validated the arguments against toolInputSchema, where both are optional strings
+        const connector = connectorForTool(connections, tool, connection as string | undefined);
+        if (databaseArg) {
+          const { database, ...toolArgs } = args;
+          args = toolArgs;
+          // The connector belongs to this request only, so switching does not leak into others
+          if (database !== undefined) {
+            await connector.switchDatabase(database as string);
+          }
+        }
+        return tool.handler(args, {
+          connector,
+          connections,
+          server: server.server,
+          extra,
+          audit,
+        });
+      }))
+    );
+  }
 
-  server.registerTool(
-    "show_tables",
-    {
-      title: "Show Tables",
-      description: "Show all tables in the current database",
-      inputSchema: {},
-    },
-    async () => {
-      const tables = await tidbConnector.showTables();
-      return {
-        content: [{
-          type: "text",
-          text: JSON.stringify(tables, null, 2),
-        }],
-      };
-    }
+  // Schema resources: tidb://{database} and tidb://{database}/{table}
+  server.registerResource(
+    DATABASE_TEMPLATE.name,
+    new ResourceTemplate(DATABASE_TEMPLATE.uriTemplate, {
+      list: async () => ({ resources: await listDatabaseResources(tidbConnector()) }),
+      complete: {
+        database: (value) => completeDatabaseName(tidbConnector(), value),
+      },
+    }),
+    { title: DATABASE_TEMPLATE.title, description: DATABASE_TEMPLATE.description, mimeType: DATABASE_TEMPLATE.mimeType },
+    async (uri) => readSchemaResource(tidbConnector(), uri.href)
   );
-
-  server.registerTool(
-    "db_query",
-    {
-      title: "Database Query",
-      description: "Execute SQL queries",
-      inputSchema: {
-        sql_stmt: z.string().describe("SQL query statement"),
+  server.registerResource(
+    TABLE_TEMPLATE.name,
+    new ResourceTemplate(TABLE_TEMPLATE.uriTemplate, {
+      list: async () => ({ resources: await listTableResources(tidbConnector()) }),
+      complete: {
+        database: (value) => completeDatabaseName(tidbConnector(), value),
+        table: (value, context) => completeTableName(tidbConnector(), value, context?.arguments?.database),
       },
-    },
-    async ({ sql_stmt }) => {
-      const result = await tidbConnector.query(sql_stmt);
-      return {
-        content: [{
-          type: "text",
-          text: JSON.stringify(result, null, 2),
-        }],
-      };
-    }
+    }),
+    { title: TABLE_TEMPLATE.title, description: TABLE_TEMPLATE.description, mimeType: TABLE_TEMPLATE.mimeType },
+    async (uri) => readSchemaResource(tidbConnector(), uri.href)
   );
 
-  server.registerTool(
-    "db_execute",
-    {
-      title: "Database Execute",
-      description: "Execute SQL operations",
-      inputSchema: {
-        sql_stmts: z.union([z.string(), z.array(z.string())]).describe("SQL statement(s) to execute"),
+  // Prompt templates filled in with live context from the connector
+  for (const prompt of promptDefinitions) {
+    server.registerPrompt(
+      prompt.name,
+      {
+        title: prompt.title,
+        description: prompt.description,
+        argsSchema: prompt.argsSchema,
       },
-    },
-    async ({ sql_stmts }) => {
-      const results = await tidbConnector.execute(sql_stmts);
-      return {
-        content: [{
-          type: "text",
-          text: JSON.stringify(results, null, 2),
-        }],
-      };
+      async (args: Record<string, unknown>) => prompt.handler(args, { connector: tidbConnector() })
+    );
+  }
+
+  return server;
+}
+
+// Connection state of a new session: the server's profiles, or in per-user mode a single
+// profile with the credentials the initializing request supplied, checked against TiDB
+async function openSessionConnections(
+  connections: ConnectionManager,
+  credentialSources: CredentialSource[],
+  req: express.Request
+): Promise<ConnectionManager> {
+  if (credentialSources.length === 0) {
+    return connections.fork();
+  }
+  const credentials = sessionCredentials(credentialSources, req.headers, req.auth?.extra?.claims as Record<string, unknown> | undefined);
+  if (!credentials) {
+    throw new Error(`TiDB credentials are required (from ${credentialSources.join(" or ")})`);
+  }
+  const sessionConnections = connections.forkWithCredentials(credentials);
+  try {
+    await sessionConnections.connector().currentDatabase();
+  } catch (error) {
+    await sessionConnections.close().catch(() => {});
+    throw new Error(`Failed to connect with the session credentials: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return sessionConnections;
+}
+
+// Stateful mode: a server and transport per session, found again by the Mcp-Session-Id header.
+// Returns a function that closes every live session, for shutdown.
+function serveSessions(
+  app: express.Express,
+  { connections, metrics, auditLog, credentialSources, authenticate, authenticateAdmin, eventStoreConfig }: RouteOptions
+): () => Promise<void> {
+  // Live sessions by ID, closed when idle or when evicted to make room for new ones
+  const sessions = new SessionStore<HttpSession>(loadSessionLimits(process.env), (entry, reason) => {
+    console.error(`Closing session ${entry.id} (${reason})`);
+    entry.value.transport.close().catch((error) => {
+      console.error("Failed to close session transport:", error);
+    });
+  });
+  sessions.start();
+  metrics.trackSessions(() => sessions.size);
+
+  // The session a request belongs to; a session is only usable with its opener's tokens.
+  // Unknown IDs, including evicted sessions, get 404 so that clients re-initialize.
+  const findSession = (req: express.Request, res: express.Response): SessionEntry<HttpSession> | undefined => {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    if (!sessionId) {
+      sendError(res, 400, 'Bad Request: No valid session ID provided');
+      return undefined;
     }
-  );
+    const session = sessions.get(sessionId);
+    if (!session) {
+      sendError(res, 404, 'Session not found');
+      return undefined;
+    }
+    if (req.auth && session.principal !== principal(req.auth)) {
+      sendError(res, 403, 'Forbidden: session belongs to another principal');
+      return undefined;
+    }
+    return session;
+  };
 
-  server.registerTool(
-    "db_create_user",
-    {
-      title: "Create Database User",
-      description: "Create a new database user",
-      inputSchema: {
-        username: z.string().describe("Username for new user"),
-        password: z.string().describe("Password for new user"),
-      },
-    },
-    async ({ username, password }) => {
-      const fullUsername = await tidbConnector.createUser(username, password);
-      return {
-        content: [{
-          type: "text",
-          text: `Successfully created user: ${fullUsername}`,
-        }],
-      };
+  // Serves a request on its session, counting it as activity until the response ends
+  const handleSessionRequest = async (session: SessionEntry<HttpSession>, req: express.Request, res: express.Response) => {
+    const end = sessions.begin(session.id);
+    res.on('close', end);
+    await session.value.transport.handleRequest(req, res, req.body);
+  };
+  
+  // Handle POST requests for client-to-server communication
+  app.post('/mcp', authenticate, async (req, res) => {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    
+    if (sessionId || !isInitializeRequest(req.body)) {
+      // Reuse existing transport
+      const session = findSession(req, res);
+      if (session) {
+        await handleSessionRequest(session, req, res);
+      }
+      return;
+    }
+
+    // Refused outright when every session slot is held by a session serving a request
+    if (!sessions.makeRoom()) {
+      sendError(res, 503, 'Service Unavailable: the maximum number of sessions are busy; try again later');
+      return;
+    }
+
+    // Each session has its own connection state; pools are shared by credential
+    let sessionConnections: ConnectionManager;
+    try {
+      sessionConnections = await openSessionConnections(connections, credentialSources, req);
+    } catch (error) {
+      sendError(res, 400, `Bad Request: ${error instanceof Error ? error.message : String(error)}`);
+      return;
     }
-  );
 
-  server.registerTool(
-    "db_remove_user",
-    {
-      title: "Remove Database User",
-      description: "Remove a database user",
-      inputSchema: {
-        username: z.string().describe("Username to remove"),
+    // New initialization request; its messages are kept for replay to clients that reconnect
+    const newSessionId = randomUUID();
+    const eventStore = eventStoreConfig ? createEventStore(newSessionId, eventStoreConfig) : undefined;
+    // Set when the sessions filled up with busy ones while this one was being set up
+    let rejected = false;
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => newSessionId,
+      eventStore,
+      onsessioninitialized: (sessionId) => {
+        rejected = !sessions.add(sessionId, { transport, connections: sessionConnections }, req.auth && principal(req.auth));
       },
-    },
-    async ({ username }) => {
-      await tidbConnector.removeUser(username);
-      return {
-        content: [{
-          type: "text",
-          text: `Successfully removed user: ${username}`,
-        }],
+    });
+
+    // Clean up transport and session state when closed
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        sessions.delete(transport.sessionId);
+      }
+      sessionConnections.close().catch((error) => {
+        console.error("Failed to close session connections:", error);
+      });
+      eventStore?.dispose().catch((error) => {
+        console.error("Failed to remove session events:", error);
+      });
+    };
+    
+    const server = createMcpServer();
+    setupMcpServer(server, sessionConnections, metrics, auditLog, req.auth);
+    
+    // Connect to the MCP server
+    await server.connect(transport);
+    
+    // Handle the request
+    await transport.handleRequest(req, res, req.body);
+
+    // Closed once the initialize response is out; the client gets 404 on its next request
+    // and initializes again, meeting the 503 above
+    if (rejected) {
+      const close = () => {
+        console.error(`Closing session ${newSessionId} (capacity)`);
+        transport.close().catch((error) => {
+          console.error("Failed to close session transport:", error);
+        });
       };
+      if (res.writableFinished) {
+        close();
+      } else {
+        res.on('close', close);
+      }
     }
-  );
+  });
+  
+  // Handle GET requests for server-to-client notifications via SSE
+  app.get('/mcp', authenticate, async (req, res) => {
+    const session = findSession(req, res);
+    if (session) {
+      await handleSessionRequest(session, req, res);
+    }
+  });
+  
+  // Handle DELETE requests for session termination
+  app.delete('/mcp', authenticate, async (req, res) => {
+    const session = findSession(req, res);
+    if (session) {
+      await handleSessionRequest(session, req, res);
+    }
+  });
 
-  return server;
+  // Live sessions for administrators; needs a token with the tidb:admin scope
+  if (authenticateAdmin) {
+    app.get('/admin/sessions', authenticateAdmin, (req, res) => {
+      const now = Date.now();
+      res.json({
+        max_sessions: sessions.limits.maxSessions,
+        idle_timeout_seconds: sessions.limits.idleTimeoutMs / 1000,
+        sessions: sessions.list().map((session) => ({
+          session_id: session.id,
+          principal: session.principal ?? null,
+          connection: session.value.connections.active,
+          created_at: session.createdAt.toISOString(),
+          last_activity_at: session.lastActivityAt.toISOString(),
+          idle_seconds: session.activeRequests > 0 ? 0 : Math.floor((now - session.lastActivityAt.getTime()) / 1000),
+          active_requests: session.activeRequests,
+        })),
+      });
+    });
+  }
+
+  return async () => {
+    sessions.stop();
+    await Promise.all(sessions.list().map(async (session) => {
+      sessions.delete(session.id);
+      await session.value.transport.close();
+      await session.value.connections.close();
+    }));
+  };
 }
 
+// Stateless mode: a fresh server and transport for every request, with no session to look up,
+// so that requests can go to any replica behind a load balancer
+function serveStateless(app: express.Express, { connections, metrics, auditLog, credentialSources, authenticate }: RouteOptions) {
+  app.post('/mcp', authenticate, async (req, res) => {
+    let requestConnections: ConnectionManager;
+    try {
+      requestConnections = await openSessionConnections(connections, credentialSources, req);
+    } catch (error) {
+      sendError(res, 400, `Bad Request: ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+
+    const server = createMcpServer();
+    const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
+    res.on('close', () => {
+      transport.close();
+      server.close();
+      requestConnections.close().catch((error) => {
+        console.error("Failed to close request connections:", error);
+      });
+    });
+
+    setupMcpServer(server, requestConnections, metrics, auditLog, req.auth, true);
+    await server.connect(transport);
+    await transport.handleRequest(req, res, req.body);
+  });
+
+  // There is no session to stream notifications for or to terminate
+  const methodNotAllowed: express.RequestHandler = (req, res) => {
+    sendError(res, 405, 'Method not allowed: the server runs in stateless mode');
+  };
+  app.get('/mcp', methodNotAllowed);
+  app.delete('/mcp', methodNotAllowed);
+}
+
+// Closes sessions and pools and flushes the audit log; set once the server has started
+let shutdown: (() => Promise<void>) | null = null;
+
 async function main() {
   try {
     console.error("Starting TiDB Cloud Serverless MCP server (Streamable HTTP)...");
 
-    const config = getDefaultConfig();
-    validateConfig(config);
-
-    const tidbConnector = new TiDBConnector(config);
-    console.error(`Connected to TiDB: ${config.host}:${config.port}/${config.database}`);
+    const stateless = process.env.MCP_HTTP_STATELESS?.toLowerCase() === "true";
+    // Stateless requests acquire and release pools every time; keep idle pools for reuse
+    const pools = new PoolRegistry(stateless ? STATELESS_POOL_IDLE_MS : 0);
+    const connections = loadConnections(pools);
+    console.error(describeConnections(connections));
+    const metrics = new ServerMetrics(pools);
+    const readinessTimeoutMs = loadReadinessTimeout(process.env);
+    const auditLog = new AuditLog(loadAuditConfig(process.env));
+    console.error(auditLog.describe());
 
     const port = parseInt(process.env.MCP_HTTP_PORT || DEFAULT_HTTP_PORT.toString());
+    const authConfig = loadAuthConfig(process.env, `http://localhost:${port}/mcp`);
+    const credentialSources = parseCredentialSources(process.env.MCP_SESSION_CREDENTIALS);
+    if (credentialSources.includes("claims") && !authConfig?.issuer) {
+      throw new Error("MCP_SESSION_CREDENTIALS=claims requires JWT authorization (MCP_AUTH_JWKS_URL or MCP_AUTH_JWKS_FILE)");
+    }
+    if (credentialSources.length > 0) {
+      console.error(`Per-session TiDB credentials from ${credentialSources.join(" and ")}`);
+    }
     const app = express();
     
-    // Configure CORS
+    // Configure CORS: only the listed origins, none by default
+    const corsOrigins = parseCorsOrigins(process.env.MCP_CORS_ORIGIN);
+    console.error(corsOrigins.length > 0 ? `CORS origins: ${corsOrigins.join(", ")}` : "CORS disabled: cross-origin browser requests are refused");
     app.use(cors({
-      origin: process.env.MCP_CORS_ORIGIN || "*",
-      exposedHeaders: ["Mcp-Session-Id"],
-      allowedHeaders: ["Content-Type", "mcp-session-id"],
+      origin: corsOrigins.length > 0 ? corsOrigins : false,
+      exposedHeaders: ["Mcp-Session-Id", "WWW-Authenticate"],
+      allowedHeaders: ["Content-Type", "mcp-session-id", "Last-Event-ID", "Authorization", ...Object.values(CREDENTIAL_HEADERS)],
       credentials: true,
     }));
     
     app.use(express.json());
-    
-    // Map to store transports by session ID
-    const transports: { [sessionId: string]: StreamableHTTPServerTransport } = {};
-    
-    // Handle POST requests for client-to-server communication
-    app.post('/mcp', async (req, res) => {
-      const sessionId = req.headers['mcp-session-id'] as string | undefined;
-      let transport: StreamableHTTPServerTransport;
-      
-      if (sessionId && transports[sessionId]) {
-        // Reuse existing transport
-        transport = transports[sessionId];
-      } else if (!sessionId && isInitializeRequest(req.body)) {
-        // New initialization request
-        transport = new StreamableHTTPServerTransport({
-          sessionIdGenerator: () => randomUUID(),
-          onsessioninitialized: (sessionId) => {
-            transports[sessionId] = transport;
-          },
-        });
-        
-        // Clean up transport when closed
-        transport.onclose = () => {
-          if (transport.sessionId) {
-            delete transports[transport.sessionId];
-          }
-        };
-        
-        const server = createMcpServer();
-        setupMcpServer(server, tidbConnector);
-        
-        // Connect to the MCP server
-        await server.connect(transport);
+
+    // Probes and metrics are served without authorization, for the orchestrator and Prometheus
+    app.get('/healthz', (req, res) => {
+      res.json({ status: "ok" });
+    });
+    // Ready once the default connection answers a ping
+    app.get('/readyz', async (req, res) => {
+      const readiness = await checkReadiness(connections.connector(), readinessTimeoutMs);
+      if (readiness.ready) {
+        res.json({ status: "ready" });
       } else {
-        // Invalid request
-        res.status(400).json({
-          jsonrpc: '2.0',
-          error: {
-            code: -32000,
-            message: 'Bad Request: No valid session ID provided',
-          },
-          id: null,
-        });
-        return;
+        // The error can name hosts and users; it goes to the server log, not to the unauthenticated probe
+        console.error(`Readiness check failed: ${readiness.error}`);
+        res.status(503).json({ status: "unavailable" });
       }
-      
-      // Handle the request
-      await transport.handleRequest(req, res, req.body);
     });
-    
-    // Handle GET requests for server-to-client notifications via SSE
-    app.get('/mcp', async (req, res) => {
-      const sessionId = req.headers['mcp-session-id'] as string | undefined;
-      if (!sessionId || !transports[sessionId]) {
-        res.status(400).send('Invalid or missing session ID');
-        return;
-      }
-      
-      const transport = transports[sessionId];
-      await transport.handleRequest(req, res);
+    app.get('/metrics', (req, res) => {
+      res.type(METRICS_CONTENT_TYPE).send(metrics.render());
     });
+
+    // Bearer-token authorization; without it anyone who can reach the port has full access
+    let authenticate: express.RequestHandler = (req, res, next) => next();
+    let authenticateAdmin: express.RequestHandler | undefined;
+    if (authConfig) {
+      const metadata = protectedResourceMetadata(authConfig);
+      const resourceMetadataUrl = getOAuthProtectedResourceMetadataUrl(new URL(authConfig.resourceUrl));
+      // Served at the root and, per RFC 9728, with the resource path appended
+      const metadataPath = new URL(resourceMetadataUrl).pathname;
+      app.get([metadataPath, `${metadataPath}${new URL(authConfig.resourceUrl).pathname}`], (req, res) => {
+        res.json(metadata);
+      });
+      const verifier = new TokenVerifier(authConfig);
+      authenticate = requireBearerAuth({ verifier, resourceMetadataUrl });
+      authenticateAdmin = requireBearerAuth({ verifier, requiredScopes: [ADMIN_SCOPE], resourceMetadataUrl });
+      console.error(`Authorization enabled for ${authConfig.resourceUrl}`);
+    } else {
+      console.error("Warning: authorization is disabled; set MCP_AUTH_JWKS_URL, MCP_AUTH_JWKS_FILE or MCP_AUTH_API_KEYS to require tokens");
+    }
     
-    // Handle DELETE requests for session termination
-    app.delete('/mcp', async (req, res) => {
-      const sessionId = req.headers['mcp-session-id'] as string | undefined;
-      if (!sessionId || !transports[sessionId]) {
-        res.status(400).send('Invalid or missing session ID');
-        return;
+    let closeSessions: () => Promise<void> = async () => {};
+    if (stateless) {
+      serveStateless(app, { connections, metrics, auditLog, credentialSources, authenticate });
+      console.error("Stateless mode: no sessions, session tools disabled");
+    } else {
+      const eventStoreConfig = loadEventStoreConfig(process.env);
+      if (eventStoreConfig?.store === "file") {
+        await removeStaleEventFiles(eventStoreConfig.directory, eventStoreConfig.ttlMs);
       }
-      
-      const transport = transports[sessionId];
-      await transport.handleRequest(req, res);
-    });
+      closeSessions = serveSessions(app, { connections, metrics, auditLog, credentialSources, authenticate, authenticateAdmin, eventStoreConfig });
+      console.error(eventStoreConfig
+        ? `Resumable streams: ${eventStoreConfig.store} event store, ${eventStoreConfig.maxEvents} events per session for ${eventStoreConfig.ttlMs / 1000}s`
+        : "Resumable streams disabled");
+    }
     
+    shutdown = async () => {
+      await closeSessions();
+      await connections.close();
+      await pools.closeAll();
+      await auditLog.flush();
+    };
+
     app.listen(port, () => {
       console.error(`MCP server running on Streamable HTTP port ${port}`);
       console.error(`Endpoint: http://localhost:${port}/mcp`);
@@ -270,11 +507,21 @@ async function main() {
   }
 }
 
-// Graceful shutdown
-process.on("SIGINT", async () => {
+// Graceful shutdown on Ctrl+C or SIGTERM (docker stop, Kubernetes); a second signal is ignored
+let shuttingDown = false;
+async function handleShutdown() {
+  if (shuttingDown) return;
+  shuttingDown = true;
   console.error("Shutting down...");
+  try {
+    await shutdown?.();
+  } catch (error) {
+    console.error("Failed to shut down cleanly:", error);
+  }
   process.exit(0);
-});
+}
+process.on("SIGINT", handleShutdown);
+process.on("SIGTERM", handleShutdown);
 
 main().catch((error) => {
   console.error("Fatal error:", error);
@@ -1,25 +1,28 @@
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import * as dotenv from "dotenv";
-import { TiDBConnector } from "./connector.js";
-import { createServer, setupToolHandlers, validateConfig, getDefaultConfig } from "./server-common.js";
+import { AuditLog, loadAuditConfig } from "./audit.js";
+import { ConnectionManager } from "./connections.js";
+import { createServer, setupToolHandlers, setupResourceHandlers, setupPromptHandlers, loadConnections, describeConnections } from "./server-common.js";
 
 dotenv.config();
 
-let tidbConnector: TiDBConnector | null = null;
+let connections: ConnectionManager | null = null;
+let auditLog: AuditLog | null = null;
 
 const server = createServer();
 
-setupToolHandlers(server, () => tidbConnector);
+setupToolHandlers(server, () => connections, () => auditLog);
+setupResourceHandlers(server, () => connections?.connector() ?? null);
+setupPromptHandlers(server, () => connections?.connector() ?? null);
 
 async function main() {
   try {
     console.error("Starting TiDB Cloud Serverless MCP server (stdio)...");
 
-    const config = getDefaultConfig();
-    validateConfig(config);
-
-    tidbConnector = new TiDBConnector(config);
-    console.error(`Connected to TiDB: ${config.host}:${config.port}/${config.database}`);
+    connections = loadConnections();
+    console.error(describeConnections(connections));
+    auditLog = new AuditLog(loadAuditConfig(process.env));
+    console.error(auditLog.describe());
 
     const transport = new StdioServerTransport();
     await server.connect(transport);
@@ -30,14 +33,20 @@ async function main() {
   }
 }
 
-// Graceful shutdown
-process.on("SIGINT", async () => {
+// Graceful shutdown on Ctrl+C or SIGTERM (docker stop, Kubernetes); a second signal is ignored
+let shuttingDown = false;
+async function handleShutdown() {
+  if (shuttingDown) return;
+  shuttingDown = true;
   console.error("Shutting down...");
-  if (tidbConnector) {
-    await tidbConnector.close();
+  if (connections) {
+    await connections.close();
   }
+  await auditLog?.flush();
   process.exit(0);
-});
+}
+process.on("SIGINT", handleShutdown);
+process.on("SIGTERM", handleShutdown);
 
 main().catch((error) => {
   console.error("Fatal error:", error);
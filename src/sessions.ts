@@ -0,0 +1,170 @@
+// Live HTTP sessions with idle expiry and a cap on their number, so that clients which
+// never close their session do not keep transports, servers and pools alive forever
+
+export interface SessionLimits {
+  // Milliseconds without requests after which a session is closed; 0 disables
+  idleTimeoutMs: number;
+  // Sessions kept at most; the least recently active idle one is evicted for a new one. 0 disables
+  maxSessions: number;
+}
+
+export const DEFAULT_SESSION_IDLE_TIMEOUT_SECONDS = 30 * 60;
+export const DEFAULT_MAX_SESSIONS = 100;
+
+// How often idle sessions are looked for, at most
+const MAX_SWEEP_INTERVAL_MS = 60 * 1000;
+
+export type EvictionReason = "idle" | "capacity";
+
+export interface SessionEntry<T> {
+  id: string;
+  value: T;
+  principal?: string;
+  createdAt: Date;
+  lastActivityAt: Date;
+  // Requests still being served, such as an open SSE stream; a busy session is never idle
+  activeRequests: number;
+}
+
+function parseLimit(value: string | undefined, name: string, fallback: number): number {
+  if (value === undefined || value === "") {
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`${name} must be a non-negative integer, got "${value}"`);
+  }
+  return parsed;
+}
+
+export function loadSessionLimits(env: NodeJS.ProcessEnv): SessionLimits {
+  return {
+    idleTimeoutMs: parseLimit(env.MCP_SESSION_IDLE_TIMEOUT, "MCP_SESSION_IDLE_TIMEOUT", DEFAULT_SESSION_IDLE_TIMEOUT_SECONDS) * 1000,
+    maxSessions: parseLimit(env.MCP_MAX_SESSIONS, "MCP_MAX_SESSIONS", DEFAULT_MAX_SESSIONS),
+  };
+}
+
+// Sessions in least-recently-active order: a Map keeps insertion order, and every
+// activity moves the session to the end
+export class SessionStore<T> {
+  private readonly entries = new Map<string, SessionEntry<T>>();
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    readonly limits: SessionLimits,
+    // Closes an evicted session; the store has already forgotten it
+    private readonly evict: (entry: SessionEntry<T>, reason: EvictionReason) => void,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  // Evicts the least recently active idle sessions until there is room for one more.
+  // Sessions serving a request are never evicted; false when every session is busy.
+  makeRoom(): boolean {
+    if (this.limits.maxSessions <= 0) {
+      return true;
+    }
+    while (this.entries.size >= this.limits.maxSessions) {
+      const oldest = this.list().find((entry) => entry.activeRequests === 0);
+      if (!oldest) {
+        return false;
+      }
+      this.remove(oldest, "capacity");
+    }
+    return true;
+  }
+
+  // null when the store is full of busy sessions
+  add(id: string, value: T, principal?: string): SessionEntry<T> | null {
+    if (!this.makeRoom()) {
+      return null;
+    }
+    const now = new Date(this.now());
+    const entry: SessionEntry<T> = {
+      id,
+      value,
+      ...(principal !== undefined ? { principal } : {}),
+      createdAt: now,
+      lastActivityAt: now,
+      activeRequests: 0,
+    };
+    this.entries.set(id, entry);
+    return entry;
+  }
+
+  get(id: string): SessionEntry<T> | undefined {
+    return this.entries.get(id);
+  }
+
+  // Records a request on the session; call the returned function when it is done
+  begin(id: string): () => void {
+    const entry = this.entries.get(id);
+    if (!entry) {
+      return () => {};
+    }
+    this.touch(entry);
+    entry.activeRequests++;
+    let ended = false;
+    return () => {
+      if (ended) {
+        return;
+      }
+      ended = true;
+      entry.activeRequests--;
+      if (this.entries.get(id) === entry) {
+        this.touch(entry);
+      }
+    };
+  }
+
+  delete(id: string): void {
+    this.entries.delete(id);
+  }
+
+  list(): SessionEntry<T>[] {
+    return [...this.entries.values()];
+  }
+
+  // Closes sessions idle for longer than the timeout; returns how many were closed
+  sweep(): number {
+    if (this.limits.idleTimeoutMs <= 0) {
+      return 0;
+    }
+    const cutoff = this.now() - this.limits.idleTimeoutMs;
+    let evicted = 0;
+    for (const entry of this.list()) {
+      if (entry.activeRequests === 0 && entry.lastActivityAt.getTime() <= cutoff) {
+        this.remove(entry, "idle");
+        evicted++;
+      }
+    }
+    return evicted;
+  }
+
+  start(): void {
+    if (this.limits.idleTimeoutMs <= 0 || this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => this.sweep(), Math.min(this.limits.idleTimeoutMs / 2, MAX_SWEEP_INTERVAL_MS));
+    this.timer.unref();
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  private touch(entry: SessionEntry<T>): void {
+    entry.lastActivityAt = new Date(this.now());
+    this.entries.delete(entry.id);
+    this.entries.set(entry.id, entry);
+  }
+
+  private remove(entry: SessionEntry<T>, reason: EvictionReason): void {
+    this.entries.delete(entry.id);
+    this.evict(entry, reason);
+  }
+}
@@ -0,0 +1,490 @@
+export type TokenType =
+  | "word"
+  | "quoted_identifier"
+  | "string"
+  | "number"
+  | "variable"
+  | "placeholder"
+  | "punct";
+
+export interface Token {
+  type: TokenType;
+  value: string;
+  start: number;
+  end: number;
+}
+
+export type StatementKind =
+  | "read"
+  | "write"
+  | "ddl"
+  | "dcl"
+  | "transaction"
+  | "session"
+  | "admin"
+  | "unknown";
+
+export interface ClassifiedStatement {
+  text: string;
+  tokens: Token[];
+  kind: StatementKind;
+  keyword: string;
+  reason?: string;
+}
+
+const WORD_CHAR = /[\p{L}\p{N}_$]/u;
+const DIGIT = /[0-9]/;
+
+// Tokenizes MySQL/TiDB SQL. Comments and whitespace are dropped, except for
+// executable comments (`/*! ... */`, `/*T! ... */`) whose content TiDB runs as SQL.
+export function tokenize(sql: string): Token[] {
+  const tokens: Token[] = [];
+  let inExecutableComment = false;
+  let i = 0;
+
+  while (i < sql.length) {
+    const ch = sql[i];
+    const next = sql[i + 1];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (inExecutableComment && ch === "*" && next === "/") {
+      inExecutableComment = false;
+      i += 2;
+      continue;
+    }
+
+    if (ch === "#" || (ch === "-" && next === "-" && (i + 2 >= sql.length || /\s/.test(sql[i + 2])))) {
+      const lineEnd = sql.indexOf("\n", i);
+      i = lineEnd === -1 ? sql.length : lineEnd + 1;
+      continue;
+    }
+
+    if (ch === "/" && next === "*") {
+      const executable = /^\/\*(!\d*|T!(\[[^\]]*\])?)/.exec(sql.slice(i, i + 64));
+      if (executable && !inExecutableComment) {
+        inExecutableComment = true;
+        i += executable[0].length;
+        continue;
+      }
+      const commentEnd = sql.indexOf("*/", i + 2);
+      i = commentEnd === -1 ? sql.length : commentEnd + 2;
+      continue;
+    }
+
+    if (ch === "'" || ch === '"' || ch === "`") {
+      const end = scanQuoted(sql, i, ch);
+      tokens.push({
+        type: ch === "`" ? "quoted_identifier" : "string",
+        value: sql.slice(i, end),
+        start: i,
+        end,
+      });
+      i = end;
+      continue;
+    }
+
+    if (ch === "@") {
+      let end = i + 1;
+      if (sql[end] === "@") {
+        end++;
+      }
+      if (sql[end] === "'" || sql[end] === '"' || sql[end] === "`") {
+        end = scanQuoted(sql, end, sql[end]);
+      } else {
+        while (end < sql.length && (WORD_CHAR.test(sql[end]) || sql[end] === ".")) {
+          end++;
+        }
+      }
+      tokens.push({ type: "variable", value: sql.slice(i, end), start: i, end });
+      i = end;
+      continue;
+    }
+
+    if (DIGIT.test(ch) || (ch === "." && next !== undefined && DIGIT.test(next))) {
+      const match = /^(\d*\.?\d+(?:[eE][+-]?\d+)?|\d+\.?)/.exec(sql.slice(i));
+      const end = i + match![0].length;
+      // Identifiers may start with digits (e.g. `1st_table`)
+      if (end < sql.length && WORD_CHAR.test(sql[end])) {
+        const wordEnd = scanWord(sql, i);
+        tokens.push({ type: "word", value: sql.slice(i, wordEnd), start: i, end: wordEnd });
+        i = wordEnd;
+      } else {
+        tokens.push({ type: "number", value: sql.slice(i, end), start: i, end });
+        i = end;
+      }
+      continue;
+    }
+
+    if (WORD_CHAR.test(ch)) {
+      const end = scanWord(sql, i);
+      tokens.push({ type: "word", value: sql.slice(i, end), start: i, end });
+      i = end;
+      continue;
+    }
+
+    tokens.push({ type: ch === "?" ? "placeholder" : "punct", value: ch, start: i, end: i + 1 });
+    i++;
+  }
+
+  return tokens;
+}
+
+function scanWord(sql: string, start: number): number {
+  let end = start;
+  while (end < sql.length && WORD_CHAR.test(sql[end])) {
+    end++;
+  }
+  return end;
+}
+
+function scanQuoted(sql: string, start: number, quote: string): number {
+  let i = start + 1;
+  while (i < sql.length) {
+    if (sql[i] === "\\" && quote !== "`") {
+      i += 2;
+      continue;
+    }
+    if (sql[i] === quote) {
+      // A doubled quote is an escaped quote
+      if (sql[i + 1] === quote) {
+        i += 2;
+        continue;
+      }
+      return i + 1;
+    }
+    i++;
+  }
+  return sql.length;
+}
+
+// Splits SQL text into statements on top-level semicolons and classifies each one.
+// Empty statements (e.g. a trailing semicolon) are dropped.
+export function classifySql(sql: string): ClassifiedStatement[] {
+  const statements: ClassifiedStatement[] = [];
+  let current: Token[] = [];
+
+  const flush = () => {
+    if (current.length > 0) {
+      const text = sql.slice(current[0].start, current[current.length - 1].end);
+      statements.push({ text, tokens: current, ...classifyTokens(current) });
+    }
+    current = [];
+  };
+
+  for (const token of tokenize(sql)) {
+    if (token.type === "punct" && token.value === ";") {
+      flush();
+    } else {
+      current.push(token);
+    }
+  }
+  flush();
+
+  return statements;
+}
+
+export function isWord(token: Token | undefined, ...words: string[]): boolean {
+  return token !== undefined && token.type === "word" && words.includes(token.value.toUpperCase());
+}
+
+export function isIdentifier(token: Token | undefined): token is Token {
+  return token !== undefined && (token.type === "word" || token.type === "quoted_identifier");
+}
+
+export function unquote(token: Token): string {
+  return token.type === "quoted_identifier"
+    ? token.value.slice(1, -1).replace(/``/g, "`")
+    : token.value;
+}
+
+export interface TableReference {
+  database?: string;
+  table: string;
+}
+
+// Reads `name` or `db.name` starting at `start`
+export function readQualifiedName(tokens: Token[], start: number): { target: TableReference; next: number } | null {
+  if (!isIdentifier(tokens[start])) {
+    return null;
+  }
+  if (tokens[start + 1]?.value === "." && isIdentifier(tokens[start + 2])) {
+    return {
+      target: { database: unquote(tokens[start]), table: unquote(tokens[start + 2]) },
+      next: start + 3,
+    };
+  }
+  return { target: { table: unquote(tokens[start]) }, next: start + 1 };
+}
+
+function isPunct(token: Token | undefined, value: string): boolean {
+  return token !== undefined && token.type === "punct" && token.value === value;
+}
+
+// Returns the index just past the parenthesized group opening at `start`
+function skipParens(tokens: Token[], start: number): number {
+  let depth = 0;
+  for (let i = start; i < tokens.length; i++) {
+    if (isPunct(tokens[i], "(")) {
+      depth++;
+    } else if (isPunct(tokens[i], ")")) {
+      depth--;
+      if (depth === 0) {
+        return i + 1;
+      }
+    }
+  }
+  return tokens.length;
+}
+
+interface Classification {
+  kind: StatementKind;
+  keyword: string;
+  reason?: string;
+}
+
+function classifyTokens(tokens: Token[]): Classification {
+  let i = 0;
+  while (isPunct(tokens[i], "(")) {
+    i++;
+  }
+  const first = tokens[i];
+  if (!first || first.type !== "word") {
+    return { kind: "unknown", keyword: first ? first.value : "" };
+  }
+
+  const keyword = first.value.toUpperCase();
+  const rest = tokens.slice(i + 1);
+
+  switch (keyword) {
+    case "SELECT":
+      return classifySelect(tokens.slice(i), keyword);
+
+    case "TABLE":
+    case "VALUES":
+    case "SHOW":
+    case "HELP":
+      return { kind: "read", keyword };
+
+    case "WITH":
+      return classifyWith(rest);
+
+    case "EXPLAIN":
+    case "DESC":
+    case "DESCRIBE":
+      return classifyExplain(rest, keyword);
+
+    case "TRACE": {
+      // TRACE runs the traced statement
+      const inner = classifyTokens(rest);
+      return inner.kind === "read"
+        ? { kind: "read", keyword }
+        : { kind: inner.kind, keyword, reason: `TRACE executes ${inner.keyword}` };
+    }
+
+    case "INSERT":
+    case "UPDATE":
+    case "DELETE":
+    case "REPLACE":
+    case "LOAD":
+    case "IMPORT":
+    case "BATCH":
+    case "CALL":
+      return { kind: "write", keyword };
+
+    case "CREATE":
+    case "ALTER":
+    case "DROP":
+    case "RENAME": {
+      if (rest.some((token, index) => index < 4 && isWord(token, "USER", "ROLE"))) {
+        return { kind: "dcl", keyword };
+      }
+      return { kind: "ddl", keyword };
+    }
+
+    case "TRUNCATE":
+    case "FLASHBACK":
+    case "RECOVER":
+      return { kind: "ddl", keyword };
+
+    case "GRANT":
+    case "REVOKE":
+      return { kind: "dcl", keyword };
+
+    case "SET":
+      if (isWord(rest[0], "PASSWORD") || (isWord(rest[0], "DEFAULT") && isWord(rest[1], "ROLE"))) {
+        return { kind: "dcl", keyword };
+      }
+      if (isWord(rest[0], "TRANSACTION") || (isWord(rest[0], "SESSION", "GLOBAL") && isWord(rest[1], "TRANSACTION"))) {
+        return { kind: "transaction", keyword };
+      }
+      return { kind: "session", keyword };
+
+    case "USE":
+      return { kind: "session", keyword };
+
+    case "BEGIN":
+    case "START":
+    case "COMMIT":
+    case "ROLLBACK":
+    case "SAVEPOINT":
+    case "RELEASE":
+    case "XA":
+    case "LOCK":
+    case "UNLOCK":
+      return { kind: "transaction", keyword };
+
+    case "ADMIN":
+    case "ANALYZE":
+    case "KILL":
+    case "FLUSH":
+    case "SPLIT":
+    case "BACKUP":
+    case "RESTORE":
+    case "SHUTDOWN":
+      return { kind: "admin", keyword };
+
+    default:
+      return { kind: "unknown", keyword };
+  }
+}
+
+function classifySelect(tokens: Token[], keyword: string): Classification {
+  for (let i = 0; i < tokens.length; i++) {
+    if (isWord(tokens[i], "FOR") && isWord(tokens[i + 1], "UPDATE", "SHARE")) {
+      return { kind: "write", keyword, reason: `SELECT ... FOR ${tokens[i + 1].value.toUpperCase()} takes row locks` };
+    }
+    if (isWord(tokens[i], "LOCK") && isWord(tokens[i + 1], "IN") && isWord(tokens[i + 2], "SHARE")) {
+      return { kind: "write", keyword, reason: "SELECT ... LOCK IN SHARE MODE takes row locks" };
+    }
+    if (isWord(tokens[i], "INTO") && isWord(tokens[i + 1], "OUTFILE", "DUMPFILE")) {
+      return { kind: "write", keyword, reason: `SELECT ... INTO ${tokens[i + 1].value.toUpperCase()} writes a file` };
+    }
+  }
+  return { kind: "read", keyword };
+}
+
+// WITH [RECURSIVE] name [(cols)] AS (...) [, ...] <main statement>
+function classifyWith(tokens: Token[]): Classification {
+  let i = isWord(tokens[0], "RECURSIVE") ? 1 : 0;
+
+  while (i < tokens.length) {
+    // CTE name
+    i++;
+    if (isPunct(tokens[i], "(")) {
+      i = skipParens(tokens, i);
+    }
+    if (!isWord(tokens[i], "AS") || !isPunct(tokens[i + 1], "(")) {
+      return { kind: "unknown", keyword: "WITH" };
+    }
+    i = skipParens(tokens, i + 1);
+    if (!isPunct(tokens[i], ",")) {
+      break;
+    }
+    i++;
+  }
+
+  const main = classifyTokens(tokens.slice(i));
+  if (main.kind === "read") {
+    return { kind: "read", keyword: "WITH" };
+  }
+  return { ...main, keyword: "WITH", reason: main.reason ?? `WITH ... ${main.keyword}` };
+}
+
+// EXPLAIN [ANALYZE] [FORMAT = x] <statement>, EXPLAIN FOR CONNECTION n, DESC <table>
+function classifyExplain(tokens: Token[], keyword: string): Classification {
+  let i = 0;
+  let analyze = false;
+
+  while (i < tokens.length) {
+    if (isWord(tokens[i], "ANALYZE")) {
+      analyze = true;
+      i++;
+    } else if (isWord(tokens[i], "FORMAT") && isPunct(tokens[i + 1], "=")) {
+      i += 3;
+    } else {
+      break;
+    }
+  }
+
+  if (!analyze) {
+    return { kind: "read", keyword };
+  }
+
+  // EXPLAIN ANALYZE runs the statement to collect runtime statistics
+  const inner = classifyTokens(tokens.slice(i));
+  if (inner.kind === "read") {
+    return { kind: "read", keyword };
+  }
+  return { kind: inner.kind, keyword, reason: `${keyword} ANALYZE executes ${inner.keyword}` };
+}
+
+export function describeStatement(statement: ClassifiedStatement): string {
+  return statement.reason ?? `${statement.keyword || "statement"} is ${statement.kind}`;
+}
+
+// Keywords after which a table name (or comma-separated list of them) follows
+const TABLE_PREFIX_KEYWORDS = ["FROM", "JOIN", "UPDATE", "INTO", "TABLE", "TABLES"];
+
+// Words that end a table reference rather than naming its alias
+const TABLE_ALIAS_STOP_WORDS = [
+  "WHERE", "ON", "USING", "JOIN", "INNER", "LEFT", "RIGHT", "CROSS", "NATURAL", "STRAIGHT_JOIN",
+  "GROUP", "ORDER", "LIMIT", "HAVING", "WINDOW", "UNION", "EXCEPT", "INTERSECT", "SET", "VALUES",
+  "VALUE", "SELECT", "PARTITION", "USE", "FORCE", "IGNORE", "FOR", "LOCK", "AS", "ADD", "DROP",
+  "MODIFY", "CHANGE", "RENAME", "ALTER", "LIKE", "WITH", "TO",
+];
+
+// Best-effort list of the tables a statement reads or writes, including those in
+// subqueries. CTE names are left out; function arguments such as
+// EXTRACT(YEAR FROM col) can produce extra entries.
+export function referencedTables(sql: string): TableReference[] {
+  const found = new Map<string, TableReference>();
+
+  for (const { tokens } of classifySql(sql)) {
+    const cteNames = new Set<string>();
+    tokens.forEach((token, i) => {
+      if (isIdentifier(token) && isWord(tokens[i + 1], "AS") && isPunct(tokens[i + 2], "(")) {
+        cteNames.add(unquote(token).toLowerCase());
+      }
+    });
+    const createsIndex = isWord(tokens[0], "CREATE") && tokens.some((token) => isWord(token, "INDEX"));
+
+    for (let i = 0; i < tokens.length; i++) {
+      const prefix = isWord(tokens[i], ...TABLE_PREFIX_KEYWORDS) || (createsIndex && isWord(tokens[i], "ON"));
+      if (!prefix) {
+        continue;
+      }
+      let next = i + 1;
+      if (isWord(tokens[next], "IF")) {
+        next += isWord(tokens[next + 1], "NOT") ? 3 : 2;
+      }
+      while (next < tokens.length) {
+        const name = readQualifiedName(tokens, next);
+        if (!name || (name.target.database === undefined && isWord(tokens[next], "SELECT", "LATERAL", "DUAL"))) {
+          break;
+        }
+        if (name.target.database !== undefined || !cteNames.has(name.target.table.toLowerCase())) {
+          const key = `${name.target.database ?? ""}.${name.target.table}`.toLowerCase();
+          found.set(key, name.target);
+        }
+        next = name.next;
+        // Skip an alias: `t AS x` or `t x`
+        if (isWord(tokens[next], "AS")) {
+          next++;
+        }
+        if (isIdentifier(tokens[next]) && !isWord(tokens[next], ...TABLE_ALIAS_STOP_WORDS)) {
+          next++;
+        }
+        if (!isPunct(tokens[next], ",")) {
+          break;
+        }
+        next++;
+      }
+    }
+  }
+
+  return [...found.values()];
+}
@@ -0,0 +1,769 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import {
+  CallToolResult,
+  ServerNotification,
+  ServerRequest,
+  ToolAnnotations,
+} from "@modelcontextprotocol/sdk/types.js";
+import { z, ZodRawShape, ZodTypeAny } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import type { AuditDetails } from "./audit.js";
+import { ConnectionManager, ConnectionProfile } from "./connections.js";
+import { TiDBConnector } from "./connector.js";
+import { DestructiveStatement, findDestructiveStatements } from "./destructive.js";
+import { EmbeddingProvider, embedTexts } from "./embeddings.js";
+import { DEFAULT_RRF_K } from "./hybrid.js";
+import { analyzePlan, parsePlan } from "./explain.js";
+import { formatResultSet, resultFormatSchema } from "./formatters.js";
+import { decodeCursor, encodeCursor, fingerprintQuery, hasTopLevelOrderBy, UNORDERED_PAGES_WARNING } from "./pagination.js";
+import { executeParamsSchema, resolveExecuteParams, statementParamsSchema, toDriverParams } from "./params.js";
+import { inferRelationships, toMermaidErDiagram } from "./relationships.js";
+import {
+  DEFAULT_VECTOR_COLUMNS,
+  DISTANCE_METRICS,
+  FILTER_OPERATORS,
+  INDEX_METRICS,
+  MAX_VECTOR_DIMENSIONS,
+  VectorColumns,
+} from "./vector.js";
+
+export interface ToolContext {
+  // Connector of the connection the call runs against
+  connector: TiDBConnector;
+  connections: ConnectionManager;
+  server: Server;
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>;
+  // Rows the call returned or changed, for the audit log
+  audit: AuditDetails;
+}
+
+export interface ToolDefinition<Shape extends ZodRawShape = ZodRawShape> {
+  name: string;
+  title: string;
+  description: string;
+  inputSchema: Shape;
+  annotations?: ToolAnnotations;
+  // Hidden when the server runs in read-only mode
+  requiresWrite?: boolean;
+  // Manages connections instead of running against one: takes no connection
+  // argument and is not subject to per-connection restrictions
+  global?: boolean;
+  // Changes state that outlives the call (active connection, database, variables);
+  // unavailable in stateless HTTP mode, where every request starts afresh
+  session?: boolean;
+  // Method syntax keeps handler arguments bivariant, so a tool of any shape fits the
+  // ToolDefinition[] registry; callers pass arguments parsed with toolInputSchema
+  handler(args: z.objectOutputType<Shape, ZodTypeAny>, context: ToolContext): Promise<CallToolResult>;
+}
+
+export function defineTool<Shape extends ZodRawShape>(definition: ToolDefinition<Shape>): ToolDefinition<Shape> {
+  return definition;
+}
+
+export function textResult(text: string): CallToolResult {
+  return {
+    content: [
+      {
+        type: "text",
+        text,
+      },
+    ],
+  };
+}
+
+export function jsonResult(value: unknown): CallToolResult {
+  return textResult(JSON.stringify(value, null, 2));
+}
+
+// Tables covered by describe_schema; larger databases are cut off
+const MAX_SCHEMA_TABLES = 200;
+
+// Rows accepted by one vector_upsert call, written as a single statement
+const MAX_UPSERT_ROWS = 500;
+
+// Upper bound for k in vector_search and hybrid_search
+const MAX_SEARCH_K = 1000;
+
+// hybrid_search fetches this many candidates per requested row from each retriever
+const HYBRID_CANDIDATE_FACTOR = 4;
+
+const vectorColumnsSchema = z.object({
+  id: z.string().optional().describe(`Primary key column. Default: ${DEFAULT_VECTOR_COLUMNS.id}`),
+  content: z.string().optional().describe(`Text column. Default: ${DEFAULT_VECTOR_COLUMNS.content}`),
+  metadata: z.string().optional().describe(`JSON metadata column. Default: ${DEFAULT_VECTOR_COLUMNS.metadata}`),
+  vector: z.string().optional().describe(`VECTOR column. Default: ${DEFAULT_VECTOR_COLUMNS.vector}`),
+}).describe("Column names, when they differ from the defaults");
+
+const filterValueSchema = z.union([z.string(), z.number(), z.boolean(), z.null()]);
+
+const vectorFilterSchema = z.object({
+  column: z.string().describe("Column to filter on"),
+  path: z.string().optional().describe("JSON path inside the column, e.g. $.category for a metadata JSON column"),
+  op: z.enum(FILTER_OPERATORS).describe("Comparison: =, !=, <, <=, >, >=, in, not_in, like, is_null or is_not_null"),
+  value: z.union([filterValueSchema, z.array(filterValueSchema)]).optional().describe("Value to compare with; an array for in/not_in, omitted for is_null/is_not_null"),
+});
+
+function requireEmbeddingProvider(connector: TiDBConnector): EmbeddingProvider {
+  const provider = connector.embeddingProvider;
+  if (!provider) {
+    throw new Error("No embedding provider is configured (TIDB_EMBEDDING_PROVIDER). Pass vectors instead of text.");
+  }
+  return provider;
+}
+
+function resolveVectorColumns(columns: Partial<VectorColumns> | undefined): VectorColumns {
+  return { ...DEFAULT_VECTOR_COLUMNS, ...columns };
+}
+
+// Leave the user enough time to read the prompt before the request times out
+const CONFIRMATION_TIMEOUT_MS = 5 * 60 * 1000;
+
+async function describeDestructiveStatements(
+  statements: DestructiveStatement[],
+  connector: TiDBConnector
+): Promise<string> {
+  const lines: string[] = [];
+  for (const [index, { statement, reason, targets }] of statements.entries()) {
+    let estimate = "unknown";
+    try {
+      const counts = await Promise.all(targets.map(({ database, table }) => connector.estimateRowCount(database, table)));
+      const known = counts.filter((count): count is number => count !== null);
+      if (known.length > 0 && known.length === counts.length) {
+        estimate = `~${known.reduce((sum, count) => sum + count, 0)}`;
+      }
+    } catch (error) {
+      // Estimates are best-effort; the target may not exist yet
+    }
+    lines.push(`${index + 1}. ${statement}\n   ${reason} (estimated affected rows: ${estimate})`);
+  }
+  return lines.join("\n");
+}
+
+// Asks the user to confirm destructive statements. Returns a result to send back
+// instead of executing, or null when the statements may run.
+async function confirmDestructiveStatements(
+  sqlStmts: string | string[],
+  confirm: boolean | undefined,
+  { connector, server }: ToolContext
+): Promise<CallToolResult | null> {
+  const destructive = findDestructiveStatements(sqlStmts);
+  if (destructive.length === 0) {
+    return null;
+  }
+
+  const summary = await describeDestructiveStatements(destructive, connector);
+
+  if (server.getClientCapabilities()?.elicitation) {
+    const response = await server.elicitInput({
+      message: `The following statements are destructive:\n${summary}\n\nDo you want to run them?`,
+      requestedSchema: {
+        type: "object",
+        properties: {
+          confirm: {
+            type: "boolean",
+            title: "Run destructive statements",
+            description: "Check to execute the statements listed above",
+          },
+        },
+        required: ["confirm"],
+      },
+    }, { timeout: CONFIRMATION_TIMEOUT_MS });
+    if (response.action === "accept" && response.content?.confirm === true) {
+      return null;
+    }
+    return textResult("Execution cancelled by the user. No statements were executed.");
+  }
+
+  if (confirm === true) {
+    return null;
+  }
+  return {
+    ...textResult(
+      `Confirmation required. No statements were executed.\n\n` +
+      `The following statements are destructive:\n${summary}\n\n` +
+      `Show these statements to the user and, only after they approve, call db_execute again with confirm: true.`
+    ),
+    isError: true,
+  };
+}
+
+export const toolDefinitions: ToolDefinition[] = [
+  defineTool({
+    name: "list_connections",
+    title: "List Connections",
+    description: "List the named connection profiles this server can use (for example dev, staging and prod clusters), with their host, database, read-only setting and allowed tools, and which one is active. Every tool accepts a connection argument to run against a profile other than the active one.",
+    inputSchema: {},
+    annotations: { readOnlyHint: true },
+    global: true,
+    handler: async (_args, { connections }) => {
+      return jsonResult(connections.list().map((connection) => ({
+        name: connection.name,
+        description: connection.description,
+        active: connection.active,
+        default: connection.default,
+        host: connection.host,
+        port: connection.port,
+        database: connection.database,
+        read_only: connection.readOnly,
+        allowed_tools: connection.allowedTools,
+      })));
+    },
+  }),
+  defineTool({
+    name: "use_connection",
+    title: "Use Connection",
+    description: "Make a named connection profile the active one for the following tool calls. Use list_connections to see the available profiles.",
+    inputSchema: {
+      name: z.string().describe("Name of the connection profile"),
+    },
+    annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true },
+    global: true,
+    session: true,
+    handler: async ({ name }, { connections }) => {
+      const profile = connections.profile(name);
+      // Fail before switching if the cluster cannot be reached
+      const database = await connections.connector(profile.name).currentDatabase();
+      connections.use(profile.name);
+      return textResult(
+        `Now using connection: ${profile.name}` +
+        (database ? ` (database: ${database})` : "") +
+        (profile.config.readOnly ? " [read-only]" : "")
+      );
+    },
+  }),
+  defineTool({
+    name: "show_databases",
+    title: "Show Databases",
+    description: "Show all databases in the TiDB cluster",
+    inputSchema: {
+      format: resultFormatSchema.optional(),
+    },
+    annotations: { readOnlyHint: true },
+    handler: async ({ format }, { connector }) => {
+      return formatResultSet(await connector.queryResult("SHOW DATABASES"), format ?? connector.defaultResultFormat);
+    },
+  }),
+  defineTool({
+    name: "switch_database",
+    title: "Switch Database",
+    description: "Switch to a specific database. Note: The user has already specified the database in the configuration, so you don't need to switch database before you execute the sql statements.",
+    inputSchema: {
+      db_name: z.string().describe("The name of the database to switch to"),
+      username: z.string().optional().describe("Optional username for the new connection"),
+      password: z.string().optional().describe("Optional password for the new connection"),
+    },
+    annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true },
+    session: true,
+    handler: async ({ db_name, username, password }, { connector }) => {
+      await connector.switchDatabase(db_name, username, password);
+      return textResult(`Successfully switched to database: ${db_name}`);
+    },
+  }),
+  defineTool({
+    name: "set_session_variable",
+    title: "Set Session Variable",
+    description: "Set a TiDB system variable (for example max_execution_time or tidb_isolation_read_engines) for this session only. Other sessions sharing the server are not affected. Pass null as the value to restore the default.",
+    inputSchema: {
+      name: z.string().describe("Variable name, e.g. max_execution_time"),
+      value: z.union([z.string(), z.number(), z.boolean(), z.null()]).describe("New value, or null to restore the default"),
+    },
+    annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true },
+    session: true,
+    handler: async ({ name, value }, { connector }) => {
+      const boundValue = typeof value === "boolean" ? (value ? 1 : 0) : value;
+      const variable = await connector.setSessionVariable(name, boundValue);
+      return textResult(value === null
+        ? `Restored the default of ${variable} for this session`
+        : `Set ${variable} = ${JSON.stringify(value)} for this session`);
+    },
+  }),
+  defineTool({
+    name: "show_tables",
+    title: "Show Tables",
+    description: "Show all tables in the current database",
+    inputSchema: {
+      format: resultFormatSchema.optional(),
+    },
+    annotations: { readOnlyHint: true },
+    handler: async ({ format }, { connector }) => {
+      return formatResultSet(await connector.queryResult("SHOW TABLES"), format ?? connector.defaultResultFormat);
+    },
+  }),
+  defineTool({
+    name: "describe_table",
+    title: "Describe Table",
+    description: "Describe a table: columns (type, nullability, default, comment), indexes including vector and full-text indexes, primary key and whether it is clustered, foreign keys, SHOW CREATE TABLE output, estimated row count and size, and TiFlash replica status.",
+    inputSchema: {
+      table: z.string().describe("Table name"),
+      database: z.string().optional().describe("Database name (defaults to the current database)"),
+    },
+    annotations: { readOnlyHint: true },
+    handler: async ({ table, database }, { connector, audit }) => {
+      const resolvedDatabase = database ?? await connector.currentDatabase();
+      if (!resolvedDatabase) {
+        throw new Error("No database selected. Pass the database argument.");
+      }
+      audit.sql = [];
+      const description = await connector.describeTable(resolvedDatabase, table, audit.sql);
+      return jsonResult({
+        database: description.database,
+        table: description.table,
+        type: description.type,
+        comment: description.comment,
+        columns: description.columns,
+        primary_key: description.primaryKey,
+        indexes: description.indexes,
+        foreign_keys: description.foreignKeys.map((key) => ({
+          name: key.name,
+          columns: key.columns,
+          referenced_database: key.referencedDatabase,
+          referenced_table: key.referencedTable,
+          referenced_columns: key.referencedColumns,
+          on_update: key.onUpdate,
+          on_delete: key.onDelete,
+        })),
+        rows_estimate: description.rowsEstimate,
+        data_bytes: description.dataBytes,
+        index_bytes: description.indexBytes,
+        tiflash_replica: description.tiflashReplica && {
+          count: description.tiflashReplica.count,
+          available: description.tiflashReplica.available,
+          progress: description.tiflashReplica.progress,
+          location_labels: description.tiflashReplica.locationLabels,
+        },
+        ddl: description.ddl,
+      });
+    },
+  }),
+  defineTool({
+    name: "describe_schema",
+    title: "Describe Schema",
+    description: "Map every table in a database in one call: a compact summary of tables, columns and keys, the relationships between tables from declared foreign keys (and optionally guessed from *_id column names), and a Mermaid erDiagram.",
+    inputSchema: {
+      database: z.string().optional().describe("Database name (defaults to the current database)"),
+      infer_relationships: z.boolean().optional().describe("Also guess relationships from <table>_id column names that match a table's primary key. Default: false"),
+      diagram_columns: z.enum(["all", "keys", "none"]).optional().describe("Columns drawn in the diagram: all, keys (primary, foreign and unique keys; default) or none"),
+    },
+    annotations: { readOnlyHint: true },
+    handler: async ({ database, infer_relationships, diagram_columns }, { connector, audit }) => {
+      const resolvedDatabase = database ?? await connector.currentDatabase();
+      if (!resolvedDatabase) {
+        throw new Error("No database selected. Pass the database argument.");
+      }
+
+      audit.sql = [];
+      const schema = await connector.getDatabaseSchema(resolvedDatabase, audit.sql);
+      const totalTables = schema.tables.length;
+      if (totalTables > MAX_SCHEMA_TABLES) {
+        schema.tables = schema.tables.slice(0, MAX_SCHEMA_TABLES);
+      }
+      const relationships = inferRelationships(schema, { fromNames: infer_relationships ?? false });
+      const diagram = toMermaidErDiagram(schema, relationships, diagram_columns ?? "keys");
+
+      const summary = {
+        database: resolvedDatabase,
+        tables: schema.tables.map((table) => ({
+          name: table.table,
+          type: table.type,
+          rows_estimate: table.rowsEstimate,
+          ...(table.comment ? { comment: table.comment } : {}),
+          primary_key: table.indexes.find((index) => index.kind === "primary")?.columns ?? [],
+          columns: table.columns.map((column) => `${column.name} ${column.type}${column.nullable ? "" : " NOT NULL"}`),
+        })),
+        relationships: relationships.map((link) => ({
+          from: `${link.table}(${link.columns.join(", ")})`,
+          to: `${link.referencedTable}(${link.referencedColumns.join(", ")})`,
+          cardinality: link.cardinality,
+          optional: link.optional,
+          source: link.source,
+        })),
+        ...(totalTables > MAX_SCHEMA_TABLES ? { truncated: true, total_tables: totalTables } : {}),
+      };
+
+      return {
+        content: [
+          { type: "text", text: JSON.stringify(summary) },
+          { type: "text", text: "```mermaid\n" + diagram + "\n```" },
+        ],
+      };
+    },
+  }),
+  defineTool({
+    name: "db_query",
+    title: "Database Query",
+    description: "Query data from TiDB database via SQL. Best practices: use LIMIT for SELECT statements to avoid too many rows returned, and pass values through params instead of concatenating them into the SQL. Large results are truncated; pass next_cursor back to fetch the next page. Use this for SELECT/SHOW/DESCRIBE/EXPLAIN read-only statements.",
+    inputSchema: {
+      sql_stmt: z.string().describe("The SQL query statement to execute. Use ? placeholders for values."),
+      params: statementParamsSchema.optional().describe("Values bound to the ? placeholders, in order"),
+      max_rows: z.number().int().positive().optional().describe("Maximum rows to return in this page (capped by the server limit)"),
+      cursor: z.string().optional().describe("next_cursor from a previous truncated result, to fetch the next page. Pass the same sql_stmt and params."),
+      format: resultFormatSchema.optional(),
+    },
+    annotations: { readOnlyHint: true },
+    handler: async ({ sql_stmt, params, max_rows, cursor, format }, { connector, audit }) => {
+      const boundParams = params ? toDriverParams(params) : undefined;
+      const fingerprint = fingerprintQuery(sql_stmt, boundParams);
+      const offset = cursor ? decodeCursor(cursor, fingerprint) : 0;
+      const limits = connector.queryLimits;
+
+      const page = await connector.queryPage(sql_stmt, boundParams, {
+        offset,
+        maxRows: Math.min(max_rows ?? limits.maxRows, limits.maxRows),
+        maxBytes: limits.maxBytes,
+      });
+      audit.rows = page.rows.length;
+      return formatResultSet(page, format ?? connector.defaultResultFormat, {
+        row_count: page.rows.length,
+        truncated: page.truncated,
+        total_rows_estimate: page.totalRows,
+        total_rows_exact: page.totalRowsExact,
+        ...(page.truncated ? { next_cursor: encodeCursor(page.nextOffset!, fingerprint) } : {}),
+        ...((page.truncated || offset > 0) && !hasTopLevelOrderBy(sql_stmt) ? { warning: UNORDERED_PAGES_WARNING } : {}),
+      });
+    },
+  }),
+  defineTool({
+    name: "explain_query",
+    title: "Explain Query",
+    description: "Show how TiDB executes a statement: the plan as a nested operator tree (estRows, task, access object, operator info; plus actRows and execution info with analyze) and findings such as full table scans, filters that use no index, missing statistics, estimate misses and TiKV vs TiFlash reads. analyze runs the statement and is only allowed for read-only statements.",
+    inputSchema: {
+      sql_stmt: z.string().describe("The statement to explain, without EXPLAIN. Use ? placeholders for values."),
+      params: statementParamsSchema.optional().describe("Values bound to the ? placeholders, in order"),
+      analyze: z.boolean().optional().describe("Run EXPLAIN ANALYZE to get actual row counts and timings. Executes the statement; read-only statements only. Default: false"),
+    },
+    annotations: { readOnlyHint: true },
+    handler: async ({ sql_stmt, params, analyze }, { connector, audit }) => {
+      audit.sql = [];
+      const rows = await connector.explain(sql_stmt, params ? toDriverParams(params) : undefined, analyze ?? false, audit.sql);
+      const plan = parsePlan(rows);
+      return jsonResult({
+        analyzed: analyze ?? false,
+        findings: analyzePlan(plan),
+        plan,
+      });
+    },
+  }),
+  defineTool({
+    name: "db_execute",
+    title: "Database Execute",
+    description: "Execute operations on TiDB database via SQL. Use this for INSERT/UPDATE/DELETE/CREATE/DROP statements. Can accept a single statement or an array of statements that will be executed in a transaction. Each array element must contain exactly one statement, and transaction control (BEGIN/COMMIT) or session statements (USE/SET) are not allowed. Destructive statements (DROP, TRUNCATE, DELETE/UPDATE without WHERE, ALTER TABLE ... DROP/TRUNCATE) require the user's confirmation. Use dry_run to preview the effect of a change before running it.",
+    inputSchema: {
+      sql_stmts: z.union([
+        z.string().describe("A single SQL statement"),
+        z.array(z.string()).describe("Array of SQL statements"),
+      ]).describe("SQL statement(s) to execute. Use ? placeholders for values."),
+      params: executeParamsSchema.optional().describe("Values bound to the ? placeholders. Read as one list (or null) per statement only when sql_stmts is an array, params has exactly one entry per statement and every entry is a list or null; otherwise a flat list for a single statement. To bind one vector to a one-statement array, wrap it: [[[0.1, 0.2]]]"),
+      dry_run: z.boolean().optional().describe("Run the statements in a transaction that is always rolled back and report affected rows and warnings. Only INSERT/UPDATE/DELETE/REPLACE are run; other statements (DDL, KILL, ANALYZE, LOAD DATA, ...) are reported but not executed."),
+      sample_rows: z.number().int().min(0).max(100).optional().describe("In dry-run mode, number of rows to sample before and after each single-table UPDATE/DELETE"),
+      confirm: z.boolean().optional().describe("Set to true after the user has approved destructive statements (DROP, TRUNCATE, DELETE/UPDATE without WHERE, ALTER TABLE ... DROP/TRUNCATE). Only needed when the client cannot prompt the user directly."),
+    },
+    annotations: { readOnlyHint: false, destructiveHint: true },
+    requiresWrite: true,
+    handler: async ({ sql_stmts, params, dry_run, sample_rows, confirm }, context) => {
+      const boundParams = resolveExecuteParams(sql_stmts, params);
+      if (dry_run) {
+        const results = await context.connector.execute(sql_stmts, {
+          dryRun: true,
+          sampleRows: sample_rows,
+          params: boundParams,
+        });
+        return jsonResult({
+          dryRun: true,
+          note: "All changes were rolled back",
+          results,
+        });
+      }
+      const refusal = await confirmDestructiveStatements(sql_stmts, confirm, context);
+      if (refusal) {
+        return refusal;
+      }
+      const results = await context.connector.execute(sql_stmts, { params: boundParams });
+      context.audit.affectedRows = results.reduce((total, result) => total + result.affectedRows, 0);
+      return jsonResult(results);
+    },
+  }),
+  defineTool({
+    name: "vector_create_table",
+    title: "Create Vector Table",
+    description: "Create a table for vector search: an id primary key, a content TEXT column, a metadata JSON column and a VECTOR(dimensions) column with an HNSW vector index for the chosen distance metric. The vector index is built on TiFlash; pass vector_index: false on clusters without TiFlash.",
+    inputSchema: {
+      table: z.string().describe("Name of the table to create"),
+      database: z.string().optional().describe("Database name (defaults to the current database)"),
+      dimensions: z.number().int().min(1).max(MAX_VECTOR_DIMENSIONS).optional().describe("Vector dimensions. Defaults to the configured embedding provider's dimensions"),
+      metric: z.enum(INDEX_METRICS).optional().describe("Distance metric of the vector index: cosine (default) or l2. Searches must use the same metric to use the index"),
+      id_type: z.enum(["bigint", "string"]).optional().describe("Type of the id column: bigint (default) or string (VARCHAR(255))"),
+      columns: vectorColumnsSchema.optional(),
+      vector_index: z.boolean().optional().describe("Create the HNSW vector index. Default: true"),
+      if_not_exists: z.boolean().optional().describe("Do nothing when the table already exists. Default: false"),
+    },
+    annotations: { readOnlyHint: false, destructiveHint: false },
+    requiresWrite: true,
+    handler: async ({ table, database, dimensions, metric, id_type, columns, vector_index, if_not_exists }, { connector, audit }) => {
+      const resolvedDimensions = dimensions ?? connector.embeddingProvider?.dimensions;
+      if (!resolvedDimensions) {
+        throw new Error("Pass dimensions; no embedding provider is configured to take them from.");
+      }
+      const names = resolveVectorColumns(columns);
+      audit.sql = [];
+      const ddl = await connector.createVectorTable({
+        database,
+        table,
+        dimensions: resolvedDimensions,
+        metric: metric ?? "cosine",
+        idType: id_type ?? "bigint",
+        idColumn: names.id,
+        contentColumn: names.content,
+        metadataColumn: names.metadata,
+        vectorColumn: names.vector,
+        createIndex: vector_index ?? true,
+        ifNotExists: if_not_exists ?? false,
+      }, audit.sql);
+      return jsonResult({ table, dimensions: resolvedDimensions, ddl });
+    },
+  }),
+  defineTool({
+    name: "vector_upsert",
+    title: "Upsert Vectors",
+    description: `Insert rows into a vector table, replacing the content, metadata and embedding of rows whose id already exists. Rows without an embedding are embedded server-side from their content using the configured embedding provider. Up to ${MAX_UPSERT_ROWS} rows per call.`,
+    inputSchema: {
+      table: z.string().describe("Vector table name"),
+      database: z.string().optional().describe("Database name (defaults to the current database)"),
+      rows: z.array(z.object({
+        id: z.union([z.string(), z.number()]).describe("Primary key value"),
+        content: z.string().nullable().optional().describe("Text stored with the vector; embedded when embedding is omitted"),
+        metadata: z.any().optional().describe("Any JSON value, stored in the metadata column"),
+        embedding: z.array(z.number()).optional().describe("The vector itself"),
+      })).min(1).max(MAX_UPSERT_ROWS).describe("Rows to insert or replace"),
+      columns: vectorColumnsSchema.optional(),
+    },
+    annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true },
+    requiresWrite: true,
+    handler: async ({ table, database, rows, columns }, { connector, audit }) => {
+      const pending = rows.filter((row) => !row.embedding);
+      if (pending.some((row) => typeof row.content !== "string" || row.content === "")) {
+        throw new Error("Every row needs an embedding or non-empty content to embed");
+      }
+      const embedder = pending.length > 0 ? requireEmbeddingProvider(connector) : null;
+      const embedded = embedder ? await embedTexts(embedder, pending.map((row) => row.content as string)) : [];
+
+      let next = 0;
+      const vectorRows = rows.map((row) => ({ ...row, embedding: row.embedding ?? embedded[next++] }));
+      audit.sql = [];
+      const affectedRows = await connector.upsertVectors(database, table, resolveVectorColumns(columns), vectorRows, audit.sql);
+      audit.affectedRows = affectedRows;
+      return jsonResult({
+        rows: rows.length,
+        embedded: pending.length,
+        affected_rows: affectedRows,
+        ...(embedder ? { embedding_model: `${embedder.name}/${embedder.model}` } : {}),
+      });
+    },
+  }),
+  defineTool({
+    name: "vector_search",
+    title: "Vector Search",
+    description: "Find the k rows nearest to a query vector, or to query text embedded server-side, ordered by distance (smaller is closer). Supports cosine, l2, l1 and inner_product metrics, column and JSON metadata filters, and a maximum distance. The vector index is only used with the metric it was built for and without filters; filtered searches compare every matching row.",
+    inputSchema: {
+      table: z.string().describe("Vector table name"),
+      database: z.string().optional().describe("Database name (defaults to the current database)"),
+      query_vector: z.array(z.number()).optional().describe("Query vector; pass this or query_text"),
+      query_text: z.string().optional().describe("Query text, embedded with the configured embedding provider"),
+      k: z.number().int().min(1).max(MAX_SEARCH_K).optional().describe("Number of rows to return. Default: 10"),
+      metric: z.enum(DISTANCE_METRICS).optional().describe("Distance metric: cosine (default), l2, l1 or inner_product (negated, so smaller is closer)"),
+      filters: z.array(vectorFilterSchema).optional().describe("Conditions rows must match, combined with AND"),
+      max_distance: z.number().optional().describe("Drop results further away than this distance"),
+      vector_column: z.string().optional().describe(`VECTOR column to search. Default: ${DEFAULT_VECTOR_COLUMNS.vector}`),
+      columns: z.array(z.string()).optional().describe("Columns to return. Default: every column except the vector column"),
+      format: resultFormatSchema.optional(),
+    },
+    annotations: { readOnlyHint: true },
+    handler: async ({ table, database, query_vector, query_text, k, metric, filters, max_distance, vector_column, columns, format }, { connector, audit }) => {
+      if ((query_vector === undefined) === (query_text === undefined)) {
+        throw new Error("Pass exactly one of query_vector or query_text");
+      }
+      const vector = query_vector ?? (await embedTexts(requireEmbeddingProvider(connector), [query_text!]))[0];
+      const resolvedMetric = metric ?? "cosine";
+
+      audit.sql = [];
+      const result = await connector.vectorSearch({
+        database,
+        table,
+        vectorColumn: vector_column ?? DEFAULT_VECTOR_COLUMNS.vector,
+        columns,
+        vector,
+        metric: resolvedMetric,
+        k: k ?? 10,
+        filters: filters ?? [],
+        maxDistance: max_distance,
+      }, audit.sql);
+      audit.rows = result.rows.length;
+      return formatResultSet(result, format ?? connector.defaultResultFormat, {
+        row_count: result.rows.length,
+        metric: resolvedMetric,
+      });
+    },
+  }),
+  defineTool({
+    name: "hybrid_search",
+    title: "Hybrid Search",
+    description: "Search a table with a full-text keyword query and a vector query at once and fuse both rankings with weighted reciprocal rank fusion (RRF). Each result has its fused score, which retrievers matched it, its keyword rank and relevance, its vector rank and distance, and the row. The text column needs a FULLTEXT index; the query text is embedded server-side unless query_vector is given.",
+    inputSchema: {
+      table: z.string().describe("Table with a text column and a VECTOR column"),
+      database: z.string().optional().describe("Database name (defaults to the current database)"),
+      query: z.string().min(1).describe("Keyword query for full-text search; also embedded for the vector search unless query_vector is given"),
+      query_vector: z.array(z.number()).optional().describe("Query vector for the vector search"),
+      k: z.number().int().min(1).max(MAX_SEARCH_K).optional().describe("Number of fused rows to return. Default: 10"),
+      candidates: z.number().int().min(1).max(MAX_SEARCH_K).optional().describe(`Rows fetched from each retriever before fusion. Default: ${HYBRID_CANDIDATE_FACTOR} x k`),
+      weights: z.object({
+        keyword: z.number().min(0).optional().describe("Weight of the keyword ranking. Default: 1"),
+        vector: z.number().min(0).optional().describe("Weight of the vector ranking. Default: 1"),
+      }).optional().describe("Relative weight of each retriever in the fused score"),
+      rrf_k: z.number().min(0).optional().describe(`RRF rank constant; each ranking contributes weight / (rrf_k + rank). Default: ${DEFAULT_RRF_K}`),
+      metric: z.enum(DISTANCE_METRICS).optional().describe("Vector distance metric: cosine (default), l2, l1 or inner_product"),
+      filters: z.array(vectorFilterSchema).optional().describe("Conditions rows must match in both searches, combined with AND"),
+      text_column: z.string().optional().describe(`Column with the FULLTEXT index. Default: ${DEFAULT_VECTOR_COLUMNS.content}`),
+      vector_column: z.string().optional().describe(`VECTOR column. Default: ${DEFAULT_VECTOR_COLUMNS.vector}`),
+      columns: z.array(z.string()).optional().describe("Columns to return. Default: every column except the vector column; the primary key is always included"),
+    },
+    annotations: { readOnlyHint: true },
+    handler: async (args, { connector, audit }) => {
+      const vector = args.query_vector ?? (await embedTexts(requireEmbeddingProvider(connector), [args.query]))[0];
+      const k = args.k ?? 10;
+      const metric = args.metric ?? "cosine";
+
+      audit.sql = [];
+      const hits = await connector.hybridSearch({
+        database: args.database,
+        table: args.table,
+        query: args.query,
+        vector,
+        textColumn: args.text_column ?? DEFAULT_VECTOR_COLUMNS.content,
+        vectorColumn: args.vector_column ?? DEFAULT_VECTOR_COLUMNS.vector,
+        columns: args.columns,
+        metric,
+        filters: args.filters ?? [],
+        k,
+        candidates: args.candidates ?? Math.min(k * HYBRID_CANDIDATE_FACTOR, MAX_SEARCH_K),
+        weights: { keyword: args.weights?.keyword ?? 1, vector: args.weights?.vector ?? 1 },
+        rrfK: args.rrf_k ?? DEFAULT_RRF_K,
+      }, audit.sql);
+      audit.rows = hits.length;
+      return jsonResult({
+        row_count: hits.length,
+        metric,
+        rows: hits.map((hit) => ({
+          score: hit.score,
+          matched_by: hit.matchedBy,
+          keyword: hit.matches.keyword ? { rank: hit.matches.keyword.rank, score: hit.matches.keyword.value } : null,
+          vector: hit.matches.vector ? { rank: hit.matches.vector.rank, distance: hit.matches.vector.value } : null,
+          row: hit.row,
+        })),
+      });
+    },
+  }),
+  defineTool({
+    name: "db_create_user",
+    title: "Create Database User",
+    description: "Create a new database user. Will return the username with prefix for TiDB Serverless.",
+    inputSchema: {
+      username: z.string().describe("The username for the new user"),
+      password: z.string().describe("The password for the new user"),
+    },
+    annotations: { readOnlyHint: false, destructiveHint: false },
+    requiresWrite: true,
+    handler: async ({ username, password }, { connector, audit }) => {
+      audit.sql = [];
+      const fullUsername = await connector.createUser(username, password, audit.sql);
+      return textResult(`Successfully created user: ${fullUsername}`);
+    },
+  }),
+  defineTool({
+    name: "db_remove_user",
+    title: "Remove Database User",
+    description: "Remove a database user from the TiDB cluster",
+    inputSchema: {
+      username: z.string().describe("The username to remove"),
+    },
+    annotations: { readOnlyHint: false, destructiveHint: true },
+    requiresWrite: true,
+    handler: async ({ username }, { connector, audit }) => {
+      audit.sql = [];
+      await connector.removeUser(username, audit.sql);
+      return textResult(`Successfully removed user: ${username}`);
+    },
+  }),
+];
+
+export const connectionArgSchema = z.string().optional().describe(
+  "Name of the connection profile to run against (see list_connections). Default: the active connection"
+);
+
+export const databaseArgSchema = z.string().optional().describe(
+  "Database to run against. Default: the database of the connection"
+);
+
+// Whether a tool takes the per-call database argument that replaces switch_database
+// in stateless mode; tools with their own database argument keep it
+export function takesDatabaseArg(tool: ToolDefinition): boolean {
+  return !tool.global && !("database" in tool.inputSchema);
+}
+
+// Input schema as exposed to clients, with the connection argument on every connection-bound
+// tool and, in stateless mode, the database argument
+export function toolInputSchema(tool: ToolDefinition, stateless: boolean = false): ZodRawShape {
+  if (tool.global) {
+    return tool.inputSchema;
+  }
+  return {
+    ...tool.inputSchema,
+    connection: connectionArgSchema,
+    ...(stateless && takesDatabaseArg(tool) ? { database: databaseArgSchema } : {}),
+  };
+}
+
+// Whether a tool may run against a connection, given its read-only and allowlist settings
+export function isToolAllowed(tool: ToolDefinition, profile: ConnectionProfile): boolean {
+  if (tool.global) {
+    return true;
+  }
+  if (tool.requiresWrite && profile.config.readOnly) {
+    return false;
+  }
+  return profile.allowedTools === undefined || profile.allowedTools.includes(tool.name);
+}
+
+// Tools usable on at least one connection
+export function usableTools(connections: ConnectionManager): ToolDefinition[] {
+  return toolDefinitions.filter((tool) => connections.profiles.some((profile) => isToolAllowed(tool, profile)));
+}
+
+export function availableTools(readOnly: boolean): ToolDefinition[] {
+  return toolDefinitions.filter((tool) => !(readOnly && tool.requiresWrite));
+}
+
+export function findTool(name: string, connections: ConnectionManager): ToolDefinition | undefined {
+  return usableTools(connections).find((tool) => tool.name === name);
+}
+
+// JSON Schema form of a tool, as returned by the low-level ListTools handler
+export function toListedTool(tool: ToolDefinition) {
+  return {
+    name: tool.name,
+    title: tool.title,
+    description: tool.description,
+    inputSchema: zodToJsonSchema(z.object(toolInputSchema(tool)), { strictUnions: true }) as {
+      type: "object";
+      [key: string]: unknown;
+    },
+    annotations: tool.annotations,
+  };
+}
+
+// Entries for the `tools` array of the DXT manifest.json
+export function toManifestTools(): Array<{ name: string; description: string }> {
+  return toolDefinitions.map((tool) => ({
+    name: tool.name,
+    description: tool.description,
+  }));
+}
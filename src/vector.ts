@@ -0,0 +1,242 @@
+// SQL for TiDB vector tables: DDL with an HNSW index, batched upserts and k-NN searches
+import { quoteIdentifier } from "./schema.js";
+
+export const DISTANCE_METRICS = ["cosine", "l2", "l1", "inner_product"] as const;
+export type DistanceMetric = typeof DISTANCE_METRICS[number];
+
+// HNSW indexes can only be built for these distance functions
+export const INDEX_METRICS = ["cosine", "l2"] as const;
+export type IndexMetric = typeof INDEX_METRICS[number];
+
+// TiDB's upper bound for VECTOR(D) columns that carry a vector index
+export const MAX_VECTOR_DIMENSIONS = 16383;
+
+const DISTANCE_FUNCTIONS: Record<DistanceMetric, string> = {
+  cosine: "VEC_COSINE_DISTANCE",
+  l2: "VEC_L2_DISTANCE",
+  l1: "VEC_L1_DISTANCE",
+  // Negated, so that smaller still means closer
+  inner_product: "VEC_NEGATIVE_INNER_PRODUCT",
+};
+
+export function distanceFunction(metric: DistanceMetric): string {
+  return DISTANCE_FUNCTIONS[metric];
+}
+
+export const FILTER_OPERATORS = ["=", "!=", "<", "<=", ">", ">=", "in", "not_in", "like", "is_null", "is_not_null"] as const;
+export type FilterOperator = typeof FILTER_OPERATORS[number];
+
+export type FilterValue = string | number | boolean | null;
+
+export interface VectorFilter {
+  column: string;
+  // JSON path inside the column, e.g. $.category for a metadata JSON column
+  path?: string;
+  op: FilterOperator;
+  value?: FilterValue | FilterValue[];
+}
+
+export interface VectorTableOptions {
+  database?: string;
+  table: string;
+  dimensions: number;
+  metric: IndexMetric;
+  idType: "bigint" | "string";
+  idColumn: string;
+  contentColumn: string;
+  metadataColumn: string;
+  vectorColumn: string;
+  // Without the index, searches scan every row; clusters without TiFlash cannot build one
+  createIndex: boolean;
+  ifNotExists: boolean;
+}
+
+export interface VectorRow {
+  id: string | number;
+  content?: string | null;
+  metadata?: unknown;
+  embedding: number[];
+}
+
+export interface VectorColumns {
+  id: string;
+  content: string;
+  metadata: string;
+  vector: string;
+}
+
+export const DEFAULT_VECTOR_COLUMNS: VectorColumns = {
+  id: "id",
+  content: "content",
+  metadata: "metadata",
+  vector: "embedding",
+};
+
+export interface VectorSearchOptions {
+  database?: string;
+  table: string;
+  vectorColumn: string;
+  columns: string[];
+  vector: number[];
+  metric: DistanceMetric;
+  k: number;
+  filters: VectorFilter[];
+  // Rows further away than this are dropped after ranking
+  maxDistance?: number;
+}
+
+export interface BoundSql {
+  sql: string;
+  params: any[];
+}
+
+export function qualifiedName(database: string | undefined, table: string): string {
+  return database ? `${quoteIdentifier(database)}.${quoteIdentifier(table)}` : quoteIdentifier(table);
+}
+
+// "[0.1,0.2,0.3]", the text form TiDB accepts for VECTOR values
+export function toVectorLiteral(vector: number[]): string {
+  if (vector.length === 0) {
+    throw new Error("Vector cannot be empty");
+  }
+  if (!vector.every((value) => typeof value === "number" && Number.isFinite(value))) {
+    throw new Error("Vector values must be finite numbers");
+  }
+  return `[${vector.join(",")}]`;
+}
+
+// vector(768) -> 768; a bare `vector` column accepts any dimensions
+export function vectorDimensions(columnType: string): number | null | undefined {
+  const match = /^vector(?:\((\d+)\))?/i.exec(columnType.trim());
+  if (!match) {
+    return undefined;
+  }
+  return match[1] ? Number(match[1]) : null;
+}
+
+export function buildCreateVectorTableSql(options: VectorTableOptions): string {
+  if (!Number.isInteger(options.dimensions) || options.dimensions < 1 || options.dimensions > MAX_VECTOR_DIMENSIONS) {
+    throw new Error(`dimensions must be an integer between 1 and ${MAX_VECTOR_DIMENSIONS}`);
+  }
+  const vector = quoteIdentifier(options.vectorColumn);
+  const lines = [
+    `  ${quoteIdentifier(options.idColumn)} ${options.idType === "string" ? "VARCHAR(255)" : "BIGINT"} NOT NULL PRIMARY KEY`,
+    `  ${quoteIdentifier(options.contentColumn)} TEXT`,
+    `  ${quoteIdentifier(options.metadataColumn)} JSON`,
+    `  ${vector} VECTOR(${options.dimensions}) NOT NULL`,
+  ];
+  if (options.createIndex) {
+    lines.push(
+      `  VECTOR INDEX ${quoteIdentifier(`idx_${options.vectorColumn}`)} ((${distanceFunction(options.metric)}(${vector}))) USING HNSW`
+    );
+  }
+  return `CREATE TABLE ${options.ifNotExists ? "IF NOT EXISTS " : ""}${qualifiedName(options.database, options.table)} (\n${lines.join(",\n")}\n)`;
+}
+
+// One multi-row INSERT ... ON DUPLICATE KEY UPDATE. Content and metadata columns are
+// only written when some row carries them; rows without a value store NULL.
+export function buildUpsertSql(
+  database: string | undefined,
+  table: string,
+  columns: VectorColumns,
+  rows: VectorRow[]
+): BoundSql {
+  if (rows.length === 0) {
+    throw new Error("At least one row is required");
+  }
+  const withContent = rows.some((row) => row.content !== undefined);
+  const withMetadata = rows.some((row) => row.metadata !== undefined);
+
+  const names = [
+    columns.id,
+    ...(withContent ? [columns.content] : []),
+    ...(withMetadata ? [columns.metadata] : []),
+    columns.vector,
+  ];
+  const params: any[] = [];
+  for (const row of rows) {
+    params.push(row.id);
+    if (withContent) {
+      params.push(row.content ?? null);
+    }
+    if (withMetadata) {
+      params.push(row.metadata === undefined || row.metadata === null ? null : JSON.stringify(row.metadata));
+    }
+    params.push(toVectorLiteral(row.embedding));
+  }
+
+  const placeholders = `(${names.map(() => "?").join(", ")})`;
+  const updates = names.slice(1).map((name) => `${quoteIdentifier(name)} = VALUES(${quoteIdentifier(name)})`);
+  return {
+    sql: `INSERT INTO ${qualifiedName(database, table)} (${names.map(quoteIdentifier).join(", ")}) ` +
+      `VALUES ${rows.map(() => placeholders).join(", ")} ` +
+      `ON DUPLICATE KEY UPDATE ${updates.join(", ")}`,
+    params,
+  };
+}
+
+function toFilterParam(value: FilterValue): string | number | null {
+  return typeof value === "boolean" ? (value ? 1 : 0) : value;
+}
+
+export function buildFilterClause(filters: VectorFilter[]): BoundSql {
+  const conditions: string[] = [];
+  const params: any[] = [];
+
+  for (const filter of filters) {
+    let target = quoteIdentifier(filter.column);
+    if (filter.path !== undefined) {
+      target = `JSON_UNQUOTE(JSON_EXTRACT(${target}, ?))`;
+      params.push(filter.path);
+    }
+
+    switch (filter.op) {
+      case "is_null":
+        conditions.push(`${target} IS NULL`);
+        break;
+      case "is_not_null":
+        conditions.push(`${target} IS NOT NULL`);
+        break;
+      case "in":
+      case "not_in": {
+        const values = Array.isArray(filter.value) ? filter.value : [];
+        if (values.length === 0) {
+          throw new Error(`Filter on ${filter.column} with ${filter.op} needs a non-empty array value`);
+        }
+        conditions.push(`${target} ${filter.op === "in" ? "IN" : "NOT IN"} (${values.map(() => "?").join(", ")})`);
+        params.push(...values.map(toFilterParam));
+        break;
+      }
+      default:
+        if (filter.value === undefined || filter.value === null || Array.isArray(filter.value)) {
+          throw new Error(`Filter on ${filter.column} with ${filter.op} needs a single value`);
+        }
+        conditions.push(`${target} ${filter.op === "like" ? "LIKE" : filter.op} ?`);
+        params.push(toFilterParam(filter.value));
+    }
+  }
+
+  return { sql: conditions.join(" AND "), params };
+}
+
+export function buildVectorSearchSql(options: VectorSearchOptions): BoundSql {
+  // The query vector is inlined as a constant, which the optimizer needs to use the
+  // vector index; toVectorLiteral only ever produces digits, signs and separators
+  const distance = `${distanceFunction(options.metric)}(${quoteIdentifier(options.vectorColumn)}, '${toVectorLiteral(options.vector)}')`;
+  const select = [...options.columns.map(quoteIdentifier), `${distance} AS \`distance\``].join(", ");
+  const where = buildFilterClause(options.filters);
+
+  // Vector indexes only serve ORDER BY distance LIMIT k; a WHERE on the distance
+  // itself would turn the search into a full scan, so thresholds apply afterwards
+  const search = `SELECT ${select} FROM ${qualifiedName(options.database, options.table)}` +
+    (where.sql ? ` WHERE ${where.sql}` : "") +
+    ` ORDER BY \`distance\` LIMIT ${Math.floor(options.k)}`;
+
+  if (options.maxDistance === undefined) {
+    return { sql: search, params: where.params };
+  }
+  return {
+    sql: `SELECT * FROM (${search}) AS \`candidates\` WHERE \`distance\` <= ? ORDER BY \`distance\``,
+    params: [...where.params, options.maxDistance],
+  };
+}
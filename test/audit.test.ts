@@ -0,0 +1,267 @@
+import assert from "assert";
+import { existsSync, mkdtempSync, readFileSync, statSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { describeAsync, itAsync, it, ManualClock } from "./setup.js";
+import {
+  AuditConfig,
+  AuditEntry,
+  AuditLog,
+  AuditSink,
+  loadAuditConfig,
+  redactParams,
+  redactSql,
+  RotatingFileSink,
+} from "../src/audit.js";
+import { ConnectionManager, parseConnectionProfiles } from "../src/connections.js";
+import { createServer, setupToolHandlers } from "../src/server-common.js";
+
+const directory = mkdtempSync(join(tmpdir(), "tidb-mcp-audit-"));
+
+const config: AuditConfig = { destination: "memory", redactLiterals: true, maxBytes: 0, maxFiles: 0 };
+
+// Keeps written entries in memory
+class MemorySink implements AuditSink {
+  readonly lines: string[] = [];
+
+  async write(text: string): Promise<void> {
+    this.lines.push(text);
+  }
+
+  entries(): AuditEntry[] {
+    return this.lines.map((line) => JSON.parse(line));
+  }
+}
+
+function createLog(overrides: Partial<AuditConfig> = {}) {
+  const sink = new MemorySink();
+  const clock = new ManualClock(Date.parse("2026-01-02T03:04:05.000Z"));
+  const log = new AuditLog({ ...config, ...overrides }, sink, clock.now);
+  return { log, sink, clock };
+}
+
+// Main test runner
+async function runAuditTests() {
+  await describeAsync("Audit Redaction Tests", async () => {
+    it("should replace literals with placeholders", () => {
+      assert.strictEqual(
+        redactSql("SELECT * FROM users WHERE email = 'a@example.com' AND age > 30 LIMIT ?", true),
+        "SELECT * FROM users WHERE email = ? AND age > ? LIMIT ?"
+      );
+      assert.strictEqual(redactSql("SELECT `col1`, t2.x FROM t2 -- 'note'", true), "SELECT `col1`, t2.x FROM t2 -- 'note'");
+      assert.strictEqual(redactSql("SELECT 'kept' FROM t", false), "SELECT 'kept' FROM t");
+    });
+
+    it("should always redact passwords", () => {
+      assert.strictEqual(
+        redactSql("CREATE USER 'bob'@'%' IDENTIFIED BY 'hunter2'", false),
+        "CREATE USER ?@'%' IDENTIFIED BY ?"
+      );
+      assert.strictEqual(redactSql("SET PASSWORD FOR bob = 'hunter2'", false), "SET PASSWORD FOR bob = ?");
+    });
+
+    it("should reduce params to their kinds", () => {
+      assert.deepStrictEqual(redactParams("SELECT ?", ["secret", 42, true, null, [0.1, 0.2], { json: { a: 1 } }]), [
+        "<string>", "<number>", "<boolean>", "<null>", "<vector>", "<json>",
+      ]);
+      assert.deepStrictEqual(redactParams(["INSERT ...", "DELETE ..."], [["x"], null]), [["<string>"], null]);
+      assert.strictEqual(redactParams("SELECT 1", undefined), null);
+    });
+
+    it("should read settings from the environment", () => {
+      assert.strictEqual(loadAuditConfig({}), null);
+      assert.deepStrictEqual(loadAuditConfig({ MCP_AUDIT_LOG: "stderr" }), {
+        destination: "stderr",
+        redactLiterals: true,
+        maxBytes: 100 * 1024 * 1024,
+        maxFiles: 5,
+      });
+      assert.strictEqual(loadAuditConfig({ MCP_AUDIT_LOG: "audit.jsonl", MCP_AUDIT_REDACT_LITERALS: "false" })?.redactLiterals, false);
+      assert.throws(() => loadAuditConfig({ MCP_AUDIT_LOG: "stderr", MCP_AUDIT_LOG_MAX_FILES: "-1" }), /MCP_AUDIT_LOG_MAX_FILES must be a non-negative integer/);
+    });
+  });
+
+  await describeAsync("Audit Log Tests", async () => {
+    await itAsync("should log a tool call with its outcome", async () => {
+      const { log, sink, clock } = createLog();
+      await log.recordToolCall(
+        {
+          tool: "db_query",
+          sessionId: "session-1",
+          principal: "alice",
+          args: { sql_stmt: "SELECT * FROM orders WHERE id = ?", params: [7], format: "json" },
+        },
+        async (details) => {
+          clock.advance(42);
+          details.rows = 1;
+          return { content: [{ type: "text", text: "[]" }] };
+        }
+      );
+      await log.flush();
+      assert.deepStrictEqual(sink.entries(), [{
+        timestamp: "2026-01-02T03:04:05.000Z",
+        session_id: "session-1",
+        principal: "alice",
+        tool: "db_query",
+        sql: "SELECT * FROM orders WHERE id = ?",
+        params: ["<number>"],
+        rows: 1,
+        affected_rows: null,
+        duration_ms: 42,
+        error_code: null,
+      }]);
+    });
+
+    await itAsync("should log the SQL a tool built itself", async () => {
+      const { log, sink } = createLog();
+      await log.recordToolCall(
+        { tool: "explain_query", args: { sql_stmt: "SELECT * FROM orders WHERE id = ?", params: [7] } },
+        async (details) => {
+          details.sql = ["EXPLAIN SELECT * FROM orders WHERE id = ?"];
+          return { content: [] };
+        }
+      );
+      await log.recordToolCall(
+        { tool: "vector_search", args: { table: "docs", query_text: "secret plans" } },
+        async (details) => {
+          details.sql = ["SELECT id, VEC_COSINE_DISTANCE(embedding, '[0.1,0.2]') AS distance FROM docs WHERE category = 'memo' LIMIT 10"];
+          return { content: [] };
+        }
+      );
+      await log.recordToolCall({ tool: "describe_table", args: { table: "missing" } }, async (details) => {
+        details.sql = [];
+        throw new Error("No database selected. Pass the database argument.");
+      }).catch(() => {});
+      await log.flush();
+
+      const [explained, searched, failed] = sink.entries();
+      assert.deepStrictEqual(explained.sql, ["EXPLAIN SELECT * FROM orders WHERE id = ?"]);
+      assert.deepStrictEqual(explained.params, ["<number>"]);
+      assert.deepStrictEqual(searched.sql, ["SELECT id, VEC_COSINE_DISTANCE(embedding, ?) AS distance FROM docs WHERE category = ? LIMIT ?"]);
+      assert.strictEqual(searched.params, null);
+      assert.strictEqual(failed.sql, null);
+    });
+
+    await itAsync("should log the statements of write tools", async () => {
+      const { log, sink } = createLog();
+      await log.recordToolCall(
+        { tool: "vector_upsert", args: { table: "docs", rows: [{ id: 1, content: "private note" }] } },
+        async (details) => {
+          details.sql = ["INSERT INTO `docs` (`id`, `content`, `metadata`, `embedding`) VALUES (?, ?, ?, ?) ON DUPLICATE KEY UPDATE `content` = VALUES(`content`)"];
+          details.affectedRows = 1;
+          return { content: [] };
+        }
+      );
+      await log.flush();
+
+      const [upserted] = sink.entries();
+      assert.deepStrictEqual(upserted.sql, [
+        "INSERT INTO `docs` (`id`, `content`, `metadata`, `embedding`) VALUES (?, ?, ?, ?) ON DUPLICATE KEY UPDATE `content` = VALUES(`content`)",
+      ]);
+      assert.strictEqual(upserted.affected_rows, 1);
+      assert(!sink.lines[0].includes("private note"));
+    });
+
+    await itAsync("should record error codes", async () => {
+      const { log, sink } = createLog();
+      const failure = Object.assign(new Error("Table 'shop.nope' doesn't exist"), { code: "ER_NO_SUCH_TABLE" });
+      await assert.rejects(
+        log.recordToolCall({ tool: "db_execute", args: { sql_stmts: ["DELETE FROM nope WHERE id = 1"] } }, async () => {
+          throw failure;
+        }),
+        /doesn't exist/
+      );
+      await log.recordToolCall({ tool: "db_execute", args: { sql_stmts: "DROP TABLE t" } }, async () => ({ content: [], isError: true }));
+      await log.flush();
+
+      const [thrown, refused] = sink.entries();
+      assert.deepStrictEqual(thrown.sql, ["DELETE FROM nope WHERE id = ?"]);
+      assert.strictEqual(thrown.error_code, "ER_NO_SUCH_TABLE");
+      assert.strictEqual(thrown.session_id, null);
+      assert.strictEqual(refused.error_code, "TOOL_ERROR");
+    });
+
+    await itAsync("should log calls the connection policy refuses on stdio", async () => {
+      const { log, sink } = createLog();
+      const connections = new ConnectionManager(parseConnectionProfiles(JSON.stringify({
+        default: "dev",
+        connections: {
+          dev: { host: "dev.example.com", username: "root", tls: false },
+          prod: { host: "prod.example.com", username: "reader", tls: false, readOnly: true },
+        },
+      })));
+      const server = createServer();
+      setupToolHandlers(server, () => connections, () => log);
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await server.connect(serverTransport);
+      const client = new Client({ name: "audit-test", version: "1.0.0" });
+      await client.connect(clientTransport);
+      try {
+        await assert.rejects(
+          client.callTool({ name: "db_execute", arguments: { sql_stmts: "DELETE FROM t WHERE id = 1", connection: "prod" } }),
+          /read-only/
+        );
+        await log.flush();
+        const [entry] = sink.entries();
+        assert.strictEqual(entry.tool, "db_execute");
+        assert.strictEqual(entry.sql, "DELETE FROM t WHERE id = ?");
+        assert.strictEqual(entry.error_code, "-32602");
+      } finally {
+        await client.close();
+        await connections.close();
+      }
+    });
+
+    await itAsync("should never log passwords", async () => {
+      const { log, sink } = createLog({ redactLiterals: false });
+      const ok = async () => ({ content: [] });
+      await log.recordToolCall({ tool: "db_create_user", args: { username: "bob", password: "hunter2" } }, async (details) => {
+        details.sql = ["CREATE USER 'bob' IDENTIFIED BY 'hunter2'"];
+        return { content: [] };
+      });
+      await log.recordToolCall({ tool: "switch_database", args: { db_name: "shop", username: "bob", password: "hunter2" } }, ok);
+      await log.recordToolCall({ tool: "db_execute", args: { sql_stmts: "ALTER USER bob IDENTIFIED BY 'hunter2'" } }, ok);
+      await log.flush();
+
+      assert.strictEqual(sink.lines.length, 3);
+      assert(sink.lines.every((line) => !line.includes("hunter2")));
+      assert.deepStrictEqual(sink.entries().map((entry) => entry.sql), [["CREATE USER ? IDENTIFIED BY ?"], null, "ALTER USER bob IDENTIFIED BY ?"]);
+    });
+
+    await itAsync("should only run the call when disabled", async () => {
+      const log = new AuditLog(null);
+      assert.strictEqual(log.enabled, false);
+      assert.deepStrictEqual(await log.recordToolCall({ tool: "show_tables", args: {} }, async () => ({ content: [] })), { content: [] });
+    });
+  });
+
+  await describeAsync("Audit File Tests", async () => {
+    await itAsync("should rotate the file by size", async () => {
+      const path = join(directory, "logs", "audit.jsonl");
+      const sink = new RotatingFileSink(path, 20, 2);
+      for (const n of [1, 2, 3, 4]) {
+        await sink.write(`entry ${n} 123456789\n`);
+      }
+      assert.strictEqual(readFileSync(path, "utf8"), "entry 4 123456789\n");
+      assert.strictEqual(readFileSync(`${path}.1`, "utf8"), "entry 3 123456789\n");
+      assert.strictEqual(readFileSync(`${path}.2`, "utf8"), "entry 2 123456789\n");
+      assert.strictEqual(existsSync(`${path}.3`), false);
+      assert.strictEqual(statSync(path).mode & 0o777, 0o600);
+    });
+
+    await itAsync("should append to an existing file", async () => {
+      const path = join(directory, "existing.jsonl");
+      await new RotatingFileSink(path, 0, 0).write("first\n");
+      await new RotatingFileSink(path, 0, 0).write("second\n");
+      assert.strictEqual(readFileSync(path, "utf8"), "first\nsecond\n");
+    });
+  });
+}
+
+// Run the tests
+runAuditTests().catch(error => {
+  console.error("Test execution failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,185 @@
+import assert from "assert";
+import { generateKeyPairSync, KeyObject, sign } from "crypto";
+import { mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { describeAsync, itAsync, it } from "./setup.js";
+import {
+  authorizeTool,
+  hasToolScope,
+  loadAuthConfig,
+  parseCorsOrigins,
+  principal,
+  protectedResourceMetadata,
+  TokenVerifier,
+} from "../src/auth.js";
+import { toolDefinitions } from "../src/tools.js";
+
+const RESOURCE_URL = "http://localhost:3000/mcp";
+const ISSUER = "https://auth.example.com/";
+const API_KEY = "local-test-api-key-0123456789";
+
+// Locally minted signing keys, published through a JWKS file
+const rsa = generateKeyPairSync("rsa", { modulusLength: 2048 });
+const ec = generateKeyPairSync("ec", { namedCurve: "P-256" });
+const untrusted = generateKeyPairSync("rsa", { modulusLength: 2048 });
+
+const jwksFile = join(mkdtempSync(join(tmpdir(), "tidb-mcp-auth-")), "jwks.json");
+writeFileSync(jwksFile, JSON.stringify({
+  keys: [
+    { ...rsa.publicKey.export({ format: "jwk" }), kid: "rsa-1", alg: "RS256", use: "sig" },
+    { ...ec.publicKey.export({ format: "jwk" }), kid: "ec-1", use: "sig" },
+  ],
+}));
+
+const env = {
+  MCP_AUTH_JWKS_FILE: jwksFile,
+  MCP_AUTH_ISSUER: ISSUER,
+  MCP_AUTH_API_KEYS: `${API_KEY}=tidb:read`,
+};
+
+function encode(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+function mintToken(claims: Record<string, unknown>, key: KeyObject = rsa.privateKey, header: Record<string, unknown> = { alg: "RS256", kid: "rsa-1" }): string {
+  const input = `${encode({ typ: "JWT", ...header })}.${encode(claims)}`;
+  const signature = header.alg === "ES256"
+    ? sign("sha256", Buffer.from(input), { key, dsaEncoding: "ieee-p1363" })
+    : sign("sha256", Buffer.from(input), key);
+  return `${input}.${signature.toString("base64url")}`;
+}
+
+function validClaims(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    iss: ISSUER,
+    aud: RESOURCE_URL,
+    sub: "alice",
+    client_id: "mcp-inspector",
+    scope: "tidb:read",
+    exp: Math.floor(Date.now() / 1000) + 300,
+    ...overrides,
+  };
+}
+
+function tool(name: string) {
+  return toolDefinitions.find((definition) => definition.name === name)!;
+}
+
+async function rejects(verifier: TokenVerifier, token: string, message: RegExp) {
+  await assert.rejects(verifier.verifyAccessToken(token), (error: any) => error.errorCode === "invalid_token" && message.test(error.message));
+}
+
+// Main test runner
+async function runAuthTests() {
+  await describeAsync("Auth Configuration Tests", async () => {
+    it("should leave the endpoint open without JWKS or API keys", () => {
+      assert.strictEqual(loadAuthConfig({}, RESOURCE_URL), null);
+    });
+
+    it("should default the audience to the resource URL", () => {
+      const config = loadAuthConfig(env, RESOURCE_URL)!;
+      assert.strictEqual(config.resourceUrl, RESOURCE_URL);
+      assert.strictEqual(config.audience, RESOURCE_URL);
+      assert.deepStrictEqual(config.authorizationServers, [ISSUER]);
+      assert.deepStrictEqual(config.apiKeys.map((key) => key.scopes), [["tidb:read"]]);
+    });
+
+    it("should reject invalid settings", () => {
+      assert.throws(() => loadAuthConfig({ MCP_AUTH_JWKS_FILE: jwksFile }, RESOURCE_URL), /MCP_AUTH_ISSUER is required/);
+      assert.throws(
+        () => loadAuthConfig({ ...env, MCP_AUTH_JWKS_URL: "https://auth.example.com/jwks.json" }, RESOURCE_URL),
+        /either MCP_AUTH_JWKS_URL or MCP_AUTH_JWKS_FILE/
+      );
+      assert.throws(() => loadAuthConfig({ MCP_AUTH_API_KEYS: "short" }, RESOURCE_URL), /at least 16 characters/);
+      assert.throws(() => loadAuthConfig({ MCP_AUTH_API_KEYS: `${API_KEY}=tidb:root` }, RESOURCE_URL), /unknown scopes tidb:root/);
+      assert.throws(() => loadAuthConfig({ ...env, MCP_AUTH_RESOURCE_URL: "/mcp" }, RESOURCE_URL), /MCP_AUTH_RESOURCE_URL must be an absolute URL/);
+    });
+
+    it("should only allow listed CORS origins", () => {
+      assert.deepStrictEqual(parseCorsOrigins(undefined), []);
+      assert.deepStrictEqual(
+        parseCorsOrigins("https://app.example.com, http://localhost:5173/"),
+        ["https://app.example.com", "http://localhost:5173"]
+      );
+      assert.throws(() => parseCorsOrigins("*"), /"\*" is not allowed/);
+      assert.throws(() => parseCorsOrigins("https://app.example.com/path"), /is not an origin/);
+      assert.throws(() => parseCorsOrigins("app.example.com"), /is not an origin/);
+    });
+
+    it("should describe the protected resource", () => {
+      assert.deepStrictEqual(protectedResourceMetadata(loadAuthConfig(env, RESOURCE_URL)!), {
+        resource: RESOURCE_URL,
+        authorization_servers: [ISSUER],
+        scopes_supported: ["tidb:read", "tidb:write", "tidb:admin"],
+        bearer_methods_supported: ["header"],
+        resource_name: "TiDB MCP Server",
+      });
+    });
+  });
+
+  await describeAsync("Token Verification Tests", async () => {
+    const verifier = new TokenVerifier(loadAuthConfig(env, RESOURCE_URL)!);
+
+    await itAsync("should accept tokens signed by a JWKS key", async () => {
+      const authInfo = await verifier.verifyAccessToken(mintToken(validClaims({ scope: "tidb:read tidb:write" })));
+      assert.strictEqual(authInfo.clientId, "mcp-inspector");
+      assert.deepStrictEqual(authInfo.scopes, ["tidb:read", "tidb:write"]);
+      assert.strictEqual(principal(authInfo), "alice");
+
+      const ecInfo = await verifier.verifyAccessToken(
+        mintToken(validClaims({ scope: undefined, scp: ["tidb:write"], aud: ["other", RESOURCE_URL] }), ec.privateKey, { alg: "ES256", kid: "ec-1" })
+      );
+      assert.deepStrictEqual(ecInfo.scopes, ["tidb:write"]);
+    });
+
+    await itAsync("should reject tokens that fail validation", async () => {
+      const now = Math.floor(Date.now() / 1000);
+      await rejects(verifier, mintToken(validClaims({ exp: now - 3600 })), /expired/);
+      await rejects(verifier, mintToken(validClaims({ exp: undefined })), /no expiration/);
+      await rejects(verifier, mintToken(validClaims({ nbf: now + 3600 })), /not yet valid/);
+      await rejects(verifier, mintToken(validClaims({ iss: "https://evil.example.com/" })), /untrusted issuer/);
+      await rejects(verifier, mintToken(validClaims({ aud: "http://other.example.com/mcp" })), /not issued for this server/);
+      await rejects(verifier, mintToken(validClaims(), untrusted.privateKey), /Invalid token signature/);
+      await rejects(verifier, mintToken(validClaims(), untrusted.privateKey, { alg: "RS256", kid: "rsa-2" }), /unknown key/);
+      await rejects(verifier, mintToken(validClaims(), ec.privateKey, { alg: "ES256", kid: "rsa-1" }), /does not match its signing key/);
+      await rejects(verifier, `${encode({ alg: "none" })}.${encode(validClaims())}.`, /Unsupported token algorithm: none/);
+      await rejects(verifier, `${encode({ alg: "HS256", kid: "rsa-1" })}.${encode(validClaims())}.c2ln`, /Unsupported token algorithm: HS256/);
+      await rejects(verifier, "not-a-token", /Malformed token/);
+    });
+
+    await itAsync("should accept configured API keys", async () => {
+      const authInfo = await verifier.verifyAccessToken(API_KEY);
+      assert.deepStrictEqual(authInfo.scopes, ["tidb:read"]);
+      assert.match(principal(authInfo), /^api-key:[0-9a-f]{8}$/);
+
+      const keysOnly = new TokenVerifier(loadAuthConfig({ MCP_AUTH_API_KEYS: API_KEY }, RESOURCE_URL)!);
+      assert.deepStrictEqual((await keysOnly.verifyAccessToken(API_KEY)).scopes, ["tidb:read", "tidb:write"]);
+      await rejects(keysOnly, mintToken(validClaims()), /Invalid API key/);
+    });
+  });
+
+  await describeAsync("Tool Scope Tests", async () => {
+    it("should map scopes to tools", () => {
+      assert.strictEqual(hasToolScope(tool("db_query"), ["tidb:read"]), true);
+      assert.strictEqual(hasToolScope(tool("db_execute"), ["tidb:read"]), false);
+      assert.strictEqual(hasToolScope(tool("db_execute"), ["tidb:write"]), true);
+      assert.strictEqual(hasToolScope(tool("db_query"), ["tidb:write"]), true);
+      assert.strictEqual(hasToolScope(tool("list_connections"), []), false);
+      assert.strictEqual(hasToolScope(tool("db_query"), ["tidb:admin"]), false);
+    });
+
+    it("should reject calls without the required scope", () => {
+      const authInfo = { token: "t", clientId: "c", scopes: ["tidb:read"] };
+      assert.doesNotThrow(() => authorizeTool(tool("db_query"), authInfo));
+      assert.doesNotThrow(() => authorizeTool(tool("db_execute"), undefined));
+      assert.throws(() => authorizeTool(tool("db_execute"), authInfo), /Tool db_execute requires the tidb:write scope/);
+    });
+  });
+}
+
+// Run the tests
+runAuthTests().catch(error => {
+  console.error("Test execution failed:", error);
+  process.exit(1);
+});
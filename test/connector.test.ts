@@ -230,6 +230,183 @@ async function runConnectorTests() {
     });
   });
 
+  await describeAsync("Parameter Binding Tests", async () => {
+    itAsync("should bind params per statement", async () => {
+      const connector = new TiDBConnector(config);
+      try {
+        await connector.execute(`CREATE TABLE IF NOT EXISTS ${testTableName}_params (id INT PRIMARY KEY, name VARCHAR(255))`);
+        const results = await connector.execute([
+          `INSERT INTO ${testTableName}_params (id, name) VALUES (?, ?)`,
+          `INSERT INTO ${testTableName}_params (id, name) VALUES (?, ?)`,
+        ], { params: [[1, "O'Brien"], [2, null]] });
+        assert.strictEqual(results.length, 2);
+
+        const rows = await connector.query(
+          `SELECT * FROM ${testTableName}_params WHERE name = ?`,
+          ["O'Brien"]
+        ) as TableRow[];
+        assert.strictEqual(rows.length, 1);
+        assert.strictEqual(rows[0].id, 1);
+
+        await assert.rejects(connector.query(`SELECT * FROM ${testTableName}_params WHERE id = ?`), /placeholder/);
+      } finally {
+        await connector.execute(`DROP TABLE IF EXISTS ${testTableName}_params`);
+        await connector.close();
+      }
+    });
+  });
+
+  await describeAsync("Paged Query Tests", async () => {
+    itAsync("should return pages with truncation metadata", async () => {
+      const connector = new TiDBConnector(config);
+      try {
+        const sql = "SELECT 1 AS n UNION ALL SELECT 2 UNION ALL SELECT 3 UNION ALL SELECT 4 UNION ALL SELECT 5";
+        const first = await connector.queryPage(sql, undefined, { offset: 0, maxRows: 2, maxBytes: 1024 });
+        assert.strictEqual(first.rows.length, 2);
+        assert.strictEqual(first.truncated, true);
+        assert.strictEqual(first.totalRows, 5);
+        assert.strictEqual(first.nextOffset, 2);
+        assert.strictEqual(first.columns[0].name, "n");
+
+        const last = await connector.queryPage(sql, undefined, { offset: 4, maxRows: 2, maxBytes: 1024 });
+        assert.strictEqual(last.rows.length, 1);
+        assert.strictEqual(last.truncated, false);
+        assert.strictEqual(last.nextOffset, null);
+      } finally {
+        await connector.close();
+      }
+    });
+  });
+
+  await describeAsync("Table Description Tests", async () => {
+    itAsync("should describe keys, indexes and foreign keys", async () => {
+      const connector = new TiDBConnector(config);
+      const parent = `${testTableName}_parent`;
+      const child = `${testTableName}_child`;
+      try {
+        await connector.execute(`CREATE TABLE ${parent} (id INT PRIMARY KEY CLUSTERED, name VARCHAR(50) COMMENT 'display name')`);
+        await connector.execute(
+          `CREATE TABLE ${child} (id BIGINT PRIMARY KEY NONCLUSTERED, parent_id INT, UNIQUE KEY uk_parent (parent_id), ` +
+          `CONSTRAINT fk_parent FOREIGN KEY (parent_id) REFERENCES ${parent} (id) ON DELETE CASCADE)`
+        );
+
+        const described = await connector.describeTable(config.database!, child);
+        assert.deepStrictEqual(described.primaryKey, { columns: ["id"], clustered: false });
+        assert.strictEqual(described.indexes.find((index) => index.name === "uk_parent")?.kind, "unique");
+        assert.strictEqual(described.foreignKeys.length, 1);
+        assert.strictEqual(described.foreignKeys[0].referencedTable, parent);
+        assert.strictEqual(described.foreignKeys[0].onDelete, "CASCADE");
+        assert(described.ddl.includes("CREATE TABLE"));
+
+        const parentDescription = await connector.describeTable(config.database!, parent);
+        assert.strictEqual(parentDescription.primaryKey?.clustered, true);
+        assert.strictEqual(parentDescription.columns[1].comment, "display name");
+
+        const schema = await connector.getDatabaseSchema(config.database!);
+        assert.deepStrictEqual(schema.tables.find((table) => table.table === child)?.columns.map((column) => column.name), ["id", "parent_id"]);
+        assert(schema.foreignKeys.some((key) => key.table === child && key.referencedTable === parent));
+      } finally {
+        await connector.execute([`DROP TABLE IF EXISTS ${child}`, `DROP TABLE IF EXISTS ${parent}`]);
+        await connector.close();
+      }
+    });
+  });
+
+  await describeAsync("Dry Run Tests", async () => {
+    itAsync("should report effects and roll back", async () => {
+      const connector = new TiDBConnector(config);
+      try {
+        await connector.execute(`CREATE TABLE IF NOT EXISTS ${testTableName}_dry (id INT PRIMARY KEY, name VARCHAR(255))`);
+        await connector.execute(`INSERT INTO ${testTableName}_dry (id, name) VALUES (1, 'before')`);
+
+        const results = await connector.execute([
+          `UPDATE ${testTableName}_dry SET name = 'after' WHERE id = 1`,
+          `ALTER TABLE ${testTableName}_dry ADD COLUMN note TEXT`,
+        ], { dryRun: true, sampleRows: 5 });
+
+        assert.strictEqual(results[0].simulated, true);
+        assert.strictEqual(results[0].affectedRows, 1);
+        assert.strictEqual(results[0].sample.before[0].name, "before");
+        assert.strictEqual(results[0].sample.after[0].name, "after");
+        assert.strictEqual(results[0].sample.matchedBy, "primary_key");
+        assert.strictEqual(results[1].simulated, false);
+
+        const rows = await connector.query(`SELECT * FROM ${testTableName}_dry`) as TableRow[];
+        assert.strictEqual(rows[0].name, "before");
+        assert.strictEqual("note" in rows[0], false);
+      } finally {
+        await connector.execute(`DROP TABLE IF EXISTS ${testTableName}_dry`);
+        await connector.close();
+      }
+    });
+  });
+
+  await describeAsync("Statement Policy Tests", async () => {
+    itAsync("should accept read-only queries with leading comments", async () => {
+      const connector = new TiDBConnector(config);
+      try {
+        const result = await connector.query("/* probe */ (SELECT 1 as result)") as TestResult[];
+        assert.strictEqual(result[0].result, 1);
+      } finally {
+        await connector.close();
+      }
+    });
+
+    itAsync("should reject writes disguised as queries", async () => {
+      const connector = new TiDBConnector(config);
+      try {
+        for (const sql of [
+          `WITH x AS (SELECT 1) DELETE FROM ${testTableName}`,
+          `SELECT * FROM ${testTableName} FOR UPDATE`,
+          `EXPLAIN ANALYZE DELETE FROM ${testTableName}`,
+          "SELECT 1; SELECT 2",
+        ]) {
+          await assert.rejects(connector.query(sql));
+        }
+      } finally {
+        await connector.close();
+      }
+    });
+
+    itAsync("should reject transaction control in execute", async () => {
+      const connector = new TiDBConnector(config);
+      try {
+        await assert.rejects(connector.execute(["BEGIN", "COMMIT"]), /transaction/);
+      } finally {
+        await connector.close();
+      }
+    });
+
+    itAsync("should explain statements and analyze only reads", async () => {
+      const connector = new TiDBConnector(config);
+      try {
+        const plan = await connector.explain("SELECT ? AS n", [1], false);
+        assert(plan.length > 0 && "estRows" in plan[0]);
+        const analyzed = await connector.explain("SELECT 1", undefined, true);
+        assert("actRows" in analyzed[0]);
+        await assert.rejects(connector.explain(`DELETE FROM ${testTableName}`, undefined, true), /read-only/);
+        await assert.rejects(connector.explain("EXPLAIN SELECT 1", undefined, false), /without EXPLAIN/);
+      } finally {
+        await connector.close();
+      }
+    });
+  });
+
+  await describeAsync("Read-only Mode Tests", async () => {
+    itAsync("should allow queries and reject writes", async () => {
+      const connector = new TiDBConnector({ ...config, readOnly: true });
+      try {
+        assert.strictEqual(connector.isReadOnly, true);
+        const result = await connector.query("SELECT 1 as result") as TestResult[];
+        assert.strictEqual(result[0].result, 1);
+        await assert.rejects(connector.execute(`CREATE TABLE ${testTableName}_ro (id INT)`), /read-only/);
+        await assert.rejects(connector.createUser(testUsername, "testpass123"), /read-only/);
+      } finally {
+        await connector.close();
+      }
+    });
+  });
+
   await describeAsync("User Management Tests (TiDB Serverless)", async () => {
     itAsync("should handle TiDB Serverless user prefix", async () => {
       const connector = new TiDBConnector(config);
@@ -0,0 +1,81 @@
+import assert from "assert";
+import { describeAsync, it } from "./setup.js";
+import { findDestructiveStatements } from "../src/destructive.js";
+
+// Main test runner
+async function runDestructiveTests() {
+  await describeAsync("Destructive Statement Detection Tests", async () => {
+    it("should flag DROP and TRUNCATE with their tables", () => {
+      const found = findDestructiveStatements([
+        "DROP TABLE IF EXISTS shop.orders, `order items`",
+        "TRUNCATE TABLE logs",
+      ]);
+      assert.strictEqual(found.length, 2);
+      assert.deepStrictEqual(found[0].targets, [
+        { database: "shop", table: "orders" },
+        { table: "order items" },
+      ]);
+      assert.deepStrictEqual(found[1].targets, [{ table: "logs" }]);
+    });
+
+    it("should flag DELETE and UPDATE without WHERE", () => {
+      const found = findDestructiveStatements([
+        "DELETE FROM users",
+        "UPDATE users SET active = 0",
+        "WITH old AS (SELECT id FROM users WHERE id < 10) DELETE FROM sessions",
+      ]);
+      assert.strictEqual(found.length, 3);
+      assert.deepStrictEqual(found[0].targets, [{ table: "users" }]);
+      assert.deepStrictEqual(found[2].targets, [{ table: "sessions" }]);
+    });
+
+    it("should not flag filtered or additive statements", () => {
+      const found = findDestructiveStatements([
+        "DELETE FROM users WHERE id = 1",
+        "UPDATE users SET active = 0 WHERE last_login < '2020-01-01'",
+        "INSERT INTO users (id) VALUES (1) ON DUPLICATE KEY UPDATE id = id",
+        "DELETE FROM users WHERE id IN (SELECT user_id FROM bans)",
+        "CREATE TABLE t (id INT)",
+      ]);
+      assert.strictEqual(found.length, 0);
+    });
+
+    it("should flag ALTER TABLE that drops or truncates part of a table", () => {
+      const found = findDestructiveStatements([
+        "ALTER TABLE shop.orders DROP COLUMN note",
+        "ALTER TABLE logs DROP PARTITION p2020, p2021",
+        "ALTER TABLE logs TRUNCATE PARTITION p2022",
+        "ALTER TABLE users ADD COLUMN age INT, DROP INDEX idx_email",
+      ]);
+      assert.deepStrictEqual(found.map((statement) => statement.reason), [
+        "ALTER TABLE ... DROP COLUMN cannot be undone",
+        "ALTER TABLE ... DROP PARTITION cannot be undone",
+        "ALTER TABLE ... TRUNCATE PARTITION cannot be undone",
+        "ALTER TABLE ... DROP INDEX cannot be undone",
+      ]);
+      assert.deepStrictEqual(found[0].targets, [{ database: "shop", table: "orders" }]);
+    });
+
+    it("should not flag ALTER TABLE that only adds or changes", () => {
+      const found = findDestructiveStatements([
+        "ALTER TABLE users ADD COLUMN age INT",
+        "ALTER TABLE users ALTER COLUMN age DROP DEFAULT",
+        "ALTER TABLE users ADD CONSTRAINT chk CHECK (age > 0 OR name NOT IN (SELECT 1))",
+        "ALTER TABLE users COMMENT 'drop me later'",
+      ]);
+      assert.strictEqual(found.length, 0);
+    });
+
+    it("should find destructive statements inside multi-statement text", () => {
+      const found = findDestructiveStatements("SELECT 1; DROP DATABASE staging");
+      assert.strictEqual(found.length, 1);
+      assert.deepStrictEqual(found[0].targets, [{ database: "staging" }]);
+    });
+  });
+}
+
+// Run the tests
+runDestructiveTests().catch(error => {
+  console.error("Test execution failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,158 @@
+import assert from "assert";
+import type mysql from "mysql2/promise";
+import { describeAsync, itAsync, it } from "./setup.js";
+import { TiDBConnector } from "../src/connector.js";
+import { buildKeyLookup, buildSampleQuery, canSimulate } from "../src/dry-run.js";
+import { PoolRegistry } from "../src/pools.js";
+import { classifySql } from "../src/sql-classifier.js";
+
+const config = { host: "tidb.example.com", port: 4000, username: "app", password: "s3cret", tls: false };
+
+function sampleQueryFor(sql: string): string | null {
+  return buildSampleQuery(sql, classifySql(sql)[0], 5)?.query ?? null;
+}
+
+// A connector whose pool hands out one connection that records what it runs; queries
+// answer with rowsFor's rows
+function recordingConnector(rowsFor: (sql: string, params?: any[]) => any[] = () => []) {
+  const executed: string[] = [];
+  const connection = {
+    connection: {},
+    beginTransaction: async () => { executed.push("BEGIN"); },
+    rollback: async () => { executed.push("ROLLBACK"); },
+    execute: async (sql: string) => {
+      executed.push(sql);
+      return [{ affectedRows: 1, insertId: 0 }, []];
+    },
+    query: async (sql: string, params?: any[]) => {
+      executed.push(sql);
+      return [rowsFor(sql, params), []];
+    },
+    release: () => {},
+    destroy: () => {},
+  };
+  const pools = new PoolRegistry();
+  // The connector reuses the pool registered for its credentials
+  pools.acquire(config, () => ({ getConnection: async () => connection, end: async () => {} }) as unknown as mysql.Pool);
+  return { connector: new TiDBConnector(config, pools), executed };
+}
+
+// Main test runner
+async function runDryRunTests() {
+  await describeAsync("Dry Run Sample Query Tests", async () => {
+    it("should sample the rows matched by UPDATE and DELETE", () => {
+      assert.strictEqual(
+        sampleQueryFor("UPDATE shop.orders SET status = 'x' WHERE id > 10 ORDER BY id LIMIT 3"),
+        "SELECT * FROM shop.orders WHERE id > 10 LIMIT 5"
+      );
+      assert.strictEqual(
+        sampleQueryFor("DELETE FROM `logs` WHERE level = 'debug'"),
+        "SELECT * FROM `logs` WHERE level = 'debug' LIMIT 5"
+      );
+    });
+
+    it("should keep table aliases and sample whole tables without WHERE", () => {
+      assert.strictEqual(
+        sampleQueryFor("UPDATE users u SET u.active = 0 WHERE u.id IN (SELECT user_id FROM bans)"),
+        "SELECT * FROM users u WHERE u.id IN (SELECT user_id FROM bans) LIMIT 5"
+      );
+      assert.strictEqual(sampleQueryFor("DELETE FROM users"), "SELECT * FROM users LIMIT 5");
+    });
+
+    it("should name the table without its alias", () => {
+      const sql = "UPDATE shop.users AS u SET u.active = 0";
+      assert.strictEqual(buildSampleQuery(sql, classifySql(sql)[0], 5)?.table, "shop.users");
+    });
+
+    it("should re-select sampled rows by primary key", () => {
+      assert.deepStrictEqual(buildKeyLookup("shop.orders", ["id"], [{ id: 1, status: "open" }, { id: 2, status: "open" }]), {
+        query: "SELECT * FROM shop.orders WHERE `id` IN (?, ?)",
+        params: [1, 2],
+      });
+      assert.deepStrictEqual(buildKeyLookup("t", ["a", "b"], [{ a: 1, b: "x" }]), {
+        query: "SELECT * FROM t WHERE (`a`, `b`) IN ((?, ?))",
+        params: [1, "x"],
+      });
+    });
+
+    it("should skip inserts, multi-table statements and bound parameters", () => {
+      assert.strictEqual(sampleQueryFor("INSERT INTO users (id) VALUES (1)"), null);
+      assert.strictEqual(sampleQueryFor("UPDATE a JOIN b ON a.id = b.id SET a.x = 1"), null);
+      assert.strictEqual(sampleQueryFor("DELETE FROM a USING a, b WHERE a.id = b.id"), null);
+      assert.strictEqual(sampleQueryFor("DELETE FROM users WHERE id = ?"), null);
+    });
+  });
+
+  await describeAsync("Dry Run Simulation Tests", async () => {
+    it("should simulate only transactional DML", () => {
+      const simulated = (sql: string) => canSimulate(classifySql(sql)[0]);
+      assert.strictEqual(simulated("UPDATE t SET a = 1 WHERE id = 2"), true);
+      assert.strictEqual(simulated("INSERT INTO t VALUES (1)"), true);
+      assert.strictEqual(simulated("WITH old AS (SELECT id FROM t) DELETE FROM u WHERE id IN (SELECT id FROM old)"), true);
+      for (const sql of [
+        "KILL 123",
+        "ANALYZE TABLE t",
+        "FLUSH TABLES",
+        "SPLIT TABLE t BETWEEN (0) AND (100) REGIONS 4",
+        "LOAD DATA LOCAL INFILE 'x.csv' INTO TABLE t",
+        "IMPORT INTO t FROM 's3://bucket/x.csv'",
+        "BATCH ON id LIMIT 100 DELETE FROM t WHERE a = 1",
+        "CALL cleanup()",
+        "CREATE TABLE t (id INT)",
+        "FOO BAR",
+      ]) {
+        assert.strictEqual(simulated(sql), false, sql);
+      }
+    });
+
+    await itAsync("should not run KILL or ANALYZE during a dry run", async () => {
+      const { connector, executed } = recordingConnector();
+      const results = await connector.execute(
+        ["KILL 123", "ANALYZE TABLE t", "UPDATE t SET a = 1 WHERE id = 2"],
+        { dryRun: true }
+      );
+      assert.deepStrictEqual(executed, ["SET time_zone = ?", "BEGIN", "UPDATE t SET a = 1 WHERE id = 2", "SHOW WARNINGS", "ROLLBACK"]);
+      assert.deepStrictEqual(results.map((result) => [result.simulated, result.note]), [
+        [false, "would execute, not simulated"],
+        [false, "would execute, not simulated"],
+        [true, undefined],
+      ]);
+      await connector.close();
+    });
+
+    await itAsync("should sample the same rows after an UPDATE that changes the filtered column", async () => {
+      const { connector, executed } = recordingConnector((sql, params) => {
+        if (sql.startsWith("SHOW KEYS")) {
+          return [{ Key_name: "PRIMARY", Column_name: "id", Seq_in_index: 1 }, { Key_name: "idx_status", Column_name: "status", Seq_in_index: 1 }];
+        }
+        if (sql.includes("WHERE status = 'open'")) {
+          return [{ id: 7, status: "open" }];
+        }
+        return sql.includes("`id` IN") && params?.[0] === 7 ? [{ id: 7, status: "done" }] : [];
+      });
+      const [result] = await connector.execute(["UPDATE orders SET status = 'done' WHERE status = 'open'"], { dryRun: true, sampleRows: 5 });
+      assert.deepStrictEqual(result.sample, {
+        query: "SELECT * FROM orders WHERE status = 'open' LIMIT 5",
+        before: [{ id: 7, status: "open" }],
+        after: [{ id: 7, status: "done" }],
+        matchedBy: "primary_key",
+      });
+      assert.strictEqual(executed[executed.length - 2], "SELECT * FROM orders WHERE `id` IN (?)");
+      await connector.close();
+    });
+
+    await itAsync("should say when the after sample re-runs the filter", async () => {
+      const { connector } = recordingConnector((sql) => sql.startsWith("SELECT") ? [{ status: "open" }] : []);
+      const [result] = await connector.execute(["DELETE FROM logs WHERE status = 'open'"], { dryRun: true, sampleRows: 5 });
+      assert.strictEqual(result.sample.matchedBy, "filter");
+      assert.match(result.sample.note, /no primary key/);
+      await connector.close();
+    });
+  });
+}
+
+// Run the tests
+runDryRunTests().catch(error => {
+  console.error("Test execution failed:", error);
+  process.exit(1);
+});
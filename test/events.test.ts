@@ -0,0 +1,140 @@
+import assert from "assert";
+import { existsSync, mkdtempSync, readFileSync, utimesSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import { describeAsync, itAsync, it, ManualClock } from "./setup.js";
+import {
+  createEventStore,
+  EventStoreConfig,
+  FileEventStore,
+  loadEventStoreConfig,
+  MemoryEventStore,
+  parseEventId,
+  registerEventStore,
+  removeStaleEventFiles,
+  SessionEventStore,
+} from "../src/events.js";
+
+const directory = mkdtempSync(join(tmpdir(), "tidb-mcp-events-"));
+
+function config(overrides: Partial<EventStoreConfig> = {}): EventStoreConfig {
+  return { store: "memory", maxEvents: 10, ttlMs: 60000, directory, ...overrides };
+}
+
+function notification(n: number): JSONRPCMessage {
+  return { jsonrpc: "2.0", method: "notifications/progress", params: { progress: n } };
+}
+
+async function replayed(store: SessionEventStore, lastEventId: string): Promise<{ streamId: string; events: Array<[string, number]> }> {
+  const events: Array<[string, number]> = [];
+  const streamId = await store.replayEventsAfter(lastEventId, {
+    send: async (eventId, message) => {
+      events.push([eventId, (message as any).params.progress]);
+    },
+  });
+  return { streamId, events };
+}
+
+// Behaviour both stores share, on a clock the tests move by hand
+async function checkStore(create: (now: () => number, overrides?: Partial<EventStoreConfig>) => SessionEventStore) {
+  const clock = new ManualClock();
+  const store = create(clock.now);
+  const first = await store.storeEvent("stream-a", notification(1));
+  await store.storeEvent("stream-b", notification(2));
+  await store.storeEvent("stream-a", notification(3));
+  await store.storeEvent("stream-a", notification(4));
+
+  assert.deepStrictEqual(await replayed(store, first), {
+    streamId: "stream-a",
+    events: [["3_stream-a", 3], ["4_stream-a", 4]],
+  });
+  assert.deepStrictEqual((await replayed(store, "4_stream-a")).events, []);
+  await assert.rejects(replayed(store, "bogus"), /Invalid Last-Event-ID/);
+
+  // Expired events are not replayed
+  clock.advance(60001);
+  await store.storeEvent("stream-a", notification(5));
+  assert.deepStrictEqual((await replayed(store, first)).events, [["5_stream-a", 5]]);
+
+  // Only the most recent events are kept
+  const bounded = create(clock.now, { maxEvents: 3 });
+  for (let n = 1; n <= 8; n++) {
+    await bounded.storeEvent("stream-a", notification(n));
+  }
+  assert.deepStrictEqual((await replayed(bounded, "1_stream-a")).events.map(([, n]) => n), [6, 7, 8]);
+}
+
+// Main test runner
+async function runEventTests() {
+  await describeAsync("Event Store Tests", async () => {
+    it("should parse event IDs", () => {
+      assert.deepStrictEqual(parseEventId("12__GET_stream"), { sequence: 12, streamId: "_GET_stream" });
+      assert.strictEqual(parseEventId("stream-a"), null);
+    });
+
+    await itAsync("should replay missed events from memory", async () => {
+      await checkStore((now, overrides) => new MemoryEventStore(config(overrides), now));
+      const store = new MemoryEventStore(config({ maxEvents: 2 }));
+      for (let n = 1; n <= 5; n++) {
+        await store.storeEvent("stream-a", notification(n));
+      }
+      assert.strictEqual(store.size, 2);
+    });
+
+    await itAsync("should replay missed events from a file", async () => {
+      let sessions = 0;
+      await checkStore((now, overrides) => new FileEventStore(`session-${++sessions}`, config({ store: "file", ...overrides }), now));
+    });
+
+    await itAsync("should compact and remove session files", async () => {
+      const store = new FileEventStore("compacted", config({ store: "file", maxEvents: 3 }));
+      for (let n = 1; n <= 6; n++) {
+        await store.storeEvent("stream-a", notification(n));
+      }
+      const path = join(directory, "compacted.jsonl");
+      assert.strictEqual(readFileSync(path, "utf8").trim().split("\n").length, 3);
+      await store.dispose();
+      assert.strictEqual(existsSync(path), false);
+    });
+
+    await itAsync("should remove stale session files", async () => {
+      const stale = join(directory, "stale.jsonl");
+      const fresh = join(directory, "fresh.jsonl");
+      writeFileSync(stale, "");
+      writeFileSync(fresh, "");
+      const hourAgo = new Date(Date.now() - 3600 * 1000);
+      utimesSync(stale, hourAgo, hourAgo);
+      assert.strictEqual(await removeStaleEventFiles(directory, 60000), 1);
+      assert.strictEqual(existsSync(stale), false);
+      assert.strictEqual(existsSync(fresh), true);
+      assert.strictEqual(await removeStaleEventFiles(join(directory, "missing"), 60000), 0);
+    });
+
+    it("should create stores by name", () => {
+      assert(createEventStore("s1", config()) instanceof MemoryEventStore);
+      assert(createEventStore("s1", config({ store: "FILE" })) instanceof FileEventStore);
+      assert.throws(() => createEventStore("s1", config({ store: "redis" })), /Unknown event store "redis"/);
+
+      registerEventStore("redis", (sessionId, storeConfig) => new MemoryEventStore(storeConfig));
+      assert(createEventStore("s1", config({ store: "redis" })) instanceof MemoryEventStore);
+    });
+
+    it("should read settings from the environment", () => {
+      assert.deepStrictEqual(loadEventStoreConfig({ MCP_EVENT_STORE_DIR: directory }), config({ maxEvents: 1000, ttlMs: 300000 }));
+      assert.strictEqual(loadEventStoreConfig({ MCP_EVENT_STORE: "none" }), null);
+      assert.strictEqual(
+        loadEventStoreConfig({ MCP_EVENT_STORE: "file", MCP_EVENT_STORE_MAX_EVENTS: "50", MCP_EVENT_STORE_TTL: "30" })?.ttlMs,
+        30000
+      );
+      assert.throws(() => loadEventStoreConfig({ MCP_EVENT_STORE: "disk" }), /Unknown event store "disk"/);
+      assert.throws(() => loadEventStoreConfig({ MCP_EVENT_STORE_TTL: "0" }), /MCP_EVENT_STORE_TTL must be a positive integer/);
+    });
+  });
+}
+
+// Run the tests
+runEventTests().catch(error => {
+  console.error("Test execution failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,89 @@
+import assert from "assert";
+import { describeAsync, it } from "./setup.js";
+import { analyzePlan, parsePlan } from "../src/explain.js";
+
+// EXPLAIN SELECT * FROM orders o JOIN users u ON o.user_id = u.id WHERE o.status = 'open'
+const explainRows = [
+  { id: "HashJoin_8", estRows: "12487.50", task: "root", "access object": "", "operator info": "inner join, equal:[eq(shop.orders.user_id, shop.users.id)]" },
+  { id: "├─TableReader_15(Build)", estRows: "9990.00", task: "root", "access object": "", "operator info": "data:Selection_14" },
+  { id: "│ └─Selection_14", estRows: "9990.00", task: "cop[tikv]", "access object": "", "operator info": "eq(shop.orders.status, \"open\")" },
+  { id: "│   └─TableFullScan_13", estRows: "50000.00", task: "cop[tikv]", "access object": "table:o", "operator info": "keep order:false, stats:pseudo" },
+  { id: "└─TableReader_12(Probe)", estRows: "10000.00", task: "root", "access object": "", "operator info": "data:TableFullScan_11" },
+  { id: "  └─TableFullScan_11", estRows: "10000.00", task: "cop[tiflash]", "access object": "table:u", "operator info": "keep order:false" },
+];
+
+// EXPLAIN ANALYZE SELECT * FROM users WHERE id = 1
+const analyzeRows = [
+  { id: "Point_Get_1", estRows: "1.00", actRows: "1", task: "root", "access object": "table:users, handle:1", "execution info": "time:1ms, loops:2", "operator info": "N/A", memory: "N/A", disk: "N/A" },
+];
+
+// Main test runner
+async function runExplainTests() {
+  await describeAsync("Plan Parsing Tests", async () => {
+    it("should nest operators by their tree prefix", () => {
+      const [root] = parsePlan(explainRows);
+      assert.strictEqual(root.id, "HashJoin_8");
+      assert.strictEqual(root.operator, "HashJoin");
+      assert.deepStrictEqual(root.children.map((child) => child.id), ["TableReader_15(Build)", "TableReader_12(Probe)"]);
+      const selection = root.children[0].children[0];
+      assert.strictEqual(selection.id, "Selection_14");
+      assert.strictEqual(selection.children[0].id, "TableFullScan_13");
+      assert.strictEqual(selection.children[0].estRows, 50000);
+      assert.strictEqual(root.children[1].children[0].task, "cop[tiflash]");
+    });
+
+    it("should keep EXPLAIN ANALYZE columns", () => {
+      const [root] = parsePlan(analyzeRows);
+      assert.strictEqual(root.operator, "Point_Get");
+      assert.strictEqual(root.actRows, 1);
+      assert.strictEqual(root.executionInfo, "time:1ms, loops:2");
+      assert.strictEqual(parsePlan(explainRows)[0].actRows, undefined);
+    });
+  });
+
+  await describeAsync("Plan Finding Tests", async () => {
+    const findings = analyzePlan(parsePlan(explainRows));
+    const kinds = (kind: string) => findings.filter((finding) => finding.kind === kind);
+
+    it("should flag full scans by storage engine", () => {
+      const scans = kinds("full_table_scan");
+      assert.deepStrictEqual(scans.map(({ operator, severity }) => ({ operator, severity })), [
+        { operator: "TableFullScan_13", severity: "warning" },
+        { operator: "TableFullScan_11", severity: "info" },
+      ]);
+    });
+
+    it("should flag filters applied after a table scan", () => {
+      const filters = kinds("filter_without_index");
+      assert.strictEqual(filters.length, 1);
+      assert.strictEqual(filters[0].operator, "Selection_14");
+    });
+
+    it("should flag pseudo statistics", () => {
+      assert.deepStrictEqual(kinds("pseudo_stats").map((finding) => finding.operator), ["TableFullScan_13"]);
+    });
+
+    it("should summarize TiKV and TiFlash reads", () => {
+      assert.strictEqual(kinds("storage_engines")[0].message, "Reads from TiKV (row store): o; TiFlash (column store): u.");
+    });
+
+    it("should flag estimate misses only with actual rows", () => {
+      assert.strictEqual(kinds("estimate_miss").length, 0);
+      const missed = analyzePlan(parsePlan([{ ...analyzeRows[0], estRows: "10.00", actRows: "5000" }]));
+      assert.strictEqual(missed.filter((finding) => finding.kind === "estimate_miss").length, 1);
+    });
+
+    it("should flag cartesian joins", () => {
+      const cartesian = analyzePlan(parsePlan([
+        { id: "HashJoin_5", estRows: "100.00", task: "root", "access object": "", "operator info": "CARTESIAN inner join" },
+      ]));
+      assert.strictEqual(cartesian[0].kind, "cartesian_join");
+    });
+  });
+}
+
+// Run the tests
+runExplainTests().catch(error => {
+  console.error("Test execution failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,83 @@
+import assert from "assert";
+import type { FieldPacket } from "mysql2";
+import { describeAsync, it } from "./setup.js";
+import { columnsFromFields, ResultSet } from "../src/columns.js";
+import { formatResultSet } from "../src/formatters.js";
+
+const result: ResultSet = {
+  columns: [
+    { name: "id", type: "INT", nullable: false },
+    { name: "note", type: "VARCHAR", nullable: true },
+  ],
+  rows: [
+    { id: 1, note: "a|b" },
+    { id: 2, note: null },
+    { id: 3, note: 'say "hi", ok\nbye' },
+  ],
+};
+
+function texts(format: Parameters<typeof formatResultSet>[1]): string[] {
+  return formatResultSet(result, format, { truncated: false }).content.map((item: any) => item.text);
+}
+
+function field(name: string, columnType: number, flags: number, characterSet = 33): FieldPacket {
+  return { name, columnType, flags, characterSet } as unknown as FieldPacket;
+}
+
+// Main test runner
+async function runFormatterTests() {
+  await describeAsync("Result Formatter Tests", async () => {
+    it("should embed columns and metadata in json", () => {
+      const parsed = JSON.parse(texts("json")[0]);
+      assert.deepStrictEqual(parsed.columns, result.columns);
+      assert.deepStrictEqual(parsed.rows, result.rows);
+      assert.strictEqual(parsed.truncated, false);
+    });
+
+    it("should emit row arrays in columnar", () => {
+      const parsed = JSON.parse(texts("columnar")[0]);
+      assert.deepStrictEqual(parsed.rows, [[1, "a|b"], [2, null], [3, 'say "hi", ok\nbye']]);
+    });
+
+    it("should escape markdown cells", () => {
+      const [table, meta] = texts("markdown");
+      assert.strictEqual(table.split("\n")[2], "| 1 | a\\|b |");
+      assert.strictEqual(table.split("\n")[3], "| 2 | NULL |");
+      assert.deepStrictEqual(JSON.parse(meta).columns, result.columns);
+    });
+
+    it("should quote csv cells and leave NULL empty", () => {
+      const lines = texts("csv")[0].split("\r\n");
+      assert.strictEqual(lines[0], "id,note");
+      assert.strictEqual(lines[2], "2,");
+      assert.strictEqual(lines[3], '3,"say ""hi"", ok\nbye"');
+    });
+
+    it("should write one row per line in jsonl", () => {
+      const lines = texts("jsonl")[0].split("\n");
+      assert.strictEqual(lines.length, 3);
+      assert.deepStrictEqual(JSON.parse(lines[1]), { id: 2, note: null });
+    });
+
+    it("should describe mysql2 fields", () => {
+      const columns = columnsFromFields([
+        field("id", 0x08, 1),
+        field("body", 0xfc, 0),
+        field("raw", 0xfc, 128, 63),
+        field("embedding", 0xe1, 0),
+      ]);
+      assert.deepStrictEqual(columns, [
+        { name: "id", type: "BIGINT", nullable: false },
+        { name: "body", type: "TEXT", nullable: true },
+        { name: "raw", type: "BLOB", nullable: true },
+        { name: "embedding", type: "VECTOR", nullable: true },
+      ]);
+    });
+  });
+}
+
+// Run the tests
+runFormatterTests().catch(error => {
+  console.error("Test execution failed:", error);
+  process.exit(1);
+});
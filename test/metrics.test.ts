@@ -0,0 +1,143 @@
+import assert from "assert";
+import type mysql from "mysql2/promise";
+import { describeAsync, itAsync, it, ManualClock } from "./setup.js";
+import { checkReadiness, loadReadinessTimeout } from "../src/health.js";
+import { MetricsRegistry, ServerMetrics } from "../src/metrics.js";
+import { PoolRegistry } from "../src/pools.js";
+
+const baseConfig = { host: "tidb.example.com", port: 4000, username: "app", password: "s3cret" };
+
+// A promise pool wrapping a callback pool with the given connection counts, or one
+// whose connection lists are not where mysql2 3.x keeps them
+function fakePool(counts?: { all: number; free: number; queued: number }): mysql.Pool {
+  const queue = (length: number) => ({ length });
+  return {
+    pool: counts
+      ? { _allConnections: queue(counts.all), _freeConnections: queue(counts.free), _connectionQueue: queue(counts.queued) }
+      : { connections: [] },
+    end: async () => {},
+  } as unknown as mysql.Pool;
+}
+
+function sample(text: string, series: string): number | undefined {
+  const line = text.split("\n").find((candidate) => candidate.startsWith(`${series} `));
+  return line === undefined ? undefined : Number(line.slice(series.length + 1));
+}
+
+// Main test runner
+async function runMetricsTests() {
+  await describeAsync("Metrics Registry Tests", async () => {
+    it("should render counters and gauges", () => {
+      const registry = new MetricsRegistry();
+      const counter = registry.counter("test_total", "A counter.");
+      registry.gauge("test_gauge", "A gauge.", () => [[{ state: "idle" }, 3]]);
+      counter.inc({ tool: "db_query" });
+      counter.inc({ tool: "db_query" }, 2);
+      counter.inc({ tool: 'say "hi"\n' });
+
+      assert.strictEqual(registry.render(), [
+        "# HELP test_total A counter.",
+        "# TYPE test_total counter",
+        'test_total{tool="db_query"} 3',
+        'test_total{tool="say \\"hi\\"\\n"} 1',
+        "# HELP test_gauge A gauge.",
+        "# TYPE test_gauge gauge",
+        'test_gauge{state="idle"} 3',
+        "",
+      ].join("\n"));
+    });
+
+    it("should render cumulative histogram buckets", () => {
+      const registry = new MetricsRegistry();
+      const histogram = registry.histogram("test_seconds", "A histogram.", [0.1, 1]);
+      histogram.observe({ tool: "db_query" }, 0.05);
+      histogram.observe({ tool: "db_query" }, 0.5);
+      histogram.observe({ tool: "db_query" }, 5);
+
+      const text = registry.render();
+      assert.strictEqual(sample(text, 'test_seconds_bucket{tool="db_query",le="0.1"}'), 1);
+      assert.strictEqual(sample(text, 'test_seconds_bucket{tool="db_query",le="1"}'), 2);
+      assert.strictEqual(sample(text, 'test_seconds_bucket{tool="db_query",le="+Inf"}'), 3);
+      assert.strictEqual(sample(text, 'test_seconds_sum{tool="db_query"}'), 5.55);
+      assert.strictEqual(sample(text, 'test_seconds_count{tool="db_query"}'), 3);
+    });
+  });
+
+  await describeAsync("Server Metrics Tests", async () => {
+    await itAsync("should record tool calls by outcome", async () => {
+      const clock = new ManualClock(0);
+      const metrics = new ServerMetrics(new PoolRegistry(), clock.now);
+      const text = { type: "text" as const, text: "héllo" };
+
+      const result = await metrics.recordToolCall("db_query", async () => {
+        clock.advance(250);
+        return { content: [text] };
+      });
+      assert.deepStrictEqual(result, { content: [text] });
+      await metrics.recordToolCall("db_query", async () => ({ content: [text], isError: true }));
+      await assert.rejects(metrics.recordToolCall("db_execute", async () => {
+        throw new Error("denied");
+      }), /denied/);
+
+      const rendered = metrics.render();
+      assert.strictEqual(sample(rendered, 'tidb_mcp_tool_calls_total{tool="db_query",outcome="success"}'), 1);
+      assert.strictEqual(sample(rendered, 'tidb_mcp_tool_calls_total{tool="db_query",outcome="error"}'), 1);
+      assert.strictEqual(sample(rendered, 'tidb_mcp_tool_calls_total{tool="db_execute",outcome="error"}'), 1);
+      assert.strictEqual(sample(rendered, 'tidb_mcp_tool_call_duration_seconds_sum{tool="db_query",outcome="success"}'), 0.25);
+      assert.strictEqual(
+        sample(rendered, 'tidb_mcp_tool_response_bytes_total{tool="db_query"}'),
+        2 * Buffer.byteLength(JSON.stringify([text]))
+      );
+      assert.strictEqual(sample(rendered, 'tidb_mcp_tool_response_bytes_total{tool="db_execute"}'), undefined);
+    });
+
+    await itAsync("should report sessions and pool usage", async () => {
+      const pools = new PoolRegistry();
+      const metrics = new ServerMetrics(pools);
+      pools.acquire(baseConfig, () => fakePool({ all: 4, free: 1, queued: 2 }));
+      pools.acquire({ ...baseConfig, username: "other" }, () => fakePool({ all: 2, free: 2, queued: 0 }));
+      metrics.trackSessions(() => 7);
+
+      assert.deepStrictEqual(pools.usage(), { pools: 2, active: 3, idle: 3, queued: 2 });
+      const rendered = metrics.render();
+      assert.strictEqual(sample(rendered, "tidb_mcp_sessions"), 7);
+      assert.strictEqual(sample(rendered, "tidb_mcp_pools"), 2);
+      assert.strictEqual(sample(rendered, 'tidb_mcp_pool_connections{state="active"}'), 3);
+      assert.strictEqual(sample(rendered, 'tidb_mcp_pool_connections{state="idle"}'), 3);
+      assert.strictEqual(sample(rendered, "tidb_mcp_pool_queued_requests"), 2);
+    });
+
+    it("should count pools without readable connection lists as empty", () => {
+      const pools = new PoolRegistry();
+      pools.acquire(baseConfig, () => fakePool());
+      assert.deepStrictEqual(pools.usage(), { pools: 1, active: 0, idle: 0, queued: 0 });
+    });
+  });
+
+  await describeAsync("Readiness Tests", async () => {
+    it("should read the timeout from the environment", () => {
+      assert.strictEqual(loadReadinessTimeout({}), 2000);
+      assert.strictEqual(loadReadinessTimeout({ MCP_READINESS_TIMEOUT: "0.5" }), 500);
+      assert.throws(() => loadReadinessTimeout({ MCP_READINESS_TIMEOUT: "0" }), /MCP_READINESS_TIMEOUT must be a positive number/);
+    });
+
+    await itAsync("should be ready when TiDB answers in time", async () => {
+      assert.deepStrictEqual(await checkReadiness({ ping: async () => {} }, 100), { ready: true });
+      assert.deepStrictEqual(
+        await checkReadiness({ ping: async () => { throw new Error("connect ECONNREFUSED"); } }, 100),
+        { ready: false, error: "connect ECONNREFUSED" }
+      );
+    });
+
+    await itAsync("should give up on a ping that hangs", async () => {
+      const hanging = { ping: () => new Promise<void>((resolve) => setTimeout(resolve, 1000)) };
+      assert.deepStrictEqual(await checkReadiness(hanging, 20), { ready: false, error: "TiDB did not answer within 20ms" });
+    });
+  });
+}
+
+// Run the tests
+runMetricsTests().catch(error => {
+  console.error("Test execution failed:", error);
+  process.exit(1);
+});
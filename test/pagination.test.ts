@@ -0,0 +1,46 @@
+import assert from "assert";
+import { describeAsync, it } from "./setup.js";
+import { decodeCursor, encodeCursor, fingerprintQuery, hasTopLevelOrderBy, rowSize } from "../src/pagination.js";
+
+// Main test runner
+async function runPaginationTests() {
+  await describeAsync("Pagination Tests", async () => {
+    it("should round-trip a cursor for the same query", () => {
+      const fingerprint = fingerprintQuery("SELECT * FROM t WHERE id > ?", [10]);
+      const cursor = encodeCursor(500, fingerprint);
+      assert.strictEqual(decodeCursor(cursor, fingerprint), 500);
+    });
+
+    it("should reject a cursor issued for a different query", () => {
+      const cursor = encodeCursor(500, fingerprintQuery("SELECT * FROM t WHERE id > ?", [10]));
+      const other = fingerprintQuery("SELECT * FROM t WHERE id > ?", [20]);
+      assert.throws(() => decodeCursor(cursor, other), /does not belong to this query/);
+    });
+
+    it("should reject malformed cursors", () => {
+      const fingerprint = fingerprintQuery("SELECT 1");
+      assert.throws(() => decodeCursor("not-a-cursor", fingerprint), /Invalid cursor/);
+      const negative = Buffer.from(JSON.stringify({ offset: -1, fingerprint })).toString("base64url");
+      assert.throws(() => decodeCursor(negative, fingerprint), /Invalid cursor/);
+    });
+
+    it("should only count a top-level ORDER BY as ordering the pages", () => {
+      assert.strictEqual(hasTopLevelOrderBy("SELECT * FROM t ORDER BY id LIMIT 10"), true);
+      assert.strictEqual(hasTopLevelOrderBy("(SELECT a FROM t) UNION (SELECT a FROM u) order by a"), true);
+      assert.strictEqual(hasTopLevelOrderBy("SELECT * FROM t"), false);
+      assert.strictEqual(hasTopLevelOrderBy("SELECT * FROM (SELECT * FROM t ORDER BY id) x"), false);
+      assert.strictEqual(hasTopLevelOrderBy("SELECT ROW_NUMBER() OVER (ORDER BY id) FROM t"), false);
+      assert.strictEqual(hasTopLevelOrderBy("SELECT 'ORDER BY' FROM t -- ORDER BY id"), false);
+    });
+
+    it("should measure rows by their serialized size", () => {
+      assert.strictEqual(rowSize({ a: "é" }), Buffer.byteLength('{"a":"é"}'));
+    });
+  });
+}
+
+// Run the tests
+runPaginationTests().catch(error => {
+  console.error("Test execution failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,52 @@
+import assert from "assert";
+import { describeAsync, it } from "./setup.js";
+import { executeParamsSchema, resolveExecuteParams, toDriverValue } from "../src/params.js";
+
+// Main test runner
+async function runParamsTests() {
+  await describeAsync("Parameter Binding Tests", async () => {
+    it("should convert typed values for the driver", () => {
+      assert.strictEqual(toDriverValue("it's"), "it's");
+      assert.strictEqual(toDriverValue(1.5), 1.5);
+      assert.strictEqual(toDriverValue(null), null);
+      assert.strictEqual(toDriverValue(true), 1);
+      assert.strictEqual(toDriverValue([0.1, -2, 3e-5]), "[0.1,-2,0.00003]");
+      assert.strictEqual(toDriverValue({ json: { tags: ["a"], n: 1 } }), '{"tags":["a"],"n":1}');
+    });
+
+    it("should treat a flat list as the params of a single statement", () => {
+      const params = executeParamsSchema.parse(["x", [0.1, 0.2]]);
+      assert.deepStrictEqual(resolveExecuteParams("INSERT INTO t VALUES (?, ?)", params), [["x", "[0.1,0.2]"]]);
+    });
+
+    it("should map per-statement params to an array of statements", () => {
+      const params = executeParamsSchema.parse([["a", 1], null]);
+      assert.deepStrictEqual(
+        resolveExecuteParams(["INSERT INTO t VALUES (?, ?)", "DELETE FROM t WHERE id = 0"], params),
+        [["a", 1], undefined]
+      );
+    });
+
+    it("should decide between flat and per-statement params from the statement count", () => {
+      const vectors = executeParamsSchema.parse([[0.1, 0.2], [0.3, 0.4]]);
+      assert.deepStrictEqual(resolveExecuteParams("INSERT INTO t VALUES (?, ?)", vectors), [["[0.1,0.2]", "[0.3,0.4]"]]);
+      assert.deepStrictEqual(resolveExecuteParams(["SELECT ?, ?", "SELECT ?, ?"], vectors), [[0.1, 0.2], [0.3, 0.4]]);
+      assert.deepStrictEqual(resolveExecuteParams(["SELECT ?, ?"], executeParamsSchema.parse([[0.1, 0.2]])), [[0.1, 0.2]]);
+      assert.deepStrictEqual(resolveExecuteParams(["SELECT ?"], executeParamsSchema.parse([[[0.1, 0.2]]])), [["[0.1,0.2]"]]);
+      assert.deepStrictEqual(resolveExecuteParams(["SELECT ?, ?"], executeParamsSchema.parse(["a", 1])), [["a", 1]]);
+    });
+
+    it("should reject params that do not match the statements", () => {
+      const nested = executeParamsSchema.parse([["a"]]);
+      assert.throws(() => resolveExecuteParams("SELECT ?", nested), /params\[0\] must be a value/);
+      const short = executeParamsSchema.parse([["a"]]);
+      assert.throws(() => resolveExecuteParams(["SELECT ?", "SELECT ?"], short), /Expected 2 params entries/);
+    });
+  });
+}
+
+// Run the tests
+runParamsTests().catch(error => {
+  console.error("Test execution failed:", error);
+  process.exit(1);
+});
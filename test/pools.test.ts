@@ -0,0 +1,177 @@
+import assert from "assert";
+import type mysql from "mysql2/promise";
+import { describeAsync, itAsync, it } from "./setup.js";
+import { PoolLease, poolKey, PoolRegistry, SessionPool, sessionStateSql, validateSessionVariable } from "../src/pools.js";
+
+const baseConfig = { host: "tidb.example.com", port: 4000, username: "app", password: "s3cret", database: "shop" };
+
+function fakePool(ended: string[], name: string): mysql.Pool {
+  return { end: async () => { ended.push(name); } } as unknown as mysql.Pool;
+}
+
+// A pool handing out one connection that records its statements; failing statements reject
+function recordingLease(failing: RegExp | null = null) {
+  const log = { statements: [] as string[], destroyed: 0, released: 0 };
+  const connection = {
+    connection: {},
+    query: async (sql: string) => {
+      log.statements.push(sql);
+      if (failing?.test(sql)) {
+        throw new Error(`Failed: ${sql}`);
+      }
+      return [[], []];
+    },
+    destroy: () => { log.destroyed++; },
+    release: () => { log.released++; },
+  };
+  const lease = { key: "k", pool: { getConnection: async () => connection }, release: async () => {} } as unknown as PoolLease;
+  return { lease, log };
+}
+
+// Main test runner
+async function runPoolTests() {
+  await describeAsync("Pool Registry Tests", async () => {
+    it("should key pools by credential, not database", () => {
+      assert.strictEqual(poolKey(baseConfig), poolKey({ ...baseConfig, database: "billing" }));
+      assert.notStrictEqual(poolKey(baseConfig), poolKey({ ...baseConfig, password: "other" }));
+      assert.notStrictEqual(poolKey(baseConfig), poolKey({ ...baseConfig, readOnly: true }));
+      assert(!poolKey(baseConfig).includes("s3cret"));
+    });
+
+    await itAsync("should share pools and close them with the last reference", async () => {
+      const ended: string[] = [];
+      const registry = new PoolRegistry();
+      let created = 0;
+      const create = () => fakePool(ended, `pool${++created}`);
+
+      const first = registry.acquire(baseConfig, create);
+      const second = registry.acquire({ ...baseConfig, database: "billing" }, create);
+      assert.strictEqual(first.pool, second.pool);
+      assert.deepStrictEqual(registry.stats(), [{ key: first.key, references: 2 }]);
+
+      await first.release();
+      await first.release();
+      assert.deepStrictEqual(ended, []);
+      assert.deepStrictEqual(registry.stats(), [{ key: first.key, references: 1 }]);
+
+      await second.release();
+      assert.deepStrictEqual(ended, ["pool1"]);
+      assert.deepStrictEqual(registry.stats(), []);
+
+      const third = registry.acquire(baseConfig, create);
+      assert.notStrictEqual(third.pool, first.pool);
+      await third.release();
+      assert.deepStrictEqual(ended, ["pool1", "pool2"]);
+    });
+
+    await itAsync("should keep idle pools open for reuse when asked to", async () => {
+      const ended: string[] = [];
+      const registry = new PoolRegistry(50);
+      let created = 0;
+      const create = () => fakePool(ended, `pool${++created}`);
+
+      await registry.acquire(baseConfig, create).release();
+      const reused = registry.acquire(baseConfig, create);
+      assert.strictEqual(created, 1);
+      await reused.release();
+      assert.deepStrictEqual(ended, []);
+
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      assert.deepStrictEqual(ended, ["pool1"]);
+      assert.deepStrictEqual(registry.stats(), []);
+    });
+
+    await itAsync("should close held and idle pools on shutdown", async () => {
+      const ended: string[] = [];
+      const registry = new PoolRegistry(60000);
+      registry.acquire(baseConfig, () => fakePool(ended, "held"));
+      await registry.acquire({ ...baseConfig, username: "other" }, () => fakePool(ended, "idle")).release();
+
+      await registry.closeAll();
+      assert.deepStrictEqual(ended.sort(), ["held", "idle"]);
+      assert.deepStrictEqual(registry.stats(), []);
+    });
+  });
+
+  await describeAsync("Session State Tests", async () => {
+    const state = (database: string | undefined, variables: Record<string, string | number | null> = {}) =>
+      ({ database, variables: new Map(Object.entries(variables)) });
+
+    it("should do nothing when the connection already matches", () => {
+      assert.strictEqual(sessionStateSql(state("shop", { max_execution_time: 1000 }), state("shop", { max_execution_time: 1000 })), null);
+      assert.strictEqual(sessionStateSql(state("shop"), state(undefined)), null);
+    });
+
+    it("should switch databases and set changed variables", () => {
+      assert.deepStrictEqual(sessionStateSql(state(undefined), state("shop", { max_execution_time: 1000 })), {
+        statements: ["USE `shop`", "SET @@SESSION.max_execution_time = ?"],
+        params: [1000],
+      });
+    });
+
+    it("should reset variables another session left behind", () => {
+      assert.deepStrictEqual(
+        sessionStateSql(state("shop", { tidb_isolation_read_engines: "tiflash", max_execution_time: 10 }), state("shop", { max_execution_time: 20 })),
+        {
+          statements: ["SET @@SESSION.tidb_isolation_read_engines = DEFAULT, @@SESSION.max_execution_time = ?"],
+          params: [20],
+        }
+      );
+    });
+
+    await itAsync("should pin read-only connections to a snapshot on every borrow", async () => {
+      const { lease, log } = recordingLease();
+      const pool = new SessionPool(() => lease, { variables: new Map() }, true);
+      (await pool.getConnection()).release();
+      (await pool.getConnection()).release();
+      assert.deepStrictEqual(log.statements, ["SET @@tidb_snapshot = NOW(6)", "SET @@tidb_snapshot = NOW(6)"]);
+    });
+
+    await itAsync("should not hand out a read-only connection without its snapshot", async () => {
+      const { lease, log } = recordingLease(/tidb_snapshot/);
+      const pool = new SessionPool(() => lease, { database: "shop", variables: new Map() }, true);
+      await assert.rejects(pool.getConnection(), /tidb_snapshot/);
+      assert.strictEqual(log.destroyed, 1);
+      assert.strictEqual(log.released, 0);
+    });
+
+    await itAsync("should set the time zone once per connection", async () => {
+      const { lease, log } = recordingLease();
+      (await new SessionPool(() => lease, { variables: new Map() }, false, "+00:00").getConnection()).release();
+      (await new SessionPool(() => lease, { variables: new Map() }, false, "+00:00").getConnection()).release();
+      (await new SessionPool(() => lease, { variables: new Map() }, false, "+09:00").getConnection()).release();
+      assert.deepStrictEqual(log.statements, ["SET time_zone = ?", "SET time_zone = ?"]);
+    });
+
+    await itAsync("should not hand out a connection without its time zone", async () => {
+      const { lease, log } = recordingLease(/time_zone/);
+      const pool = new SessionPool(() => lease, { variables: new Map() }, false, "+00:00");
+      await assert.rejects(pool.getConnection(), /time_zone/);
+      assert.strictEqual(log.destroyed, 1);
+      assert.strictEqual(log.released, 0);
+    });
+
+    await itAsync("should not hand a session without a database a connection left on one", async () => {
+      const { lease, log } = recordingLease();
+      (await new SessionPool(() => lease, { database: "billing", variables: new Map() }).getConnection()).release();
+      const pool = new SessionPool(() => lease, { variables: new Map() });
+      await assert.rejects(pool.getConnection(), /without a current database/);
+      assert.deepStrictEqual(log.statements, ["USE `billing`"]);
+      assert.strictEqual(log.destroyed, 4);
+      assert.strictEqual(log.released, 1);
+    });
+
+    it("should validate variable names", () => {
+      assert.strictEqual(validateSessionVariable("@@SESSION.Max_Execution_Time"), "max_execution_time");
+      assert.throws(() => validateSessionVariable("x; DROP TABLE t"), /Invalid session variable name/);
+      assert.throws(() => validateSessionVariable("tidb_snapshot"), /managed by the server/);
+      assert.throws(() => validateSessionVariable("@@time_zone"), /managed by the server/);
+    });
+  });
+}
+
+// Run the tests
+runPoolTests().catch(error => {
+  console.error("Test execution failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,76 @@
+import assert from "assert";
+import { describeAsync, itAsync } from "./setup.js";
+import { TiDBConnector } from "../src/connector.js";
+import { findPrompt, promptDefinitions, toListedPrompt } from "../src/prompts.js";
+
+// Just enough of TiDBConnector for the prompt handlers
+const connector = {
+  currentDatabase: async () => "test",
+  serverVersion: async () => "8.0.11-TiDB-v8.5.0",
+  listTables: async () => [{ database: "test", table: "docs", type: "BASE TABLE", rowsEstimate: 3, comment: "" }],
+  getTableSchema: async (database: string, table: string) => {
+    if (table !== "docs") {
+      throw new Error(`Table ${database}.${table} does not exist`);
+    }
+    return { database, table, type: "BASE TABLE", comment: "", ddl: "CREATE TABLE `docs` (\n  `id` int NOT NULL\n)", columns: [], indexes: [] };
+  },
+  estimateRowCount: async (_database: string | undefined, table?: string) => (table === "docs" ? 3 : null),
+  queryResult: async (sql: string) => ({
+    columns: [{ name: "id", type: "INT", nullable: false }],
+    rows: sql.startsWith("EXPLAIN") ? [{ id: "TableFullScan_5" }] : [{ id: 1 }],
+  }),
+} as unknown as TiDBConnector;
+
+async function promptText(name: string, args: Record<string, string>): Promise<string> {
+  const result = await findPrompt(name)!.handler(args, { connector });
+  return (result.messages[0].content as { text: string }).text;
+}
+
+// Main test runner
+async function runPromptTests() {
+  await describeAsync("Prompt Tests", async () => {
+    itAsync("should have unique prompt names", async () => {
+      const names = promptDefinitions.map((prompt) => prompt.name);
+      assert.strictEqual(new Set(names).size, names.length);
+    });
+
+    itAsync("should list arguments with their required flag", async () => {
+      const listed = toListedPrompt(findPrompt("summarize_table")!);
+      assert.deepStrictEqual(listed.arguments?.map(({ name, required }) => ({ name, required })), [
+        { name: "table", required: true },
+        { name: "database", required: false },
+      ]);
+    });
+
+    itAsync("should embed EXPLAIN output and DDL when optimizing a query", async () => {
+      const text = await promptText("optimize_query", { sql: "SELECT * FROM docs WHERE id = 1" });
+      assert(text.includes("TableFullScan_5"));
+      assert(text.includes("CREATE TABLE `docs`"));
+    });
+
+    itAsync("should flag destructive statements and missing tables in a migration", async () => {
+      const text = await promptText("review_migration", { sql: "DROP TABLE docs; CREATE TABLE fresh (id INT)" });
+      assert(text.includes("(destructive: DROP TABLE"));
+      assert(text.includes("test.fresh: Table test.fresh does not exist"));
+      assert(text.includes("- docs: ~3 rows"));
+    });
+
+    itAsync("should use the requested distance metric for vector tables", async () => {
+      const text = await promptText("design_vector_table", { use_case: "articles", distance_metric: "l2" });
+      assert(text.includes("VEC_L2_DISTANCE(embedding)"));
+      assert(text.includes("Existing tables: docs"));
+    });
+
+    itAsync("should embed DDL and sample rows when summarizing a table", async () => {
+      const text = await promptText("summarize_table", { table: "docs" });
+      assert(text.includes("Estimated rows: 3"));
+      assert(text.includes("| id |"));
+    });
+  });
+}
+
+// Run the tests
+runPromptTests().catch(error => {
+  console.error("Test execution failed:", error);
+  process.exit(1);
+});
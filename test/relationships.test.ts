@@ -0,0 +1,108 @@
+import assert from "assert";
+import { describeAsync, it } from "./setup.js";
+import { inferRelationships, toMermaidErDiagram } from "../src/relationships.js";
+import { DatabaseSchema, SchemaColumn, SchemaIndex, SchemaTable } from "../src/schema.js";
+
+function column(name: string, type: string, nullable = true): SchemaColumn {
+  return { name, type, nullable, default: null, key: "", extra: "", comment: "" };
+}
+
+function index(name: string, columns: string[], unique: boolean): SchemaIndex {
+  return { name, kind: name === "PRIMARY" ? "primary" : unique ? "unique" : "index", unique, type: "BTREE", columns };
+}
+
+function table(name: string, columns: SchemaColumn[], indexes: SchemaIndex[]): SchemaTable {
+  return { database: "shop", table: name, type: "BASE TABLE", rowsEstimate: 0, comment: "", columns, indexes };
+}
+
+const schema: DatabaseSchema = {
+  database: "shop",
+  tables: [
+    table("users", [column("id", "bigint", false), column("email", "varchar(255)", false)], [
+      index("PRIMARY", ["id"], true),
+      index("uk_email", ["email"], true),
+    ]),
+    table("orders", [column("id", "bigint", false), column("user_id", "bigint", false), column("total", "decimal(10,2)")], [
+      index("PRIMARY", ["id"], true),
+    ]),
+    table("categories", [column("id", "int", false), column("name", "varchar(50)")], [index("PRIMARY", ["id"], true)]),
+    table("products", [column("id", "int", false), column("category_id", "int")], [index("PRIMARY", ["id"], true)]),
+    table("profiles", [column("user_id", "bigint", false)], [index("PRIMARY", ["user_id"], true)]),
+  ],
+  foreignKeys: [{
+    name: "fk_user",
+    database: "shop",
+    table: "orders",
+    columns: ["user_id"],
+    referencedDatabase: "shop",
+    referencedTable: "users",
+    referencedColumns: ["id"],
+    onUpdate: "RESTRICT",
+    onDelete: "CASCADE",
+  }],
+};
+
+// Main test runner
+async function runRelationshipTests() {
+  await describeAsync("Relationship Mapping Tests", async () => {
+    it("should use declared foreign keys only by default", () => {
+      const links = inferRelationships(schema);
+      assert.deepStrictEqual(links, [{
+        table: "orders",
+        columns: ["user_id"],
+        referencedTable: "users",
+        referencedColumns: ["id"],
+        source: "foreign_key",
+        name: "fk_user",
+        cardinality: "many-to-one",
+        optional: false,
+      }]);
+    });
+
+    it("should infer relationships from *_id column names", () => {
+      const inferred = inferRelationships(schema, { fromNames: true }).filter((link) => link.source === "naming");
+      assert.deepStrictEqual(
+        inferred.map(({ table, columns, referencedTable, cardinality, optional }) => ({ table, columns, referencedTable, cardinality, optional })),
+        [
+          { table: "products", columns: ["category_id"], referencedTable: "categories", cardinality: "many-to-one", optional: true },
+          { table: "profiles", columns: ["user_id"], referencedTable: "users", cardinality: "one-to-one", optional: false },
+        ]
+      );
+    });
+
+    it("should skip foreign keys to other databases", () => {
+      const links = inferRelationships({
+        ...schema,
+        foreignKeys: [{ ...schema.foreignKeys[0], referencedDatabase: "billing" }],
+      });
+      assert.deepStrictEqual(links, []);
+    });
+
+    it("should draw a Mermaid erDiagram with key columns", () => {
+      const diagram = toMermaidErDiagram(schema, inferRelationships(schema, { fromNames: true }));
+      const lines = diagram.split("\n");
+      assert.strictEqual(lines[0], "erDiagram");
+      assert(lines.includes("        bigint id PK"));
+      assert(lines.includes("        varchar email UK"));
+      assert(lines.includes("        bigint user_id FK"));
+      assert(!lines.includes("        decimal total"));
+      assert(lines.includes('    orders }o--|| users : "user_id"'));
+      assert(lines.includes('    products }o..o| categories : "category_id"'));
+      assert(lines.includes('    profiles |o..|| users : "user_id"'));
+    });
+
+    it("should draw every column or none on request", () => {
+      assert(toMermaidErDiagram(schema, [], "all").includes("        decimal total"));
+      assert.deepStrictEqual(
+        toMermaidErDiagram(schema, [], "none").split("\n"),
+        ["erDiagram", "    users", "    orders", "    categories", "    products", "    profiles"]
+      );
+    });
+  });
+}
+
+// Run the tests
+runRelationshipTests().catch(error => {
+  console.error("Test execution failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,105 @@
+import assert from "assert";
+import { describeAsync, it } from "./setup.js";
+import { databaseUri, parseSchemaUri, resourceTemplates, tableUri } from "../src/resources.js";
+import { groupForeignKeyColumns, groupIndexColumns, isSystemSchema, quoteIdentifier } from "../src/schema.js";
+
+// Main test runner
+async function runResourceTests() {
+  await describeAsync("Schema Resource Tests", async () => {
+    it("should build database and table URIs", () => {
+      assert.strictEqual(databaseUri("test"), "tidb://test");
+      assert.strictEqual(tableUri("test", "users"), "tidb://test/users");
+      assert.strictEqual(tableUri("my db", "a/b"), "tidb://my%20db/a%2Fb");
+    });
+
+    it("should parse URIs back into names", () => {
+      assert.deepStrictEqual(parseSchemaUri("tidb://test"), { database: "test" });
+      assert.deepStrictEqual(parseSchemaUri("tidb://test/users"), { database: "test", table: "users" });
+      assert.deepStrictEqual(parseSchemaUri(tableUri("my db", "a/b")), { database: "my db", table: "a/b" });
+    });
+
+    it("should reject unknown URIs", () => {
+      assert.strictEqual(parseSchemaUri("file:///etc/passwd"), null);
+      assert.strictEqual(parseSchemaUri("tidb://test/users/extra"), null);
+      assert.strictEqual(parseSchemaUri("tidb://%E0%A4%A"), null);
+    });
+
+    it("should expose database and table templates", () => {
+      assert.deepStrictEqual(
+        resourceTemplates.map((template) => template.uriTemplate),
+        ["tidb://{database}", "tidb://{database}/{table}"]
+      );
+    });
+
+    it("should group index columns in order", () => {
+      const indexes = groupIndexColumns([
+        { name: "idx_name", nonUnique: 1, seq: 2, column: "first_name", expression: null, type: "BTREE" },
+        { name: "PRIMARY", nonUnique: 0, seq: 1, column: "id", expression: null, type: "BTREE" },
+        { name: "idx_name", nonUnique: 1, seq: 1, column: "last_name", expression: null, type: "BTREE" },
+        { name: "idx_lower", nonUnique: 1, seq: 1, column: null, expression: "lower(`email`)", type: "BTREE" },
+      ]);
+      assert.deepStrictEqual(indexes, [
+        { name: "idx_name", kind: "index", unique: false, type: "BTREE", columns: ["last_name", "first_name"] },
+        { name: "PRIMARY", kind: "primary", unique: true, type: "BTREE", columns: ["id"] },
+        { name: "idx_lower", kind: "index", unique: false, type: "BTREE", columns: ["(lower(`email`))"] },
+      ]);
+    });
+
+    it("should recognize vector and full-text indexes from the DDL", () => {
+      const ddl = [
+        "CREATE TABLE `docs` (",
+        "  `id` int NOT NULL,",
+        "  `body` text DEFAULT NULL,",
+        "  `embedding` vector(3) DEFAULT NULL,",
+        "  PRIMARY KEY (`id`) /*T![clustered_index] CLUSTERED */,",
+        "  VECTOR INDEX `idx_embedding`((VEC_COSINE_DISTANCE(`embedding`))) USING HNSW,",
+        "  FULLTEXT INDEX `idx_body`(`body`) WITH PARSER STANDARD",
+        ")",
+      ].join("\n");
+      const indexes = groupIndexColumns([
+        { name: "PRIMARY", nonUnique: 0, seq: 1, column: "id", expression: null, type: "BTREE" },
+        { name: "idx_embedding", nonUnique: 1, seq: 1, column: "embedding", expression: null, type: "HNSW" },
+      ], ddl);
+      assert.deepStrictEqual(indexes.map(({ name, kind, columns }) => ({ name, kind, columns })), [
+        { name: "PRIMARY", kind: "primary", columns: ["id"] },
+        { name: "idx_embedding", kind: "vector", columns: ["embedding"] },
+        { name: "idx_body", kind: "fulltext", columns: ["`body`"] },
+      ]);
+    });
+
+    it("should group foreign key columns", () => {
+      const keys = groupForeignKeyColumns([
+        { name: "fk_order", database: "shop", table: "items", column: "order_line", referencedDatabase: "shop", referencedTable: "orders", referencedColumn: "line", seq: 2, onUpdate: "RESTRICT", onDelete: "CASCADE" },
+        { name: "fk_order", database: "shop", table: "items", column: "order_id", referencedDatabase: "shop", referencedTable: "orders", referencedColumn: "id", seq: 1, onUpdate: "RESTRICT", onDelete: "CASCADE" },
+      ]);
+      assert.deepStrictEqual(keys, [{
+        name: "fk_order",
+        database: "shop",
+        table: "items",
+        columns: ["order_id", "order_line"],
+        referencedDatabase: "shop",
+        referencedTable: "orders",
+        referencedColumns: ["id", "line"],
+        onUpdate: "RESTRICT",
+        onDelete: "CASCADE",
+      }]);
+    });
+
+    it("should recognize system schemas", () => {
+      assert.strictEqual(isSystemSchema("information_schema"), true);
+      assert.strictEqual(isSystemSchema("mysql"), true);
+      assert.strictEqual(isSystemSchema("test"), false);
+    });
+
+    it("should quote identifiers", () => {
+      assert.strictEqual(quoteIdentifier("users"), "`users`");
+      assert.strictEqual(quoteIdentifier("we`ird"), "`we``ird`");
+    });
+  });
+}
+
+// Run the tests
+runResourceTests().catch(error => {
+  console.error("Test execution failed:", error);
+  process.exit(1);
+});
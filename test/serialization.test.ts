@@ -0,0 +1,103 @@
+import assert from "assert";
+import { describeAsync, it } from "./setup.js";
+import { ColumnInfo } from "../src/columns.js";
+import {
+  DEFAULT_SERIALIZATION_OPTIONS,
+  normalizeTimeZone,
+  serializeResultSet,
+  serializeValue,
+  SerializationOptions,
+} from "../src/serialization.js";
+
+const options: SerializationOptions = { timeZone: "+09:00", binaryEncoding: "base64", maxBinaryBytes: 4 };
+
+function column(type: string): ColumnInfo {
+  return { name: "value", type, nullable: true };
+}
+
+function serialize(value: unknown, type: string, overrides: Partial<SerializationOptions> = {}): unknown {
+  return serializeValue(value, column(type), { ...options, ...overrides });
+}
+
+// Main test runner
+async function runSerializationTests() {
+  await describeAsync("Value Serialization Tests", async () => {
+    it("should render BIGINT and DECIMAL as strings", () => {
+      assert.strictEqual(serialize(42, "BIGINT"), "42");
+      assert.strictEqual(serialize("9223372036854775807", "BIGINT"), "9223372036854775807");
+      assert.strictEqual(serialize("12.340", "DECIMAL"), "12.340");
+    });
+
+    it("should keep small integer types as numbers", () => {
+      assert.strictEqual(serialize(7, "INT"), 7);
+      assert.strictEqual(serialize(1.5, "DOUBLE"), 1.5);
+    });
+
+    it("should render dates in ISO format", () => {
+      assert.strictEqual(serialize("2024-03-01", "DATE"), "2024-03-01");
+      assert.strictEqual(serialize("2024-03-01 12:34:56.789", "DATETIME"), "2024-03-01T12:34:56.789");
+      assert.strictEqual(serialize("2024-03-01 12:34:56", "TIMESTAMP"), "2024-03-01T12:34:56+09:00");
+    });
+
+    it("should leave zero dates untouched", () => {
+      assert.strictEqual(serialize("0000-00-00 00:00:00", "TIMESTAMP"), "0000-00-00 00:00:00");
+    });
+
+    it("should encode binary values and cap their size", () => {
+      assert.strictEqual(serialize(Buffer.from([1, 2, 3]), "VARBINARY"), "AQID");
+      assert.strictEqual(serialize(Buffer.from([1, 2, 3]), "BLOB", { binaryEncoding: "hex" }), "010203");
+      assert.strictEqual(
+        serialize(Buffer.from([1, 2, 3, 4, 5, 6]), "BLOB", { binaryEncoding: "hex" }),
+        "01020304... (6 bytes)"
+      );
+    });
+
+    it("should render VECTOR values as float arrays", () => {
+      assert.deepStrictEqual(serialize("[0.5,-1,2]", "VECTOR"), [0.5, -1, 2]);
+      assert.deepStrictEqual(serialize(Buffer.from("[1,2]"), "VECTOR"), [1, 2]);
+
+      const binary = Buffer.alloc(8);
+      binary.writeFloatLE(0.5, 0);
+      binary.writeFloatLE(-2, 4);
+      assert.deepStrictEqual(serialize(binary, "VECTOR"), [0.5, -2]);
+    });
+
+    it("should parse JSON columns", () => {
+      assert.deepStrictEqual(serialize('{"a":[1,2]}', "JSON"), { a: [1, 2] });
+      assert.deepStrictEqual(serialize({ a: 1 }, "JSON"), { a: 1 });
+    });
+
+    it("should render BIT values as integer strings", () => {
+      assert.strictEqual(serialize(Buffer.from([0x01, 0x00]), "BIT"), "256");
+    });
+
+    it("should fall back to the value type without column metadata", () => {
+      assert.strictEqual(serializeValue(BigInt(5), undefined, options), "5");
+      assert.strictEqual(serializeValue(Buffer.from([255]), undefined, options), "/w==");
+      assert.strictEqual(serializeValue(null, undefined, options), null);
+    });
+
+    it("should serialize every row of a result set", () => {
+      const result = serializeResultSet({
+        columns: [column("BIGINT"), { name: "doc", type: "JSON", nullable: true }],
+        rows: [{ value: 1, doc: "[true]" }, { value: null, doc: null }],
+      }, DEFAULT_SERIALIZATION_OPTIONS);
+      assert.deepStrictEqual(result.rows, [{ value: "1", doc: [true] }, { value: null, doc: null }]);
+    });
+
+    it("should normalize time zones", () => {
+      assert.strictEqual(normalizeTimeZone("UTC"), "+00:00");
+      assert.strictEqual(normalizeTimeZone("Z"), "+00:00");
+      assert.strictEqual(normalizeTimeZone("+9:00"), "+09:00");
+      assert.strictEqual(normalizeTimeZone("-0530"), "-05:30");
+      assert.strictEqual(normalizeTimeZone("Asia/Tokyo"), null);
+      assert.strictEqual(normalizeTimeZone("+15:00"), null);
+    });
+  });
+}
+
+// Run the tests
+runSerializationTests().catch(error => {
+  console.error("Test execution failed:", error);
+  process.exit(1);
+});
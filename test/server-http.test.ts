@@ -29,7 +29,6 @@ async function startHttpServer(): Promise<ChildProcess> {
       ...process.env,
       ...config,
       MCP_HTTP_PORT: HTTP_PORT.toString(),
-      MCP_CORS_ORIGIN: "*",
     },
     stdio: ["ignore", "pipe", "pipe"],
   });
@@ -96,11 +95,21 @@ async function runTests() {
     console.log(`Found ${toolsResponse.tools.length} tools`);
     
     const expectedTools = [
+      "list_connections",
+      "use_connection",
       "show_databases",
       "switch_database", 
+      "set_session_variable",
       "show_tables",
+      "describe_table",
+      "describe_schema",
+      "explain_query",
       "db_query",
       "db_execute",
+      "vector_create_table",
+      "vector_upsert",
+      "vector_search",
+      "hybrid_search",
       "db_create_user",
       "db_remove_user",
     ];
@@ -124,7 +133,7 @@ async function runTests() {
     }
     
     const databases = JSON.parse(((dbsResult.content as any[])[0] as any).text);
-    console.log(`✓ Found ${databases.length} databases`);
+    console.log(`✓ Found ${databases.rows.length} databases`);
 
     // Test 3: Create and query test table
     console.log("\nTest 3: Creating test table...");
@@ -160,24 +169,39 @@ async function runTests() {
       },
     });
     
-    const rows = JSON.parse(((queryResult.content as any[])[0] as any).text);
+    const { rows } = JSON.parse(((queryResult.content as any[])[0] as any).text);
     if (rows.length !== 2) {
       throw new Error(`Expected 2 rows, got ${rows.length}`);
     }
     console.log("✓ Data queried successfully");
 
+    // Test 6: Schema resources
+    console.log("\nTest 6: Reading table schema resource...");
+    const templates = await client.listResourceTemplates();
+    if (!templates.resourceTemplates.find((t: any) => t.uriTemplate === "tidb://{database}/{table}")) {
+      throw new Error("Expected table resource template not found");
+    }
+    const database = process.env.TIDB_DATABASE || "test";
+    const resourceResult = await client.readResource({ uri: `tidb://${database}/${testTableName}` });
+    const schema = JSON.parse((resourceResult.contents[0] as any).text);
+    if (!schema.ddl.includes("CREATE TABLE") || schema.columns.length !== 2) {
+      throw new Error("Unexpected table schema resource content");
+    }
+    console.log("✓ Table schema resource read");
+
     // Cleanup
-    console.log("\nTest 6: Cleaning up...");
+    console.log("\nTest 7: Cleaning up...");
     await client.callTool({
       name: "db_execute",
       arguments: {
         sql_stmts: `DROP TABLE ${testTableName}`,
+        confirm: true,
       },
     });
     console.log("✓ Table dropped");
 
-    // Test 7: Error handling
-    console.log("\nTest 7: Testing error handling...");
+    // Test 8: Error handling
+    console.log("\nTest 8: Testing error handling...");
     try {
       const errorResult = await client.callTool({
         name: "db_query",
@@ -209,6 +233,21 @@ async function runTests() {
       }
     }
 
+    // Test 9: Probes and metrics
+    console.log("\nTest 9: Checking health, readiness and metrics endpoints...");
+    const health = await fetch(`${SERVER_URL}/healthz`);
+    const ready = await fetch(`${SERVER_URL}/readyz`);
+    if (health.status !== 200 || ready.status !== 200) {
+      throw new Error(`Expected healthy and ready server, got ${health.status} and ${ready.status}`);
+    }
+    const metrics = await (await fetch(`${SERVER_URL}/metrics`)).text();
+    for (const series of ['tidb_mcp_tool_calls_total{tool="db_query",outcome="success"}', "tidb_mcp_sessions 1", 'tidb_mcp_pool_connections{state="idle"}']) {
+      if (!metrics.includes(series)) {
+        throw new Error(`Missing ${series} in metrics`);
+      }
+    }
+    console.log("✓ Probes and metrics served");
+
     console.log("\n✅ All HTTP server tests passed!");
 
   } catch (error) {
@@ -0,0 +1,103 @@
+import assert from "assert";
+import { describeAsync, it, ManualClock } from "./setup.js";
+import { EvictionReason, loadSessionLimits, SessionStore } from "../src/sessions.js";
+
+// A store on a clock the tests move by hand, recording what it evicts
+function createStore(idleTimeoutMs: number, maxSessions: number) {
+  const clock = new ManualClock();
+  const evicted: Array<[string, EvictionReason]> = [];
+  const store = new SessionStore<string>(
+    { idleTimeoutMs, maxSessions },
+    (entry, reason) => evicted.push([entry.id, reason]),
+    clock.now
+  );
+  return { store, clock, evicted };
+}
+
+// Main test runner
+async function runSessionTests() {
+  await describeAsync("Session Store Tests", async () => {
+    it("should read limits from the environment", () => {
+      assert.deepStrictEqual(loadSessionLimits({}), { idleTimeoutMs: 30 * 60 * 1000, maxSessions: 100 });
+      assert.deepStrictEqual(loadSessionLimits({ MCP_SESSION_IDLE_TIMEOUT: "60", MCP_MAX_SESSIONS: "0" }), { idleTimeoutMs: 60000, maxSessions: 0 });
+      assert.throws(() => loadSessionLimits({ MCP_MAX_SESSIONS: "-1" }), /MCP_MAX_SESSIONS must be a non-negative integer/);
+      assert.throws(() => loadSessionLimits({ MCP_SESSION_IDLE_TIMEOUT: "1.5" }), /MCP_SESSION_IDLE_TIMEOUT/);
+    });
+
+    it("should track creation and last activity", () => {
+      const { store, clock } = createStore(60000, 10);
+      const entry = store.add("a", "session a", "alice")!;
+      assert.strictEqual(entry.principal, "alice");
+      assert.strictEqual(entry.createdAt.getTime(), 1_000_000);
+
+      clock.advance(5000);
+      const end = store.begin("a");
+      assert.strictEqual(entry.activeRequests, 1);
+      clock.advance(5000);
+      end();
+      end();
+      assert.strictEqual(entry.activeRequests, 0);
+      assert.strictEqual(entry.createdAt.getTime(), 1_000_000);
+      assert.strictEqual(entry.lastActivityAt.getTime(), 1_010_000);
+    });
+
+    it("should evict the least recently active session at capacity", () => {
+      const { store, clock, evicted } = createStore(0, 2);
+      store.add("a", "session a");
+      clock.advance(1000);
+      store.add("b", "session b");
+      clock.advance(1000);
+      store.begin("a")();
+
+      store.add("c", "session c");
+      assert.deepStrictEqual(evicted, [["b", "capacity"]]);
+      assert.deepStrictEqual(store.list().map((entry) => entry.id), ["a", "c"]);
+      assert.strictEqual(store.get("b"), undefined);
+    });
+
+    it("should only evict idle sessions at capacity", () => {
+      const { store, clock, evicted } = createStore(0, 2);
+      store.add("a", "session a");
+      clock.advance(1000);
+      store.add("b", "session b");
+      store.begin("a");
+
+      assert.notStrictEqual(store.add("c", "session c"), null);
+      assert.deepStrictEqual(evicted, [["b", "capacity"]]);
+      store.begin("c");
+
+      assert.strictEqual(store.makeRoom(), false);
+      assert.strictEqual(store.add("d", "session d"), null);
+      assert.deepStrictEqual(store.list().map((entry) => entry.id), ["a", "c"]);
+      assert.strictEqual(evicted.length, 1);
+    });
+
+    it("should close idle sessions but not busy ones", () => {
+      const { store, clock, evicted } = createStore(60000, 0);
+      store.add("idle", "idle session");
+      store.add("streaming", "streaming session");
+      store.begin("streaming");
+      clock.advance(59000);
+      assert.strictEqual(store.sweep(), 0);
+
+      clock.advance(1000);
+      assert.strictEqual(store.sweep(), 1);
+      assert.deepStrictEqual(evicted, [["idle", "idle"]]);
+      assert.deepStrictEqual(store.list().map((entry) => entry.id), ["streaming"]);
+    });
+
+    it("should not expire sessions when the idle timeout is disabled", () => {
+      const { store, clock } = createStore(0, 0);
+      store.add("a", "session a");
+      clock.advance(365 * 24 * 3600 * 1000);
+      assert.strictEqual(store.sweep(), 0);
+      assert.strictEqual(store.size, 1);
+    });
+  });
+}
+
+// Run the tests
+runSessionTests().catch(error => {
+  console.error("Test execution failed:", error);
+  process.exit(1);
+});
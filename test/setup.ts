@@ -107,6 +107,17 @@ export async function itAsync(
   }
 }
 
+// A time source the tests move by hand: pass clock.now where the code takes () => number
+export class ManualClock {
+  constructor(private time: number = 1_000_000) {}
+
+  readonly now = (): number => this.time;
+
+  advance(ms: number): void {
+    this.time += ms;
+  }
+}
+
 // Verify required environment variables
 export function checkEnvVariables(): void {
   const required = ["TIDB_HOST", "TIDB_PORT", "TIDB_USERNAME", "TIDB_DATABASE"];
@@ -0,0 +1,115 @@
+import assert from "assert";
+import { describeAsync, it } from "./setup.js";
+import { classifySql, referencedTables, tokenize, StatementKind } from "../src/sql-classifier.js";
+
+function kindOf(sql: string): StatementKind {
+  const statements = classifySql(sql);
+  assert.strictEqual(statements.length, 1, `expected one statement in: ${sql}`);
+  return statements[0].kind;
+}
+
+// Main test runner
+async function runSqlClassifierTests() {
+  await describeAsync("SQL Classifier Tests", async () => {
+    await describeAsync("Tokenizer", async () => {
+      it("should skip line and block comments", () => {
+        const tokens = tokenize("-- leading\nSELECT /* inline */ 1 # trailing");
+        assert.deepStrictEqual(tokens.map((t) => t.value), ["SELECT", "1"]);
+      });
+
+      it("should keep the content of executable comments", () => {
+        const tokens = tokenize("CREATE TABLE t (id INT PRIMARY KEY /*T![clustered_index] CLUSTERED */)");
+        assert(tokens.some((t) => t.value === "CLUSTERED"));
+      });
+
+      it("should treat quoted text as a single token", () => {
+        const tokens = tokenize("SELECT 'it''s; -- not a comment', `a``b`, \"x\\\"y\"");
+        assert.deepStrictEqual(tokens.map((t) => t.type), [
+          "word", "string", "punct", "quoted_identifier", "punct", "string",
+        ]);
+      });
+    });
+
+    await describeAsync("Statement splitting", async () => {
+      it("should split on top-level semicolons only", () => {
+        const statements = classifySql("SELECT ';'; DELETE FROM t; ");
+        assert.strictEqual(statements.length, 2);
+        assert.strictEqual(statements[0].text, "SELECT ';'");
+        assert.strictEqual(statements[1].kind, "write");
+      });
+    });
+
+    await describeAsync("Classification", async () => {
+      it("should accept read statements with leading comments and parentheses", () => {
+        assert.strictEqual(kindOf("/* report */ SELECT * FROM t"), "read");
+        assert.strictEqual(kindOf("(SELECT 1) UNION (SELECT 2)"), "read");
+        assert.strictEqual(kindOf("SHOW TABLES"), "read");
+        assert.strictEqual(kindOf("DESC t"), "read");
+        assert.strictEqual(kindOf("EXPLAIN DELETE FROM t"), "read");
+      });
+
+      it("should classify CTEs by their main statement", () => {
+        assert.strictEqual(kindOf("WITH a AS (SELECT 1), b (x) AS (SELECT 2) SELECT * FROM a, b"), "read");
+        assert.strictEqual(kindOf("WITH RECURSIVE a AS (SELECT 1) DELETE FROM t WHERE id IN (SELECT * FROM a)"), "write");
+      });
+
+      it("should reject locking and file-writing selects", () => {
+        assert.strictEqual(kindOf("SELECT * FROM t WHERE id = 1 FOR UPDATE"), "write");
+        assert.strictEqual(kindOf("SELECT * FROM t LOCK IN SHARE MODE"), "write");
+        assert.strictEqual(kindOf("SELECT * FROM t INTO OUTFILE '/tmp/t.csv'"), "write");
+        assert.strictEqual(kindOf("SELECT 'FOR UPDATE' FROM t"), "read");
+      });
+
+      it("should classify EXPLAIN ANALYZE by the analyzed statement", () => {
+        assert.strictEqual(kindOf("EXPLAIN ANALYZE SELECT * FROM t"), "read");
+        assert.strictEqual(kindOf("EXPLAIN ANALYZE DELETE FROM t"), "write");
+      });
+
+      it("should label DDL, DCL, transaction and session statements", () => {
+        assert.strictEqual(kindOf("CREATE TABLE t (id INT)"), "ddl");
+        assert.strictEqual(kindOf("TRUNCATE TABLE t"), "ddl");
+        assert.strictEqual(kindOf("CREATE USER 'u' IDENTIFIED BY 'p'"), "dcl");
+        assert.strictEqual(kindOf("DROP USER IF EXISTS 'u'"), "dcl");
+        assert.strictEqual(kindOf("GRANT SELECT ON db.* TO 'u'"), "dcl");
+        assert.strictEqual(kindOf("BEGIN"), "transaction");
+        assert.strictEqual(kindOf("START TRANSACTION"), "transaction");
+        assert.strictEqual(kindOf("USE test"), "session");
+        assert.strictEqual(kindOf("SET @a = 1"), "session");
+      });
+    });
+
+    await describeAsync("Referenced tables", async () => {
+      it("should find tables in joins and subqueries", () => {
+        assert.deepStrictEqual(
+          referencedTables("SELECT * FROM orders o JOIN shop.customers AS c ON o.cid = c.id WHERE o.id IN (SELECT order_id FROM items)"),
+          [{ table: "orders" }, { database: "shop", table: "customers" }, { table: "items" }]
+        );
+      });
+
+      it("should read comma-separated table lists", () => {
+        assert.deepStrictEqual(referencedTables("SELECT * FROM a x, `b c` WHERE x.id = 1"), [{ table: "a" }, { table: "b c" }]);
+      });
+
+      it("should find DML and DDL targets", () => {
+        assert.deepStrictEqual(
+          referencedTables("INSERT INTO t1 (id) VALUES (1); UPDATE t2 SET a = 1; ALTER TABLE t3 ADD COLUMN c INT; CREATE INDEX i ON t4 (c)"),
+          [{ table: "t1" }, { table: "t2" }, { table: "t3" }, { table: "t4" }]
+        );
+        assert.deepStrictEqual(referencedTables("CREATE TABLE IF NOT EXISTS t5 (id INT)"), [{ table: "t5" }]);
+      });
+
+      it("should leave out CTE names", () => {
+        assert.deepStrictEqual(
+          referencedTables("WITH recent AS (SELECT * FROM events) SELECT * FROM recent"),
+          [{ table: "events" }]
+        );
+      });
+    });
+  });
+}
+
+// Run the tests
+runSqlClassifierTests().catch(error => {
+  console.error("Test execution failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,55 @@
+import assert from "assert";
+import { readFileSync } from "fs";
+import { join } from "path";
+import { describeAsync, itAsync } from "./setup.js";
+import { availableTools, toolDefinitions, toListedTool, toManifestTools } from "../src/tools.js";
+
+interface ManifestTool {
+  name: string;
+  description: string;
+}
+
+// Main test runner
+async function runToolRegistryTests() {
+  await describeAsync("Tool Registry Tests", async () => {
+    itAsync("should have unique tool names", async () => {
+      const names = toolDefinitions.map((tool) => tool.name);
+      assert.strictEqual(new Set(names).size, names.length);
+    });
+
+    itAsync("should produce JSON Schema input schemas", async () => {
+      for (const tool of toolDefinitions) {
+        const listed = toListedTool(tool);
+        assert.strictEqual(listed.inputSchema.type, "object");
+        assert.strictEqual(listed.description, tool.description);
+      }
+    });
+
+    itAsync("should mark sql_stmt as required for db_query", async () => {
+      const dbQuery = toolDefinitions.find((tool) => tool.name === "db_query")!;
+      const listed = toListedTool(dbQuery);
+      assert.deepStrictEqual(listed.inputSchema.required, ["sql_stmt"]);
+    });
+
+    itAsync("should hide write tools in read-only mode", async () => {
+      const names = availableTools(true).map((tool) => tool.name);
+      for (const hidden of ["db_execute", "vector_create_table", "vector_upsert", "db_create_user", "db_remove_user"]) {
+        assert(!names.includes(hidden), `${hidden} should be hidden`);
+      }
+      assert(names.includes("db_query"));
+      assert(names.includes("vector_search"));
+      assert.strictEqual(availableTools(false).length, toolDefinitions.length);
+    });
+
+    itAsync("should match the tools array in manifest.json", async () => {
+      const manifest = JSON.parse(readFileSync(join(process.cwd(), "manifest.json"), "utf8"));
+      assert.deepStrictEqual(manifest.tools as ManifestTool[], toManifestTools());
+    });
+  });
+}
+
+// Run the tests
+runToolRegistryTests().catch(error => {
+  console.error("Test execution failed:", error);
+  process.exit(1);
+});
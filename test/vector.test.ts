@@ -0,0 +1,242 @@
+import assert from "assert";
+import { createServer } from "http";
+import type { AddressInfo } from "net";
+import { describeAsync, itAsync, it } from "./setup.js";
+import {
+  createEmbeddingProvider,
+  EmbeddingProvider,
+  embeddingProviderNames,
+  embedTexts,
+  LocalEmbeddingProvider,
+  OpenAIEmbeddingProvider,
+  registerEmbeddingProvider,
+} from "../src/embeddings.js";
+import { buildKeywordSearchSql, reciprocalRankFusion, rowKey } from "../src/hybrid.js";
+import {
+  buildCreateVectorTableSql,
+  buildFilterClause,
+  buildUpsertSql,
+  buildVectorSearchSql,
+  DEFAULT_VECTOR_COLUMNS,
+  toVectorLiteral,
+  vectorDimensions,
+} from "../src/vector.js";
+
+function cosine(a: number[], b: number[]): number {
+  return a.reduce((sum, value, i) => sum + value * b[i], 0);
+}
+
+// Main test runner
+async function runVectorTests() {
+  await describeAsync("Embedding Provider Tests", async () => {
+    const provider = new LocalEmbeddingProvider(64);
+
+    await itAsync("should embed deterministically with unit length", async () => {
+      const [first] = await provider.embed(["TiDB vector search"]);
+      const [second] = await new LocalEmbeddingProvider(64).embed(["TiDB vector search"]);
+      assert.strictEqual(first.length, 64);
+      assert.deepStrictEqual(first, second);
+      assert(Math.abs(cosine(first, first) - 1) < 1e-9);
+    });
+
+    await itAsync("should place texts with shared words closer together", async () => {
+      const [query, related, unrelated] = await provider.embed([
+        "vector index on embeddings",
+        "building a vector index for embeddings",
+        "monthly invoice totals",
+      ]);
+      assert(cosine(query, related) > cosine(query, unrelated));
+    });
+
+    await itAsync("should embed empty text as a zero vector", async () => {
+      const [empty] = await provider.embed([""]);
+      assert(empty.every((value) => value === 0));
+    });
+
+    it("should create registered providers by name", () => {
+      assert(embeddingProviderNames().includes("local"));
+      assert(embeddingProviderNames().includes("openai"));
+      assert.strictEqual(createEmbeddingProvider({ provider: "LOCAL", dimensions: 8 }).dimensions, 8);
+      assert.throws(() => createEmbeddingProvider({ provider: "nope" }), /Unknown embedding provider "nope"/);
+      assert.throws(() => createEmbeddingProvider({ provider: "openai" }), /TIDB_EMBEDDING_DIMENSIONS is required/);
+    });
+
+    await itAsync("should accept custom providers and check their dimensions", async () => {
+      const broken: EmbeddingProvider = {
+        name: "broken",
+        model: "test",
+        dimensions: 3,
+        embed: async (texts) => texts.map(() => [1, 0]),
+      };
+      registerEmbeddingProvider("broken", () => broken);
+      assert.strictEqual(createEmbeddingProvider({ provider: "broken" }), broken);
+      await assert.rejects(embedTexts(broken, ["a"]), /returned 2 dimensions, expected 3/);
+      assert.deepStrictEqual(await embedTexts(broken, []), []);
+    });
+
+    await itAsync("should give up on an embedding service that does not answer", async () => {
+      const server = createServer(() => {});
+      await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+      const { port } = server.address() as AddressInfo;
+      try {
+        const provider = new OpenAIEmbeddingProvider({ dimensions: 3, baseUrl: `http://127.0.0.1:${port}/v1`, timeout: 0.05 });
+        await assert.rejects(provider.embed(["a"]), /Embedding request timed out after 0.05s/);
+      } finally {
+        server.closeAllConnections();
+        await new Promise((resolve) => server.close(resolve));
+      }
+    });
+  });
+
+  await describeAsync("Vector SQL Tests", async () => {
+    it("should format vector literals and read column dimensions", () => {
+      assert.strictEqual(toVectorLiteral([0.5, -1, 2e-7]), "[0.5,-1,2e-7]");
+      assert.throws(() => toVectorLiteral([]), /cannot be empty/);
+      assert.throws(() => toVectorLiteral([1, NaN]), /finite numbers/);
+      assert.strictEqual(vectorDimensions("vector(768)"), 768);
+      assert.strictEqual(vectorDimensions("VECTOR"), null);
+      assert.strictEqual(vectorDimensions("varchar(10)"), undefined);
+    });
+
+    it("should build a vector table with an HNSW index", () => {
+      const ddl = buildCreateVectorTableSql({
+        database: "test",
+        table: "docs",
+        dimensions: 3,
+        metric: "l2",
+        idType: "string",
+        idColumn: "id",
+        contentColumn: "content",
+        metadataColumn: "metadata",
+        vectorColumn: "embedding",
+        createIndex: true,
+        ifNotExists: true,
+      });
+      assert.strictEqual(ddl, [
+        "CREATE TABLE IF NOT EXISTS `test`.`docs` (",
+        "  `id` VARCHAR(255) NOT NULL PRIMARY KEY,",
+        "  `content` TEXT,",
+        "  `metadata` JSON,",
+        "  `embedding` VECTOR(3) NOT NULL,",
+        "  VECTOR INDEX `idx_embedding` ((VEC_L2_DISTANCE(`embedding`))) USING HNSW",
+        ")",
+      ].join("\n"));
+    });
+
+    it("should build an upsert with only the columns rows carry", () => {
+      const { sql, params } = buildUpsertSql(undefined, "docs", DEFAULT_VECTOR_COLUMNS, [
+        { id: 1, content: "a", embedding: [1, 0] },
+        { id: 2, embedding: [0, 1] },
+      ]);
+      assert.strictEqual(
+        sql,
+        "INSERT INTO `docs` (`id`, `content`, `embedding`) VALUES (?, ?, ?), (?, ?, ?) " +
+        "ON DUPLICATE KEY UPDATE `content` = VALUES(`content`), `embedding` = VALUES(`embedding`)"
+      );
+      assert.deepStrictEqual(params, [1, "a", "[1,0]", 2, null, "[0,1]"]);
+
+      const withMetadata = buildUpsertSql(undefined, "docs", DEFAULT_VECTOR_COLUMNS, [
+        { id: "x", metadata: { tag: "news" }, embedding: [1] },
+      ]);
+      assert.deepStrictEqual(withMetadata.params, ["x", '{"tag":"news"}', "[1]"]);
+    });
+
+    it("should bind filter values and JSON paths", () => {
+      const clause = buildFilterClause([
+        { column: "metadata", path: "$.category", op: "=", value: "news" },
+        { column: "id", op: "in", value: [1, 2] },
+        { column: "content", op: "like", value: "%tidb%" },
+        { column: "deleted", op: "=", value: false },
+        { column: "published_at", op: "is_not_null" },
+      ]);
+      assert.strictEqual(
+        clause.sql,
+        "JSON_UNQUOTE(JSON_EXTRACT(`metadata`, ?)) = ? AND `id` IN (?, ?) AND `content` LIKE ? AND `deleted` = ? AND `published_at` IS NOT NULL"
+      );
+      assert.deepStrictEqual(clause.params, ["$.category", "news", 1, 2, "%tidb%", 0]);
+      assert.throws(() => buildFilterClause([{ column: "id", op: "in", value: [] }]), /non-empty array/);
+      assert.throws(() => buildFilterClause([{ column: "id", op: ">" }]), /single value/);
+    });
+
+    it("should order by distance and apply thresholds after the k-NN step", () => {
+      const options = {
+        table: "docs",
+        vectorColumn: "embedding",
+        columns: ["id", "content"],
+        vector: [0.1, 0.2],
+        metric: "cosine" as const,
+        k: 5,
+        filters: [],
+      };
+      assert.deepStrictEqual(buildVectorSearchSql(options), {
+        sql: "SELECT `id`, `content`, VEC_COSINE_DISTANCE(`embedding`, '[0.1,0.2]') AS `distance` FROM `docs` ORDER BY `distance` LIMIT 5",
+        params: [],
+      });
+
+      const filtered = buildVectorSearchSql({
+        ...options,
+        metric: "inner_product",
+        filters: [{ column: "id", op: ">", value: 10 }],
+        maxDistance: 0.3,
+      });
+      assert.strictEqual(
+        filtered.sql,
+        "SELECT * FROM (SELECT `id`, `content`, VEC_NEGATIVE_INNER_PRODUCT(`embedding`, '[0.1,0.2]') AS `distance` FROM `docs` " +
+        "WHERE `id` > ? ORDER BY `distance` LIMIT 5) AS `candidates` WHERE `distance` <= ? ORDER BY `distance`"
+      );
+      assert.deepStrictEqual(filtered.params, [10, 0.3]);
+    });
+  });
+
+  await describeAsync("Hybrid Search Tests", async () => {
+    const hit = (id: number, value: number) => ({ key: rowKey({ id }, ["id"]), row: { id }, value });
+
+    it("should fuse rankings with reciprocal rank fusion", () => {
+      const fused = reciprocalRankFusion([
+        { retriever: "keyword", weight: 1, hits: [hit(1, 5.2), hit(2, 3.1)] },
+        { retriever: "vector", weight: 1, hits: [hit(2, 0.1), hit(3, 0.2)] },
+      ], 60);
+      assert.deepStrictEqual(fused.map((entry) => entry.row.id), [2, 1, 3]);
+      assert.strictEqual(fused[0].score, 1 / 62 + 1 / 61);
+      assert.deepStrictEqual(fused[0].matchedBy, ["keyword", "vector"]);
+      assert.deepStrictEqual(fused[0].matches, { keyword: { rank: 2, value: 3.1 }, vector: { rank: 1, value: 0.1 } });
+      assert.deepStrictEqual(fused[2].matchedBy, ["vector"]);
+    });
+
+    it("should weight retrievers and cut off at the limit", () => {
+      const fused = reciprocalRankFusion([
+        { retriever: "keyword", weight: 0.2, hits: [hit(1, 5.2)] },
+        { retriever: "vector", weight: 1, hits: [hit(3, 0.2)] },
+      ], 60, 1);
+      assert.deepStrictEqual(fused.map((entry) => entry.row.id), [3]);
+    });
+
+    it("should count each retriever once per row", () => {
+      const [only] = reciprocalRankFusion([{ retriever: "keyword", weight: 1, hits: [hit(1, 2), hit(1, 1)] }], 0);
+      assert.strictEqual(only.score, 1);
+    });
+
+    it("should build a full-text query with filters", () => {
+      const { sql, params } = buildKeywordSearchSql({
+        table: "docs",
+        textColumn: "content",
+        columns: ["id", "content"],
+        query: "tidb vector",
+        filters: [{ column: "lang", op: "=", value: "en" }],
+        limit: 20,
+      });
+      assert.strictEqual(
+        sql,
+        "SELECT `id`, `content`, FTS_MATCH_WORD(?, `content`) AS `keyword_score` FROM `docs` " +
+        "WHERE FTS_MATCH_WORD(?, `content`) AND `lang` = ? ORDER BY FTS_MATCH_WORD(?, `content`) DESC LIMIT 20"
+      );
+      assert.deepStrictEqual(params, ["tidb vector", "tidb vector", "en", "tidb vector"]);
+    });
+  });
+}
+
+// Run the tests
+runVectorTests().catch(error => {
+  console.error("Test execution failed:", error);
+  process.exit(1);
+});